@@ -2,13 +2,15 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import dynamic from 'next/dynamic';
-import { createConnection, getPumpData } from '../utils/solanaManager';
+import { createConnection } from '../utils/solanaManager';
+import { getRpcPool, RpcEndpointStatus } from '../utils/rpcPool';
+import { CacheStats, getCacheStats } from '../utils/rpcCache';
 import { usePumpTrader } from '../hooks/usePumpTrader';
-import { TokenData } from '../components/LiveFeed';
 import { AlertOctagon, Terminal, LayoutDashboard, Wallet, Settings } from 'lucide-react';
-import { quickFirstBuyerCheck, analyzeFirstBuyer } from '../utils/firstBuyer';
-import { quickSpeedCheck, analyzeSpeedTrade } from '../utils/speedTrader';
-import { analyzeEnhanced } from '../utils/enhancedAnalyzer';
+import { TokenPipeline } from '../utils/tokenPipeline';
+import { marketBus } from '../utils/marketBus';
+import { createPumpFeed } from '../utils/pumpFeed';
+import { SimulatedFeed } from '../utils/feedAdapters';
 
 // Dynamic imports for components
 const WalletManager = dynamic(() => import('../components/WalletManager'), { ssr: false });
@@ -40,7 +42,6 @@ export default function Home() {
   const [activeTab, setActiveTab] = useState<'dashboard' | 'wallet' | 'settings'>('dashboard');
   const [realBalance, setRealBalance] = useState(-1); // -1 = Loading/Waiting for RPC
   const balanceRef = useRef(-1);
-  const flickerCount = useRef(0);
 
   useEffect(() => {
     setMounted(true);
@@ -88,31 +89,48 @@ export default function Home() {
     return createConnection();
   });
 
+  // Extra RPC endpoints (Advanced settings) join the pool alongside Helius and the public nodes
+  const rpcEndpointsKey = (config.rpcEndpoints || []).join(',');
+
   useEffect(() => {
     // Only update if key actually changed to avoid unnecessary resets
+    const rpcEndpoints = rpcEndpointsKey ? rpcEndpointsKey.split(',') : [];
     if (config.heliusKey) {
       console.log(`[page.tsx] Updating connection with Helius key: ${config.heliusKey.substring(0, 8)}...`);
-      setConnection(createConnection(config.heliusKey));
+      setConnection(createConnection(config.heliusKey, rpcEndpoints, config.heliusPlan));
     } else if (mounted) {
       // Only revert to public if we are mounted and explicitly have no key
       console.log(`[page.tsx] No Helius key, using public RPC`);
-      setConnection(createConnection());
+      setConnection(createConnection(undefined, rpcEndpoints));
     }
-  }, [config.heliusKey, mounted]);
+  }, [config.heliusKey, config.heliusPlan, rpcEndpointsKey, mounted]);
+
+  // RPC pool health, rate-limit queues and cache hit rates for the dashboard
+  const [rpcStatus, setRpcStatus] = useState<RpcEndpointStatus[]>([]);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  useEffect(() => {
+    const pool = getRpcPool(connection);
+    const refresh = () => {
+      setRpcStatus(pool ? pool.getStatus() : []);
+      setCacheStats(getCacheStats());
+    };
+    refresh();
+    const interval = setInterval(refresh, 3000);
+    return () => clearInterval(interval);
+  }, [connection]);
 
   const {
     activeTrades,
     tradeHistory,
-    buyToken,
     sellToken,
     syncTrades,
     recoverTrades,
     clearTrades,
-    updateTrade,
     logs,
-    addLog,
     clearLogs,
     setDemoMode,
+    setExecutionBackend,
+    setTradingConfig,
     demoBalance,
     stats,
     isCleaning,
@@ -124,13 +142,9 @@ export default function Home() {
     moveVaultToTrading,
     toggleProfitProtection,
     setProfitProtectionPercentage,
-    clearVault
+    clearVault,
+    engine
   } = usePumpTrader(wallet?.keypair, connection, config.heliusKey);
-  const [sessionMints, setSessionMints] = useState<Set<string>>(new Set());
-  const processedMints = useRef<Set<string>>(new Set()); // deduplication ref
-  const [lastTradeTime, setLastTradeTime] = useState<number>(0);
-  const minTimeBetweenTrades = 500; // Reduced to 500ms to catch rapid pumps (was 2s)
-  const pendingRetries = useRef<Set<string>>(new Set());
 
   useEffect(() => {
     balanceRef.current = realBalance;
@@ -143,879 +157,53 @@ export default function Home() {
   const handleConfigChange = useCallback((newConfig: any) => {
     setConfig(newConfig);
     setDemoMode(newConfig.isDemo);
-  }, [setDemoMode]);
-
-  const onTokenDetected = useCallback(async (token: TokenData, isRetrying = false) => {
-    if (!config.isRunning) return;
-
-    if (isRetrying) {
-      pendingRetries.current.delete(token.mint);
-      addLog(`🔄 Re-analyzing ${token.symbol} (Wait period over)...`);
-    }
-
-    // 1. DEDUPLICATION (Return if already handled)
-    if (sessionMints.has(token.mint) || processedMints.current.has(token.mint)) {
-      // Allow re-analysis if we are explicitly retrying
-      if (!isRetrying) return;
-    }
-
-    // 2. RATE LIMITING & CONCURRENCY (Return but DON'T mark as processed, so we can retry)
-    const timeSinceLastTrade = Date.now() - lastTradeTime;
-    if (timeSinceLastTrade < minTimeBetweenTrades) return;
-
-    const openTradesCount = activeTrades.filter(t => t.status === "open").length;
-    if (openTradesCount >= (config.maxConcurrentTrades || 1)) return;
-
-    if (!wallet && !config.isDemo) return;
-
-    // Check currently active trades to prevent duplicate positions
-    if (activeTrades.some(t => t.mint === token.mint && t.status !== 'closed')) {
-      return;
-    }
-
-    // === ADVANCED RUG DETECTION (Early Filter) ===
-    // This catches obvious scams BEFORE expensive analysis
-    const { detectRug } = await import('../utils/rugDetector');
-    const rugDetection = detectRug(token, config.mode);
-
-    if (rugDetection.isRug) {
-      // Don't log rugs during retries to keep console clean
-      if (!isRetrying) {
-        addLog(`🚨 RUG DETECTED: ${token.symbol} - ${rugDetection.reason} (Confidence: ${rugDetection.confidence}%)`);
-      }
-      processedMints.current.add(token.mint); // Finalized as rug
-      return;
-    }
-
-    // Log warnings but don't reject (for high-risk mode)
-    if (rugDetection.warnings.length > 0) {
-      rugDetection.warnings.forEach(warning => {
-        addLog(`⚠️ ${token.symbol}: ${warning}`);
-      });
-    }
-
-    // Safety check: Don't buy tokens with suspiciously low liquidity or already crashed
-    // Use token data from WebSocket if available (avoids RPC call)
-    const liquidity = token.vSolInBondingCurve || 30;
-    const liquidityGrowth = liquidity - 30; // Initial liquidity is 30 SOL
-
-    // Reject tokens that have already crashed (negative liquidity growth > 5 SOL)
-    if (liquidityGrowth < -5) {
-      addLog(`🚨 Rejected ${token.symbol}: Liquidity draining (${liquidityGrowth.toFixed(2)} SOL) - likely rug`);
-      return;
-    }
-
-    // Reject tokens with very low liquidity (honeypot risk)
-    if (liquidity < 1) {
-      addLog(`🚨 Rejected ${token.symbol}: Liquidity too low (${liquidity.toFixed(2)} SOL) - honeypot risk`);
-      return;
-    }
-
-    // For demo mode with RPC issues, use token data from WebSocket directly
-    // This allows trading even when RPC is rate-limited
-    if (config.isDemo && token.vSolInBondingCurve && token.vTokensInBondingCurve) {
-      // We have data from WebSocket, can proceed with analysis using this data
-      // The enhanced analyzer will try to fetch more data but can work with what we have
-    }
-
-    // Auto-stop if balance is critical (ONLY for real trading with real wallet)
-    // Demo mode has its own balance management in usePumpTrader
-    const MIN_RESERVE = 0.01; // Reduced from 0.02 to allow more trades
-    const currentBal = balanceRef.current;
-    // Reuse timeSinceLastTrade from line 163
-
-    if (!config.isDemo && wallet) {
-      // IMPORTANT: If balance is still -1, it means the RPC fetch hasn't returned yet.
-      // We skip the check to avoid "False Zero" auto-stops.
-      if (currentBal === -1) return;
-
-      // Don't check balance immediately after a trade (give 10s grace period for balance to update)
-      const timeSinceLastTrade = Date.now() - lastTradeTime;
-      if (timeSinceLastTrade < 10000) return;
-
-      if (currentBal === 0) {
-        // Flicker protection: If balance is exactly 0, it might be a refresh glitch
-        flickerCount.current++;
-        if (flickerCount.current < 3) return;
-      } else {
-        flickerCount.current = 0; // Reset on good reading
-      }
-
-      // Only auto-stop if balance is truly insufficient for next trade + fees
-      if (currentBal < (config.amount + MIN_RESERVE)) {
-        addLog(`⚠️ CRITICAL BALANCE: Have ${currentBal.toFixed(4)} SOL, need ~${(config.amount + MIN_RESERVE).toFixed(4)} SOL. Auto-stopping bot.`);
-        setConfig((prev: any) => ({ ...prev, isRunning: false }));
-        return;
-      }
-    }
-
-    // Demo mode: Stop if balance gets too low (prevent burning through all demo SOL)
-    if (config.isDemo) {
-      // This will be checked in buyToken, but we can add a warning here
-      // The actual check happens in usePumpTrader
-    }
-
-    // === FIRST BUYER MODE (Buy immediately, sell after 6s) ===
-    if (config.mode === 'first') {
-      try {
-        // Quick pre-filter
-        const quickCheck = quickFirstBuyerCheck(token);
-        if (!quickCheck.passed) {
-          addLog(`🚀 First Reject: ${token.symbol} - ${quickCheck.reason}`);
-          return;
-        }
-
-        // First buyer analysis (ultra-early entry)
-        const firstSignal = await analyzeFirstBuyer(token, connection);
-
-        if (!firstSignal.shouldBuy || firstSignal.confidence < 60) {
-          addLog(`🚀 First Reject: ${token.symbol} - ${firstSignal.reason} (Confidence: ${firstSignal.confidence}%)`);
-          return;
-        }
-
-        // Log first buyer signal
-        addLog(`🚀 FIRST BUYER: ${token.symbol} - ${firstSignal.reason}`);
-        addLog(`   Confidence: ${firstSignal.confidence}% | Entry Time: ${new Date(firstSignal.entryTime).toLocaleTimeString()}`);
-        const tp2Text = firstSignal.exitStrategy.takeProfit2 ? `, 30% @ ${firstSignal.exitStrategy.takeProfit2}%` : '';
-        addLog(`   Exit Strategy: ${firstSignal.exitStrategy.timeBasedExit}s hold | Staged: 50% @ ${firstSignal.exitStrategy.takeProfit}%${tp2Text} | SL ${firstSignal.exitStrategy.stopLoss}%`);
-
-        setSessionMints(prev => new Set(prev).add(token.mint));
-
-        // Calculate initial price from token data
-        // Demo mode uses REAL tokens, so always calculate from real token data
-        let initialPrice: number | undefined;
-        if (token.vSolInBondingCurve > 0 && token.vTokensInBondingCurve > 0) {
-          initialPrice = (token.vSolInBondingCurve / token.vTokensInBondingCurve) * 1000000;
-        } else {
-          // Price will be fetched from blockchain in buyToken if not available here
-          initialPrice = undefined;
-        }
-
-        // Convert first buyer exit strategy to ActiveTrade format
-        const exitStrategy = {
-          takeProfit: firstSignal.exitStrategy.takeProfit,
-          takeProfit2: firstSignal.exitStrategy.takeProfit2,
-          stopLoss: firstSignal.exitStrategy.stopLoss,
-          maxHoldTime: firstSignal.exitStrategy.timeBasedExit,
-          trailingStop: false,
-          momentumExit: firstSignal.exitStrategy.momentumExit,
-          minHoldTime: firstSignal.exitStrategy.minHoldTime
-        };
-
-        // Use position size from analysis (research-based sizing)
-        const tradeAmount = firstSignal.exitStrategy.positionSize || config.amount;
-        addLog(`   💰 Position Size: ${tradeAmount} SOL (confidence-based)`);
-
-        // Buy with exit strategy and research-based position size
-        setLastTradeTime(Date.now());
-        await buyToken(token.mint, token.symbol, tradeAmount, 15, initialPrice, exitStrategy);
-        return;
-      } catch (error: any) {
-        addLog(`❌ First Buyer Error for ${token.symbol}: ${error.message}`);
-        return;
-      }
-    }
-
-    // === SPEED TRADING MODE (SCALP) ===
-    if (config.mode === 'scalp') {
-      try {
-        // Quick pre-filter
-        const quickCheck = quickSpeedCheck(token);
-        if (!quickCheck.passed) {
-          addLog(`⚡ Speed Reject: ${token.symbol} - ${quickCheck.reason}`);
-          return;
-        }
-
-        // Speed trading analysis (momentum-based)
-        const speedSignal = await analyzeSpeedTrade(token, connection);
-
-        if (!speedSignal.shouldBuy || speedSignal.confidence < 50) {
-          addLog(`⚡ Speed Reject: ${token.symbol} - ${speedSignal.reason} (Confidence: ${speedSignal.confidence}%)`);
-          return;
-        }
-
-        // Log speed trading signal
-        addLog(`⚡ SPEED BUY: ${token.symbol} - ${speedSignal.reason}`);
-        addLog(`   Confidence: ${speedSignal.confidence}% | Momentum: ${speedSignal.momentum.toFixed(2)} SOL/min`);
-        addLog(`   Exit Strategy: TP ${speedSignal.exitStrategy.takeProfit}% | SL ${speedSignal.exitStrategy.stopLoss}% | Max Hold: ${speedSignal.exitStrategy.maxHoldTime}s`);
-
-        setSessionMints(prev => new Set(prev).add(token.mint));
-
-        // Calculate initial price from token data
-        // Demo mode uses REAL tokens, so always calculate from real token data
-        let initialPrice: number | undefined;
-        if (token.vSolInBondingCurve > 0 && token.vTokensInBondingCurve > 0) {
-          initialPrice = (token.vSolInBondingCurve / token.vTokensInBondingCurve) * 1000000;
-        } else {
-          // Price will be fetched from blockchain in buyToken if not available here
-          initialPrice = undefined;
-        }
-
-        // Buy with exit strategy
-        setLastTradeTime(Date.now());
-        await buyToken(token.mint, token.symbol, config.amount, 15, initialPrice, speedSignal.exitStrategy);
-        return;
-      } catch (error: any) {
-        addLog(`❌ Speed Trading Error for ${token.symbol}: ${error.message}`);
-        return;
-      }
-    }
-
-    // === HIGH RISK MODE: MOMENTUM-BASED FAST TRACK ===
-    // For High Risk mode, prioritize new tokens with fast momentum
-    // BUT: Still respect rug detection - don't buy obvious scams!
-    if (config.mode === 'high') {
-      try {
-        const age = (Date.now() - token.timestamp) / 1000; // Age in seconds
-        const liquidityGrowth = (token.vSolInBondingCurve || 30) - 30;
-
-        // Calculate momentum (liquidity growth rate)
-        const momentum = age > 0 ? (liquidityGrowth / age) * 60 : 0; // SOL per minute
-
-        // FAST TRACK: Very new tokens (<60s) with strong momentum
-        // BUT: Must pass basic rug checks (liquidity, not crashed, etc.)
-        if (age < 60 && momentum > 1.5 && liquidityGrowth > 2 && liquidityGrowth >= 0 && (token.vSolInBondingCurve || 30) >= 1) {
-          addLog(`🚀 HIGH RISK FAST TRACK: ${token.symbol} - ${age.toFixed(0)}s old, ${momentum.toFixed(1)} SOL/min momentum, +${liquidityGrowth.toFixed(2)} SOL`);
-          addLog(`   ⚡ NEW + MOMENTUM: Early momentum play (rug checks passed)`);
-
-          // TREND VERIFICATION (Anti-Falling Knife)
-          addLog(`🔎 Verifying trend for ${token.symbol}...`);
-          await new Promise(r => setTimeout(r, 1500));
-          const freshData = await getPumpData(token.mint, connection);
-          if (!freshData) { addLog(`⚠️ Verification failed for ${token.symbol}`); return; }
-
-          const freshPrice = (freshData.vSolInBondingCurve / freshData.vTokensInBondingCurve) * 1000000;
-          const oldPrice = ((token.vSolInBondingCurve || 30) / (token.vTokensInBondingCurve || 1073000000000000)) * 1000000;
-          const change = ((freshPrice - oldPrice) / oldPrice) * 100;
-
-          if (change < -0.5) {
-            addLog(`📉 FALLING KNIFE: ${token.symbol} dropped ${change.toFixed(2)}% in 1.5s. Rejected.`);
-            return;
-          }
-          if (freshData.vSolInBondingCurve < (token.vSolInBondingCurve || 30) * 0.9) {
-            addLog(`📉 LIQUIDITY DRAIN: ${token.symbol} liquidity dropped. Rejected.`);
-            return;
-          }
-          addLog(`✅ Trend Valid: ${change >= 0 ? '+' : ''}${change.toFixed(2)}%`);
-
-          // Update for accurate entry price
-          token.vSolInBondingCurve = freshData.vSolInBondingCurve;
-          token.vTokensInBondingCurve = freshData.vTokensInBondingCurve;
-
-          setSessionMints(prev => new Set(prev).add(token.mint));
-          const initialPrice = token.vSolInBondingCurve > 0 && token.vTokensInBondingCurve > 0
-            ? (token.vSolInBondingCurve / token.vTokensInBondingCurve) * 1000000
-            : undefined;
-
-          setLastTradeTime(Date.now());
-          await buyToken(token.mint, token.symbol, config.amount, 15, initialPrice);
-          return;
-        }
-
-        // FAST TRACK: New tokens (<2 min) with very strong momentum (>3 SOL/min)
-        // BUT: Must pass basic rug checks
-        if (age < 120 && momentum > 3 && liquidityGrowth > 5 && liquidityGrowth >= 0 && (token.vSolInBondingCurve || 30) >= 1) {
-          addLog(`🚀 HIGH RISK FAST TRACK: ${token.symbol} - ${age.toFixed(0)}s old, ${momentum.toFixed(1)} SOL/min momentum, +${liquidityGrowth.toFixed(2)} SOL`);
-          addLog(`   ⚡ STRONG MOMENTUM: High buy activity detected (rug checks passed)`);
-
-          // TREND VERIFICATION (Anti-Falling Knife)
-          addLog(`🔎 Verifying trend for ${token.symbol}...`);
-          await new Promise(r => setTimeout(r, 1500));
-          const freshData = await getPumpData(token.mint, connection);
-          if (!freshData) { addLog(`⚠️ Verification failed for ${token.symbol}`); return; }
-
-          const freshPrice = (freshData.vSolInBondingCurve / freshData.vTokensInBondingCurve) * 1000000;
-          const oldPrice = ((token.vSolInBondingCurve || 30) / (token.vTokensInBondingCurve || 1073000000000000)) * 1000000;
-          const change = ((freshPrice - oldPrice) / oldPrice) * 100;
-
-          if (change < -0.5) {
-            addLog(`📉 FALLING KNIFE: ${token.symbol} dropped ${change.toFixed(2)}% in 1.5s. Rejected.`);
-            return;
-          }
-          addLog(`✅ Trend Valid: ${change >= 0 ? '+' : ''}${change.toFixed(2)}%`);
-
-          token.vSolInBondingCurve = freshData.vSolInBondingCurve;
-          token.vTokensInBondingCurve = freshData.vTokensInBondingCurve;
-
-          setSessionMints(prev => new Set(prev).add(token.mint));
-          const initialPrice = token.vSolInBondingCurve > 0 && token.vTokensInBondingCurve > 0
-            ? (token.vSolInBondingCurve / token.vTokensInBondingCurve) * 1000000
-            : undefined;
-
-          setLastTradeTime(Date.now());
-          await buyToken(token.mint, token.symbol, config.amount, 15, initialPrice);
-          return;
-        }
-      } catch (error: any) {
-        // If fast track fails, fall through to normal analysis
-        addLog(`⚠️ Fast track error for ${token.symbol}, using normal analysis: ${error.message}`);
-      }
-    }
-
-    // === VELOCITY MODE: MOMENTUM FAST TRACK ===
-    if (config.mode === 'velocity') {
-      try {
-        const age = (Date.now() - token.timestamp) / 1000;
-        const liquidityGrowth = (token.vSolInBondingCurve || 30) - 30;
-        const momentum = age > 0 ? (liquidityGrowth / age) * 60 : 0;
-
-        // VELOCITY FAST TRACK: New tokens (<60s) with explosive initial volume
-        // PLUS BASIC RUG CHECK: Don't buy obvious scams even if they are fast
-        const isObviousRug = token.name.toLowerCase().includes("rug") ||
-          token.name.toLowerCase().includes("test") ||
-          token.symbol.toLowerCase().includes("rug");
-
-        if (!isObviousRug && age < 60 && momentum > 1.0 && liquidityGrowth > 1.5 && (token.vSolInBondingCurve || 30) >= 1) {
-          addLog(`🏎️ VELOCITY FAST TRACK: ${token.symbol} - ${age.toFixed(0)}s old, ${momentum.toFixed(1)} SOL/min momentum`);
-          addLog(`   🎯 EARLY IGNITION: Token is launching with conviction. Entering trade.`);
-
-          // TREND VERIFICATION
-          addLog(`🔎 Verifying Velocity Trend for ${token.symbol}...`);
-          await new Promise(r => setTimeout(r, 1500));
-          const freshData = await getPumpData(token.mint, connection);
-          if (!freshData) { addLog(`⚠️ Verification failed for ${token.symbol}`); return; }
-
-          const freshPrice = (freshData.vSolInBondingCurve / freshData.vTokensInBondingCurve) * 1000000;
-          const oldPrice = ((token.vSolInBondingCurve || 30) / (token.vTokensInBondingCurve || 1073000000000000)) * 1000000;
-          const change = ((freshPrice - oldPrice) / oldPrice) * 100;
-
-          if (change < -0.5) {
-            addLog(`📉 FALLING KNIFE: ${token.symbol} dropped ${change.toFixed(2)}%. Velocity Reject.`);
-            return;
-          }
-          addLog(`✅ Velocity Valid: ${change >= 0 ? '+' : ''}${change.toFixed(2)}%`);
-
-          token.vSolInBondingCurve = freshData.vSolInBondingCurve;
-          token.vTokensInBondingCurve = freshData.vTokensInBondingCurve;
-
-          setSessionMints(prev => new Set(prev).add(token.mint));
-          const initialPrice = token.vSolInBondingCurve > 0 && token.vTokensInBondingCurve > 0
-            ? (token.vSolInBondingCurve / token.vTokensInBondingCurve) * 1000000
-            : undefined;
-
-          setLastTradeTime(Date.now());
-          await buyToken(token.mint, token.symbol, config.amount, 15, initialPrice);
-          return;
-        }
-      } catch (e) { }
-    }
-
-    // === ENHANCED TOKEN ANALYSIS (Safe/Medium/High modes) - Based on Research ===
-    try {
-      // ENTRY CONFIRMATION: Wait for momentum confirmation before buying
-      // This prevents buying into dead tokens
-      const age = (Date.now() - token.timestamp) / 1000;
-      const liquidityGrowth = (token.vSolInBondingCurve || 30) - 30;
-      const momentum = age > 0 ? (liquidityGrowth / age) * 60 : 0;
-
-      // 1. MOMENTUM HURDLE: If token is >30s old and has < 0.5 SOL growth, it's inactive.
-      // This saves HUNDREDS of RPC calls by skipping "Dead Air" tokens.
-      if (age > 30 && liquidityGrowth < 0.5 && config.mode !== 'high' && config.mode !== 'first') {
-        return;
-      }
-
-      // 2. SNIPER TRAP CHECK: If token pumped too fast (>20 SOL in <30s), it's likely a bot trap
-      if (age < 30 && liquidityGrowth > 20 && config.mode !== 'high' && config.mode !== 'first') {
-        addLog(`🚨 Sniper Trap Avoided: ${token.symbol} pumped +${liquidityGrowth.toFixed(2)} SOL in ${age.toFixed(1)}s. Too risky.`);
-        return;
-      }
-
-      // 2. DEAD TOKEN CHECK: If token is old (>2m) with no momentum, skip
-      if (age > 120 && momentum < 0.1 && config.mode !== 'high') {
-        addLog(`💤 Dead Token: ${token.symbol} is ${Math.floor(age / 60)}m old with 0 momentum. Skipping.`);
-        return;
-      }
-
-      if (age < 30 && config.mode !== 'high' && config.mode !== 'first' && config.mode !== 'scalp') {
-        if (liquidityGrowth < 0.1 && momentum < 1.5) {
-          if (!pendingRetries.current.has(token.mint)) {
-            pendingRetries.current.add(token.mint);
-            addLog(`⏳ ${token.symbol} too new (${age.toFixed(1)}s). Monitoring for activity...`);
-            setTimeout(() => onTokenDetected(token, true), 15000);
-          }
-          return;
-        } else if (momentum >= 1.5) {
-          addLog(`🚀 High Momentum detected for ${token.symbol} (${momentum.toFixed(1)} SOL/min)! Bypassing wait...`);
-        }
-      }
-
-      // Full enhanced analysis
-      // NOTE: Demo mode uses REAL tokens, not simulated ones
-      // Only skip analysis for SIM tokens in simulation mode (not demo mode)
-      let analysis;
-      if (token.mint.startsWith('SIM') && !config.isDemo) {
-        // For simulated tokens, create a simplified analysis
-        const devBuy = (token.vSolInBondingCurve || 30) - 30;
-        const isRug = devBuy < 0.5 || token.name === "Garbage Coin";
-        analysis = {
-          score: isRug ? 20 : 75,
-          riskLevel: isRug ? 'high' : 'low' as const,
-          passed: !isRug && devBuy >= 1.0,
-          reasons: isRug ? ['Simulated rug token'] : [],
-          warnings: devBuy < 1.0 ? ['Low dev buy'] : [],
-          strengths: devBuy >= 2.0 ? ['High dev commitment'] : [],
-          bondingCurveProgress: 5,
-          marketCap: token.vSolInBondingCurve || 30,
-          metrics: {
-            holderCount: 100,
-            deployerHoldings: 10,
-            top10Concentration: 40,
-            volume24h: 5,
-            buySellRatio: 0.7,
-            bondingCurveVelocity: 0.5,
-            liquidityDepth: token.vSolInBondingCurve || 30,
-            contractSecurity: { freezeAuthority: true, mintAuthority: true, updateAuthority: true }
-          }
-        };
-      } else {
-        // Enhanced analysis for real tokens (based on research)
-        // Pass risk mode to analyzer so it can adjust strictness
-        // Mapping: Maps new modes (runner, sniper, degen) to analyzer logic
-        const riskModeMap: Record<string, 'runner' | 'sniper' | 'degen' | 'safe' | 'medium' | 'high' | 'velocity'> = {
-          'runner': 'runner',
-          'safe': 'runner',
-          'medium': 'runner',
-          'sniper': 'sniper',
-          'first': 'sniper',
-          'degen': 'degen',
-          'high': 'degen',
-          'velocity': 'degen',
-          'scalp': 'degen',
-          'custom': 'medium'
-        };
-        const riskMode = riskModeMap[config.mode] || 'medium';
-        // @ts-ignore
-        analysis = await analyzeEnhanced(token, connection, config.heliusKey, riskMode as any, config.advanced);
-      }
-
-      // Mode-based filtering with analysis scores
-      // IMPORTANT: High-risk mode should still have MINIMUM quality standards
-      // Mode-based filtering with analysis scores
-      // IMPORTANT: Velocity mode score requirement is handled inside analyzeEnhanced (passed = 40)
-      // but we still define the display minScore here
-      let minScore = 30;
-      if (config.mode === 'runner' || config.mode === 'safe') minScore = 70;
-      else if (config.mode === 'medium' || config.mode === 'custom') minScore = 50;
-      else if (config.mode === 'sniper' || config.mode === 'first') minScore = 60; // Tier 0 must pass
-      else if (config.mode === 'degen' || config.mode === 'velocity' || config.mode === 'high') minScore = 20;
-
-      if (config.isDemo) {
-        // Paper trading: Lower thresholds to allow more trades for testing
-        minScore = Math.max(15, minScore - 10);
-      }
-
-      // For high-risk mode with strong momentum, we can be slightly more lenient
-      // But still maintain minimum quality (don't go below 25 in real mode, 20 in demo)
-      if (config.mode === 'high' && age < 120 && momentum > 2) {
-        minScore = config.isDemo ? 15 : 20;
-      }
-
-      // If RPC is failing (analysis might be incomplete), be very lenient
-      // Check if analysis has warnings about RPC issues
-      const hasRpcIssues = analysis.warnings.some(w => w.includes('RPC') || w.includes('Access denied') || w.includes('rate limit') || w.includes('basic analysis'));
-      if (config.isDemo && hasRpcIssues) {
-        // If RPC is failing, accept tokens with lower scores (analysis is incomplete)
-        minScore = Math.max(10, minScore - 20); // Lower by 20 points, minimum 10
-        addLog(`⚠️ RPC issues detected - lowering score threshold to ${minScore} for ${token.symbol}`);
-      }
-
-      if (analysis.score < minScore) {
-        addLog(`🚫 Rejected: ${token.symbol} - Score: ${analysis.score}/100 (Need: ${minScore}) - ${analysis.riskLevel.toUpperCase()} risk`);
-        addLog(`   Bonding Curve: ${analysis.bondingCurveProgress.toFixed(1)}% | Market Cap: ${analysis.marketCap.toFixed(1)} SOL`);
-        if (analysis.reasons.length > 0) {
-          analysis.reasons.forEach(r => addLog(`   ${r}`));
-        }
-        if (analysis.warnings.length > 0) {
-          analysis.warnings.forEach(w => addLog(`   ⚠️ ${w}`));
-        }
-        return;
-      }
-
-      if (!analysis.passed) {
-        // PERSISTENT MONITORING: If rejected for being 'too early', retry until it's at least 60s old
-        if (analysis.reasons.some(r => r.includes('Too early')) && age < 60) {
-          const waitTime = isRetrying ? 20000 : 15000;
-          addLog(`⏳ ${token.symbol} still early (${analysis.bondingCurveProgress.toFixed(1)}%). Re-checking in ${waitTime / 1000}s...`);
-          setTimeout(() => onTokenDetected(token, true), waitTime);
-          return;
-        }
-
-        if (isRetrying) {
-          addLog(`🚫 Retry Rejected: ${token.symbol} - ${analysis.reasons.join(', ')}`);
-        } else {
-          addLog(`🚫 Rejected: ${token.symbol} - ${analysis.reasons.join(', ')}`);
-        }
-        return;
-      }
-
-      // Log enhanced analysis results
-      addLog(`✅ APPROVED: ${token.symbol} - Score: ${analysis.score}/100 (${analysis.riskLevel} risk)`);
-      addLog(`   📊 Bonding Curve: ${analysis.bondingCurveProgress.toFixed(1)}% | Market Cap: ${analysis.marketCap.toFixed(1)} SOL`);
-      addLog(`   👥 Holders: ${analysis.metrics.holderCount} | Deployer: ${analysis.metrics.deployerHoldings.toFixed(1)}% | Top 10: ${analysis.metrics.top10Concentration.toFixed(1)}%`);
-      addLog(`   💰 Volume: ${analysis.metrics.volume24h.toFixed(1)} SOL | Buy Ratio: ${(analysis.metrics.buySellRatio * 100).toFixed(0)}%`);
-      addLog(`   ⚡ Velocity: ${analysis.metrics.bondingCurveVelocity.toFixed(2)}%/min | Liquidity: ${analysis.metrics.liquidityDepth.toFixed(1)} SOL`);
-
-      if (analysis.strengths.length > 0) {
-        analysis.strengths.forEach(s => addLog(`   ✓ ${s}`));
-      }
-      if (analysis.warnings.length > 0) {
-        analysis.warnings.forEach(w => addLog(`   ⚠️ ${w}`));
-      }
-
-      // DYNAMIC POSITION SIZING: Adjust based on analysis score and confidence
-      // Higher score = larger position (up to 2x base amount)
-      // Lower score = smaller position (down to 0.5x base amount)
-      let positionSize = config.amount;
-      if (config.dynamicSizing) {
-        const scoreMultiplier = Math.max(0.5, Math.min(2.0, (analysis.score / 50))); // 0.5x to 2.0x
-        positionSize = config.amount * scoreMultiplier;
-
-        if (Math.abs(positionSize - config.amount) > 0.001) {
-          addLog(`💰 Dynamic Sizing: ${positionSize.toFixed(4)} SOL (${scoreMultiplier > 1 ? '+' : ''}${((scoreMultiplier - 1) * 100).toFixed(0)}% based on score ${analysis.score})`);
-        }
-      } else {
-        addLog(`💰 Fixed Position: ${positionSize.toFixed(4)} SOL (Dynamic Sizing OFF)`);
-      }
-
-      // Portfolio heat management: Reduce position size if too many trades open
-      const openTradesCount = activeTrades.filter(t => t.status === "open").length;
-      if (openTradesCount >= 3) {
-        positionSize *= 0.7; // Reduce by 30% if 3+ trades open
-      } else if (openTradesCount >= 2) {
-        positionSize *= 0.85; // Reduce by 15% if 2 trades open
-      }
-
-      // Cap position size for safety
-      positionSize = Math.min(positionSize, config.amount * 2); // Never more than 2x base
-      positionSize = Math.max(positionSize, config.amount * 0.3); // Never less than 0.3x base
-
-      console.log("[onTokenDetected] ✅ Executing buy for:", token.symbol, "Amount:", positionSize.toFixed(4), "SOL", "Score:", analysis.score, "Curve:", analysis.bondingCurveProgress.toFixed(1) + "%");
-      setSessionMints(prev => new Set(prev).add(token.mint));
-
-      const initialPrice = token.vSolInBondingCurve > 0 && token.vTokensInBondingCurve > 0
-        ? (token.vSolInBondingCurve / token.vTokensInBondingCurve) * 1000000
-        : undefined;
-
-      setLastTradeTime(Date.now());
-      // Use user-defined slippage if available, otherwise fall back to adaptive
-      const slippage = config.advanced?.slippage || ((config.mode === 'high' || config.mode === 'scalp' || config.mode === 'first' || config.mode === 'sniper') ? 25 : 15);
-
-      // Finalize: Token successfully passed all filters
-      processedMints.current.add(token.mint);
-
-      const exitStrategy = {
-        takeProfit: config.takeProfit,
-        stopLoss: config.stopLoss,
-        maxHoldTime: config.mode === 'sniper' ? 300 : (config.mode === 'degen' ? 120 : 3600), // Sniper/Degen = short hold, Runner = long
-        trailingStop: config.mode === 'runner', // Enable trailing stop for runners
-        momentumExit: config.mode === 'degen', // Momentum exit for degens
-      };
-
-      await buyToken(token.mint, token.symbol, positionSize, slippage, initialPrice, exitStrategy);
-    } catch (error: any) {
-      addLog(`❌ Analysis Error for ${token.symbol}: ${error.message}`);
-      console.error("Token analysis error:", error);
-      // Fallback to old simple check for safety
-      const initialBuySol = (token.vSolInBondingCurve || 30) - 30;
-      if (config.mode === 'safe' && initialBuySol < 2.0) {
-        addLog(`Fallback: Skipping ${token.symbol} - Dev Buy too low`);
-        return;
-      }
-      // Custom mode: User has full control, proceed if they've configured it
-      // Other modes: Proceed if not in safe mode
-      if (config.mode === 'custom' || config.mode !== 'safe') {
-        setSessionMints(prev => new Set(prev).add(token.mint));
-        // Calculate initial price from token data
-        // Demo mode uses REAL tokens, so always calculate from real token data
-        let initialPrice: number | undefined;
-        if (token.vSolInBondingCurve > 0 && token.vTokensInBondingCurve > 0) {
-          initialPrice = (token.vSolInBondingCurve / token.vTokensInBondingCurve) * 1000000;
-        } else {
-          // Price will be fetched from blockchain in buyToken if not available here
-          initialPrice = undefined;
-        }
-        setLastTradeTime(Date.now());
-        const dynamicSlippage = (config.mode === 'high' || config.mode === 'scalp' || config.mode === 'first' || config.mode === 'sniper') ? 25 : 15;
-
-        const exitStrategy = {
-          takeProfit: config.takeProfit,
-          stopLoss: config.stopLoss,
-          maxHoldTime: config.mode === 'sniper' ? 300 : (config.mode === 'degen' ? 120 : 3600),
-          trailingStop: config.mode === 'runner',
-          momentumExit: config.mode === 'degen',
-        };
-
-        await buyToken(token.mint, token.symbol, config.amount, dynamicSlippage, initialPrice, exitStrategy);
-      }
-    }
-  }, [config.isRunning, config.isDemo, config.mode, config.amount, config.heliusKey, wallet, activeTrades, tradeHistory, buyToken, realBalance, connection, addLog]);
+    setExecutionBackend(newConfig.executionBackend);
+    engine.setPriorityFeeConfig({ capSol: newConfig.maxPriorityFee });
+    // Exit evaluation (TP/SL/trailing/staged) runs inside the trading engine
+    setTradingConfig({
+      mode: newConfig.mode,
+      takeProfit: newConfig.takeProfit,
+      stopLoss: newConfig.stopLoss,
+      isRunning: newConfig.isRunning
+    });
+  }, [engine, setDemoMode, setExecutionBackend, setTradingConfig]);
+
+  // Entry pipeline (dedup, rug checks, analyzers, sizing) lives outside React so the CLI can share it
+  const configRef = useRef(config);
+  const walletRef = useRef(wallet);
+  configRef.current = config;
+  walletRef.current = wallet;
+
+  const pipelineRef = useRef<TokenPipeline | null>(null);
+  if (!pipelineRef.current) {
+    pipelineRef.current = new TokenPipeline({
+      engine,
+      connection,
+      getConfig: () => configRef.current,
+      hasWallet: () => !!walletRef.current,
+      getBalance: () => balanceRef.current,
+      onAutoStop: () => setConfig((prev: any) => ({ ...prev, isRunning: false }))
+    });
+  }
 
-  // Automated Sell Logic (TP/SL + Speed Trading)
   useEffect(() => {
-    if (!config.isRunning) return;
-
-    activeTrades.forEach(trade => {
-      // Only process OPEN trades
-      if (trade.status !== "open") return;
+    pipelineRef.current?.setConnection(connection);
+  }, [connection]);
 
-      // CRITICAL FIX: Don't skip if buyPrice is 0 - wait for it to be set
-      // The price polling will set buyPrice on first update
-      // Only skip if we have a currentPrice but no buyPrice after reasonable time
-      if (!trade.buyPrice || trade.buyPrice === 0) {
-        // If trade is older than 5 seconds and still no buyPrice, try to use currentPrice
-        if (trade.buyTime && (Date.now() - trade.buyTime) > 5000) {
-          if (trade.currentPrice && trade.currentPrice > 0) {
-            // Use currentPrice as buyPrice if we've been waiting too long
-            updateTrade(trade.mint, { buyPrice: trade.currentPrice });
-            addLog(`[${trade.symbol}] Using currentPrice as buyPrice (${trade.currentPrice.toFixed(9)})`);
-          } else {
-            // Still no price after 5 seconds, skip this cycle
-            return;
-          }
-        } else {
-          // Trade is new, wait for price update
-          return;
-        }
-      }
-
-      // Use custom exit strategy if available (speed trading), otherwise use config
-      const exitStrategy = trade.exitStrategy || {
-        takeProfit: config.takeProfit,
-        stopLoss: config.stopLoss,
-        maxHoldTime: Infinity,
-        trailingStop: false,
-        minHoldTime: 0,
-        momentumExit: false,
-        takeProfit2: undefined,
-        trailingStopPercent: undefined
-      };
-
-      // Time-based exit (for speed trading and first buyer)
-      if (trade.buyTime && exitStrategy.maxHoldTime < Infinity) {
-        const holdTime = (Date.now() - trade.buyTime) / 1000; // seconds
-        const minHoldTime = exitStrategy.minHoldTime || 0;
-
-        // Check minimum hold time (for first buyer mode)
-        if (holdTime < minHoldTime) {
-          // Don't exit yet - still in minimum hold period
-          return;
-        }
-
-        // Time-based exit after max hold time
-        if (holdTime >= exitStrategy.maxHoldTime) {
-          addLog(`⏰ TIME EXIT: ${trade.symbol} held for ${Math.floor(holdTime)}s (max: ${exitStrategy.maxHoldTime}s). Selling...`);
-          sellToken(trade.mint, 100);
-          return;
-        }
-      }
-
-      // Momentum-based exit (for first buyer mode)
-      if (exitStrategy.momentumExit && trade.buyTime) {
-        const holdTime = (Date.now() - trade.buyTime) / 1000;
-        const minHoldTime = exitStrategy.minHoldTime || 0;
-
-        // Only check momentum after minimum hold time
-        if (holdTime >= minHoldTime && trade.pnlPercent > 5) {
-          // If we're in profit and price is rising, consider early exit
-          // This detects when others are buying (momentum)
-          const recentPriceChange = trade.lastPriceChangeTime && (Date.now() - trade.lastPriceChangeTime) < 3000; // Price changed in last 3s
-          if (recentPriceChange && trade.pnlPercent >= exitStrategy.takeProfit * 0.5) {
-            // Exit early if we hit 50% of TP and momentum detected
-            addLog(`📈 MOMENTUM EXIT: ${trade.symbol} - Others buying! Profit: ${trade.pnlPercent.toFixed(1)}%. Selling...`);
-            sellToken(trade.mint, 100);
-            return;
-          }
-        }
-      }
-
-      if (config.mode === 'high' && trade.buyTime) {
-        const holdTime = (Date.now() - trade.buyTime) / 1000;
-        if (holdTime < 10) {
-          return;
-        }
-      }
-
-      // Profit Protection: If we're in profit but price starts dropping, exit quickly
-      // This prevents giving back profits on meme tokens
-      if (trade.buyPrice > 0 && trade.currentPrice > 0 && trade.highestPrice) {
-        const currentPnl = ((trade.currentPrice - trade.buyPrice) / trade.buyPrice) * 100;
-        const peakPnl = ((trade.highestPrice - trade.buyPrice) / trade.buyPrice) * 100;
+  // One feed adapter publishes to the market bus; the pipeline and LiveFeed both subscribe
+  const [feedPaused, setFeedPaused] = useState(false);
+  const feedPausedRef = useRef(feedPaused);
+  feedPausedRef.current = feedPaused;
 
-        // If we were up 10%+ but now down to 5% or less, exit to protect profits
-        if (peakPnl >= 10 && currentPnl <= 5 && currentPnl > 0) {
-          addLog(`💰 PROFIT PROTECTION: ${trade.symbol} dropped from ${peakPnl.toFixed(1)}% to ${currentPnl.toFixed(1)}%. Securing profits...`);
-          sellToken(trade.mint, 100);
-          return;
-        }
-
-        // If we were up 20%+ but now down to 10% or less, exit immediately
-        if (peakPnl >= 20 && currentPnl <= 10 && currentPnl > 0) {
-          addLog(`💰 PROFIT PROTECTION: ${trade.symbol} dropped from ${peakPnl.toFixed(1)}% to ${currentPnl.toFixed(1)}%. Exiting...`);
-          sellToken(trade.mint, 100);
-          return;
-        }
-      }
-
-      // ADAPTIVE TRAILING STOP: Tightens as profit increases
-      // More profit = tighter stop to protect gains
-      if (trade.highestPrice && trade.highestPrice > trade.buyPrice && trade.buyPrice > 0) {
-        const peakGain = ((trade.highestPrice - trade.buyPrice) / trade.buyPrice) * 100;
-        const currentDropFromPeak = ((trade.highestPrice - trade.currentPrice) / trade.highestPrice) * 100;
-
-        // Adaptive trailing stop: Tighter stops as profit increases
-        let trailingStopPercent = 15; // Default 15% from peak
-        if (peakGain >= 50) {
-          trailingStopPercent = 8; // Tight stop at 50%+ profit (protect big gains)
-        } else if (peakGain >= 30) {
-          trailingStopPercent = 10; // Medium stop at 30%+ profit
-        } else if (peakGain >= 15) {
-          trailingStopPercent = 12; // Slightly tighter at 15%+ profit
-        }
-
-        // If we've gained at least 10% and now dropped X% from peak, sell
-        if (peakGain >= 10 && currentDropFromPeak >= trailingStopPercent) {
-          addLog(`📉 ADAPTIVE TRAILING STOP: ${trade.symbol} dropped ${currentDropFromPeak.toFixed(1)}% from peak (${peakGain.toFixed(1)}% gain, ${trailingStopPercent}% stop). Selling...`);
-          sellToken(trade.mint, 100);
-          return;
-        }
-      }
-
-      // Trailing Stop (for speed trading - explicit setting)
-      if (exitStrategy.trailingStop && trade.highestPrice && trade.highestPrice > trade.buyPrice) {
-        const peakGain = ((trade.highestPrice - trade.buyPrice) / trade.buyPrice) * 100;
-        const trailingStopPercent = exitStrategy.trailingStopPercent || 10; // Default 10% from peak
-        const currentDropFromPeak = ((trade.highestPrice - trade.currentPrice) / trade.highestPrice) * 100;
-
-        // If we've gained at least 20% and now dropped X% from peak, sell
-        if (peakGain >= 20 && currentDropFromPeak >= trailingStopPercent) {
-          addLog(`📉 TRAILING STOP: ${trade.symbol} dropped ${currentDropFromPeak.toFixed(1)}% from peak (${peakGain.toFixed(1)}% gain). Selling...`);
-          sellToken(trade.mint, 100);
-          return;
-        }
-      }
-
-      // Stop Loss (Immediate Exit)
-      const stopLoss = exitStrategy.stopLoss || config.stopLoss;
-      // Ensure we have valid PnL calculation
-      if (trade.buyPrice > 0 && trade.currentPrice > 0) {
-        const calculatedPnl = ((trade.currentPrice - trade.buyPrice) / trade.buyPrice) * 100;
-        // Stop loss triggers when PnL is at or below the negative stop loss threshold
-        if (calculatedPnl <= -Math.abs(stopLoss)) {
-          addLog(`🛑 STOP LOSS Triggered for ${trade.symbol} at ${calculatedPnl.toFixed(2)}% (threshold: -${stopLoss}%)`);
-          sellToken(trade.mint, 100);
-          return;
-        }
-      }
-
-      // Fallback: Use stored PnL if calculation failed (check both calculated and stored)
-      const pnlToCheck = trade.pnlPercent !== undefined ? trade.pnlPercent :
-        (trade.buyPrice > 0 && trade.currentPrice > 0 ?
-          ((trade.currentPrice - trade.buyPrice) / trade.buyPrice) * 100 : 0);
-      if (pnlToCheck <= -Math.abs(stopLoss) && trade.buyPrice > 0) {
-        addLog(`🛑 STOP LOSS Triggered for ${trade.symbol} at ${pnlToCheck.toFixed(2)}% (threshold: -${stopLoss}%)`);
-        sellToken(trade.mint, 100);
-        return;
-      }
-
-      // Staged Profit Taking (Research: 50% at 2x, 30% at 5x, hold 20%)
-      const takeProfit = exitStrategy.takeProfit || config.takeProfit;
-      const takeProfit2 = exitStrategy.takeProfit2;
-
-      // Initialize partial sells tracking if not exists
-      if (!trade.partialSells) {
-        updateTrade(trade.mint, { partialSells: {} });
-        return; // Wait for next cycle
-      }
-
-      // Calculate current PnL to ensure accuracy
-      let currentPnl = trade.pnlPercent;
-      if (trade.buyPrice > 0 && trade.currentPrice > 0) {
-        currentPnl = ((trade.currentPrice - trade.buyPrice) / trade.buyPrice) * 100;
-      }
-
-      // First profit target (2x = 100%) - Sell 50%
-      if (currentPnl >= takeProfit && !trade.partialSells[50]) {
-        addLog(`🎯 STAGED TP1: ${trade.symbol} hit ${currentPnl.toFixed(1)}% (target: ${takeProfit}%). Selling 50%...`);
-        sellToken(trade.mint, 50);
-        // Mark 50% as sold
-        updateTrade(trade.mint, { partialSells: { ...trade.partialSells, 50: true } });
-        return;
-      }
-
-      // MEDIUM MODE BREAK-EVEN PROTECTION: Sell 80% at 25% profit to reclaim original SOL
-      // Only for Medium mode and only if takeProfit is set higher than 25%
-      if (config.mode === 'medium' && currentPnl >= 25 && takeProfit > 25 && !trade.partialSells[80] && !trade.partialSells[50]) {
-        addLog(`🛡️ BREAK-EVEN PROTECTION: ${trade.symbol} hit 25% profit. Selling 80% to secure original SOL...`);
-        sellToken(trade.mint, 80);
-        // Mark 80% as sold to prevent repeats or higher staged sells
-        updateTrade(trade.mint, { partialSells: { ...trade.partialSells, 80: true } });
-        return;
-      }
-
-      // Second profit target (5x = 400%) - Sell 30% more (total 80% sold, 20% held)
-      if (takeProfit2 && currentPnl >= takeProfit2 && !trade.partialSells[80]) {
-        addLog(`🚀 STAGED TP2: ${trade.symbol} hit ${currentPnl.toFixed(1)}% (target: ${takeProfit2}%). Selling 30% more (20% held for lottery)...`);
-        sellToken(trade.mint, 30);
-        // Mark 80% as sold
-        updateTrade(trade.mint, { partialSells: { ...trade.partialSells, 80: true } });
-        return;
-      }
-
-      // === VELOCITY MODE: CASCADING TAKE PROFIT (CTP) ===
-      // Sells 25% of CURRENT balance at 25%, 50%, and 75% profit intervals
-      if (config.mode === 'velocity' && trade.buyPrice > 0) {
-        // TP at 25%
-        if (currentPnl >= 25 && !trade.partialSells[25]) {
-          addLog(`💰 VELOCITY CTP (25%): ${trade.symbol} hit 25% profit. Selling 25% of tokens...`);
-          sellToken(trade.mint, 25);
-          updateTrade(trade.mint, { partialSells: { ...trade.partialSells, 25: true } });
-          return;
-        }
-        // TP at 50%
-        if (currentPnl >= 50 && !trade.partialSells[51]) { // Use 51 to avoid overlap if 50 is used elsewhere
-          addLog(`💰 VELOCITY CTP (50%): ${trade.symbol} hit 50% profit. Selling 25% of remaining tokens...`);
-          sellToken(trade.mint, 25);
-          updateTrade(trade.mint, { partialSells: { ...trade.partialSells, 51: true } });
-          return;
-        }
-        // TP at 75%
-        if (currentPnl >= 75 && !trade.partialSells[75]) {
-          addLog(`💰 VELOCITY CTP (75%): ${trade.symbol} hit 75% profit. Selling 25% of remaining tokens (25% Moonbag remains)...`);
-          sellToken(trade.mint, 25);
-          updateTrade(trade.mint, { partialSells: { ...trade.partialSells, 75: true } });
-          return;
-        }
-      }
-
-      // Standard take profit (if no staged exits configured)
-      if (!takeProfit2 && currentPnl >= takeProfit) {
-        addLog(`🎯 TAKE PROFIT Triggered for ${trade.symbol} at ${currentPnl.toFixed(2)}%`);
-        sellToken(trade.mint, 100);
-        return;
-      }
-
-      // Paper Trading: Quick exit on small profits to test system more frequently
-      // Exit at 5% profit if held for more than 30 seconds (for testing)
-      if (config.isDemo && trade.buyTime && trade.buyPrice > 0 && trade.currentPrice > 0) {
-        const holdTime = (Date.now() - trade.buyTime) / 1000;
-        const quickProfit = ((trade.currentPrice - trade.buyPrice) / trade.buyPrice) * 100;
-
-        // If we're up 5%+ and held for 30+ seconds, take profit (paper trading optimization)
-        if (quickProfit >= 5 && holdTime >= 30 && currentPnl < takeProfit) {
-          addLog(`📊 PAPER TRADING QUICK EXIT: ${trade.symbol} up ${quickProfit.toFixed(1)}% after ${Math.floor(holdTime)}s. Taking profit...`);
-          sellToken(trade.mint, 100);
-          return;
-        }
+  useEffect(() => {
+    if (!mounted) return;
+    const feed = config.isSimulating ? new SimulatedFeed(marketBus) : createPumpFeed({ bus: marketBus, heliusKey: config.heliusKey });
+    return marketBus.attach(feed);
+  }, [config.isSimulating, config.heliusKey, mounted]);
 
-        // Exit stale positions in paper trading (no movement for 2 minutes)
-        if (holdTime >= 120 && Math.abs(currentPnl) < 2) {
-          addLog(`⏱️ STALE POSITION: ${trade.symbol} no movement after ${Math.floor(holdTime)}s. Exiting...`);
-          sellToken(trade.mint, 100);
-          return;
-        }
-      }
-    });
-  }, [activeTrades, config.isRunning, config.takeProfit, config.stopLoss, config.isDemo, sellToken, addLog, updateTrade]);
+  useEffect(() => marketBus.on('TokenCreated', ({ token }) => {
+    if (!feedPausedRef.current) pipelineRef.current?.handleToken(token).catch(e => engine.log(`❌ Entry pipeline error for ${token.symbol}: ${e.message}`));
+  }), [engine]);
 
   if (!mounted) return <div className="min-h-screen bg-[#050505] text-white" />;
 
@@ -1076,6 +264,8 @@ export default function Home() {
             isDemo={config.isDemo}
             stats={stats}
             heliusKey={config.heliusKey}
+            rpcStatus={rpcStatus}
+            cacheStats={cacheStats}
           />
         )}
 
@@ -1123,7 +313,7 @@ export default function Home() {
 
           {/* Right Feed Column */}
           <div className={`col-span-12 xl:col-span-3 ${activeTab === 'dashboard' ? 'block' : 'hidden'}`}>
-            <LiveFeed onTokenDetected={onTokenDetected} isDemo={config.isDemo} isSimulating={config.isSimulating} heliusKey={config.heliusKey} />
+            <LiveFeed paused={feedPaused} onPausedChange={setFeedPaused} isDemo={config.isDemo} />
           </div>
 
           {/* Logic for Tab Switching Views */}
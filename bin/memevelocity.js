@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx so the shared utils/ modules need no separate build
+require('tsx/cjs');
+require('../cli/memevelocity.ts');
@@ -0,0 +1,392 @@
+import { readFileSync, writeFileSync } from 'fs';
+import WebSocket from 'ws';
+import { createConnection, generateWallet, recoverWallet, setGlobalConnection } from '../utils/solanaManager';
+import { TradingEngine } from '../utils/tradingEngine';
+import { TokenPipeline, PipelineConfig } from '../utils/tokenPipeline';
+import { PaperFillSimulator, PaperFillConfig } from '../utils/paperFill';
+import { PriorityFeeEstimator, PriorityFeeConfig } from '../utils/priorityFees';
+import { RetryPolicy } from '../utils/orders';
+import { RpcPlanTier, isRpcPlanTier } from '../utils/rateLimiter';
+import { ExecutionBackendId, createExecutionBackend, isExecutionBackendId } from '../utils/executionBackend';
+import { hasStrategy, listStrategies } from '../utils/strategies';
+import { createPumpFeed, WebSocketConstructor } from '../utils/pumpFeed';
+import { marketBus } from '../utils/marketBus';
+import { runBacktest, BacktestReport } from '../utils/backtest';
+import { RecordingWriter, MarketRecorder, loadRecording } from '../utils/marketRecorder';
+
+/**
+ * MemeVelocity CLI
+ * Headless runner: feed adapter -> market bus -> TokenPipeline (analyzers) -> TradingEngine.
+ *
+ *   memevelocity run --mode runner --paper --config bot.json
+ *   memevelocity record --out recordings --gzip
+ *   memevelocity backtest --recording recordings --mode sniper
+ */
+
+const USAGE = `Usage: memevelocity <run|record|backtest> [options]
+
+Commands:
+  run                   Trade the live token feed
+  record                Record the token/trade feeds and curve snapshots for backtesting
+  backtest              Replay a recording on a virtual clock and print a report
+
+Options:
+  --mode <mode>         Strategy (${listStrategies().map(s => s.id).join(', ')})
+  --paper               Paper trading with a 10 SOL demo balance (no transactions sent)
+  --config <file>       JSON config, same shape as the dashboard bot settings
+  --amount <sol>        SOL per trade
+  --helius-key <key>    Helius API key for RPC and the token feed
+  --out <dir>           (record) Output directory (default ./recordings)
+  --gzip                (record) Compress recording files
+  --snapshot-interval <s>  (record) Curve snapshot interval in seconds (default 5)
+  --track-minutes <m>   (record) How long to follow each new token (default 10)
+  --rotate-minutes <m>  (record) Start a new file after this many minutes (default 60)
+  --rotate-mb <mb>      (record) Start a new file after this many MB (default 64)
+  --recording <path>    (backtest) Recording file (.ndjson / .ndjson.gz) or recorder directory
+  --json <file>         (backtest) Also write the full report as JSON
+  --verbose             (backtest) Print engine and analyzer logs while replaying
+  -h, --help            Show this help
+
+Live trading reads the wallet from MEMEVELOCITY_PRIVATE_KEY (base58) or "privateKey" in the config.
+Paper/backtest fills (latencyMs, slotFailureRate, feeBps, ...) can be tuned with a "paperFill" object in the config.
+Live priority fees are sampled from recent network fees; "priorityFee" (capSol, floorSol, percentiles) tunes them.
+Unconfirmed transactions are re-broadcast and, once their blockhash expires, rebuilt with a higher fee and wider
+slippage; "retry" (maxAttempts, rebroadcastMs, feeMultiplier, maxPriorityFee, slippageStep, maxSlippage) bounds that.
+Live orders go through PumpPortal by default; "executionBackend" in the config picks another:
+"rpc" builds transactions against the pump.fun program directly, "mock" fills against an in-memory
+curve without touching the network (no private key needed - a throwaway wallet is generated).
+RPC calls are spread over a pool of endpoints (Helius, then public nodes) with failover; add your own
+with "rpcEndpoints": ["https://..."]. Transactions are sent to several endpoints at once.
+Calls are paced to each endpoint's quota - set "heliusPlan" (free, developer, business, professional) to
+match your Helius plan. When the quota runs short, exits go first and new-token analysis waits.
+`;
+
+interface CliArgs {
+    command?: string;
+    mode?: string;
+    paper: boolean;
+    config?: string;
+    amount?: number;
+    heliusKey?: string;
+    recording?: string;
+    out?: string;
+    gzip: boolean;
+    snapshotInterval?: number;
+    trackMinutes?: number;
+    rotateMinutes?: number;
+    rotateMb?: number;
+    json?: string;
+    verbose: boolean;
+    help: boolean;
+}
+
+const parseArgs = (argv: string[]): CliArgs => {
+    const args: CliArgs = { paper: false, gzip: false, verbose: false, help: false };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const next = () => {
+            const value = argv[++i];
+            if (value === undefined) throw new Error(`Missing value for ${arg}`);
+            return value;
+        };
+        const nextNumber = () => {
+            const value = parseFloat(next());
+            if (!Number.isFinite(value) || value <= 0) throw new Error(`${arg} must be a positive number`);
+            return value;
+        };
+        switch (arg) {
+            case '--mode': args.mode = next(); break;
+            case '--paper': args.paper = true; break;
+            case '--config': args.config = next(); break;
+            case '--amount': args.amount = parseFloat(next()); break;
+            case '--helius-key': args.heliusKey = next(); break;
+            case '--recording': args.recording = next(); break;
+            case '--out': args.out = next(); break;
+            case '--gzip': args.gzip = true; break;
+            case '--snapshot-interval': args.snapshotInterval = nextNumber(); break;
+            case '--track-minutes': args.trackMinutes = nextNumber(); break;
+            case '--rotate-minutes': args.rotateMinutes = nextNumber(); break;
+            case '--rotate-mb': args.rotateMb = nextNumber(); break;
+            case '--json': args.json = next(); break;
+            case '--verbose': args.verbose = true; break;
+            case '-h':
+            case '--help': args.help = true; break;
+            default:
+                if (arg.startsWith('-')) throw new Error(`Unknown option: ${arg}`);
+                if (args.command) throw new Error(`Unexpected argument: ${arg}`);
+                args.command = arg;
+        }
+    }
+    return args;
+};
+
+const loadConfig = (args: CliArgs): PipelineConfig & { privateKey?: string; paperFill?: Partial<PaperFillConfig>; priorityFee?: Partial<PriorityFeeConfig>; retry?: Partial<RetryPolicy>; executionBackend?: ExecutionBackendId; rpcEndpoints?: string[]; heliusPlan?: RpcPlanTier } => {
+    const file = args.config ? JSON.parse(readFileSync(args.config, 'utf8')) : {};
+    const config = {
+        mode: 'runner',
+        amount: 0.01,
+        takeProfit: 30,
+        stopLoss: 10,
+        maxConcurrentTrades: 5,
+        dynamicSizing: true,
+        heliusKey: '',
+        ...file,
+        isRunning: true,
+        isDemo: args.paper || !!file.isDemo
+    };
+    if (args.mode) config.mode = args.mode;
+    if (!hasStrategy(config.mode)) throw new Error(`Unknown strategy: ${config.mode}`);
+    if (config.executionBackend !== undefined && !isExecutionBackendId(config.executionBackend)) {
+        throw new Error(`Unknown executionBackend: ${config.executionBackend} (use "pumpportal", "rpc" or "mock")`);
+    }
+    if (config.priorityFee?.capSol !== undefined && !(config.priorityFee.capSol > 0)) {
+        throw new Error('priorityFee.capSol must be a positive number of SOL');
+    }
+    if (config.retry?.maxAttempts !== undefined && !(Number.isInteger(config.retry.maxAttempts) && config.retry.maxAttempts >= 1)) {
+        throw new Error('retry.maxAttempts must be a whole number >= 1');
+    }
+    if (config.rpcEndpoints !== undefined && !(Array.isArray(config.rpcEndpoints) && config.rpcEndpoints.every((url: unknown) => typeof url === 'string'))) {
+        throw new Error('rpcEndpoints must be a list of RPC URLs');
+    }
+    if (config.heliusPlan !== undefined && !isRpcPlanTier(config.heliusPlan)) {
+        throw new Error(`Unknown heliusPlan: ${config.heliusPlan} (use "free", "developer", "business" or "professional")`);
+    }
+    if (args.amount !== undefined) {
+        if (!Number.isFinite(args.amount) || args.amount <= 0) throw new Error('--amount must be a positive number');
+        config.amount = args.amount;
+    }
+    if (args.heliusKey) config.heliusKey = args.heliusKey;
+    return config;
+};
+
+const run = async (args: CliArgs) => {
+    const config = loadConfig(args);
+    const privateKey = process.env.MEMEVELOCITY_PRIVATE_KEY || config.privateKey;
+    const wallet = privateKey ? recoverWallet(privateKey) : config.executionBackend === 'mock' ? generateWallet() : null;
+
+    if (!config.isDemo && !wallet) {
+        throw new Error('Live trading needs a wallet. Set MEMEVELOCITY_PRIVATE_KEY or pass --paper.');
+    }
+
+    const connection = createConnection(config.heliusKey, config.rpcEndpoints, config.heliusPlan);
+    setGlobalConnection(connection);
+
+    const backend = createExecutionBackend(config.executionBackend || 'pumpportal', connection);
+    const engine = new TradingEngine({
+        connection,
+        wallet: wallet?.keypair,
+        heliusKey: config.heliusKey,
+        isDemo: config.isDemo,
+        paperFills: new PaperFillSimulator(config.paperFill),
+        priorityFees: new PriorityFeeEstimator(config.priorityFee),
+        retry: config.retry,
+        executionBackend: backend
+    });
+    engine.setConfig({ mode: config.mode, takeProfit: config.takeProfit, stopLoss: config.stopLoss, isRunning: true });
+    engine.on('log', line => console.log(line));
+    engine.on('notify', ({ type, message }) => (type === 'success' ? console.log : console.error)(`[${type}] ${message}`));
+
+    // Real balance feeds the pipeline's funds checks (-1 until the first RPC reply)
+    let balance = -1;
+    let balanceTimer: ReturnType<typeof setInterval> | null = null;
+    if (wallet && !config.isDemo) {
+        const refreshBalance = async () => {
+            const bal = await backend.getBalance(wallet.publicKey);
+            if (bal !== null) balance = bal;
+        };
+        await refreshBalance();
+        balanceTimer = setInterval(refreshBalance, 10000);
+    }
+
+    const pipeline = new TokenPipeline({
+        engine,
+        connection,
+        getConfig: () => config,
+        hasWallet: () => !!wallet,
+        getBalance: () => balance,
+        onAutoStop: () => { config.isRunning = false; }
+    });
+
+    engine.log(`🚀 MemeVelocity ${config.isDemo ? 'PAPER' : 'LIVE'} | mode: ${config.mode} | ${config.amount} SOL/trade | TP ${config.takeProfit}% / SL ${config.stopLoss}%`);
+    if (wallet) engine.log(`👛 Wallet: ${wallet.publicKey}`);
+    if (!config.isDemo) engine.log(`⚙️ Execution: ${backend.name}`);
+
+    marketBus.on('FeedStatus', ({ status, attempt, gap }) => {
+        if (gap) engine.log(`⚠️ Feed gap: ${(gap.durationMs / 1000).toFixed(1)}s without data (${gap.reason}) - launches in that window were missed`);
+        else engine.log(`📡 Feed ${status}${status === 'reconnecting' ? ` (attempt ${attempt})` : ''}`);
+    });
+    marketBus.on('TokenCreated', ({ token }) => {
+        pipeline.handleToken(token).catch(e => engine.log(`❌ Entry pipeline error for ${token.symbol}: ${e.message}`));
+    });
+    const feed = createPumpFeed({
+        bus: marketBus,
+        heliusKey: config.heliusKey,
+        WebSocketImpl: WebSocket as unknown as WebSocketConstructor
+    });
+    marketBus.attach(feed);
+    engine.start();
+
+    // === CLEAN SHUTDOWN ===
+    let shuttingDown = false;
+    process.on('SIGINT', async () => {
+        if (shuttingDown) {
+            console.log('Forced exit.');
+            process.exit(1);
+        }
+        shuttingDown = true;
+        config.isRunning = false;
+        marketBus.detach(feed);
+        engine.stop();
+        if (balanceTimer) clearInterval(balanceTimer);
+
+        // Let buys and sells already sent settle, so the summary counts their fills
+        const inFlight = engine.getActiveTrades().filter(t => t.status === 'buying' || t.status === 'selling');
+        if (inFlight.length > 0) {
+            engine.log(`⏳ Waiting for ${inFlight.length} order(s) in flight: ${inFlight.map(t => t.symbol).join(', ')}`);
+            if (!(await engine.waitForOrders(30000))) engine.log('⚠️ Orders still in flight after 30s');
+        }
+
+        if (config.isDemo) {
+            const open = engine.getActiveTrades().filter(t => t.status === 'open');
+            if (open.length > 0) engine.log(`🛑 Closing ${open.length} paper position(s)...`);
+            for (const trade of open) {
+                await engine.sellToken(trade.mint, 100);
+            }
+        }
+        const left = engine.getActiveTrades().filter(t => t.status !== 'closed');
+        if (left.length > 0) {
+            engine.log(`⚠️ ${left.length} ${config.isDemo ? 'paper' : 'live'} position(s) left open: ${left.map(t => `${t.symbol} (${t.status})`).join(', ')}`);
+        }
+
+        const { stats, demoBalance } = engine.getState();
+        engine.log(`📊 Session: ${stats.wins}W / ${stats.losses}L | PnL ${stats.totalProfit.toFixed(4)} SOL${config.isDemo ? ` | Demo balance ${demoBalance.toFixed(4)} SOL` : ''}`);
+        process.exit(0);
+    });
+};
+
+// === RECORD ===
+
+const record = async (args: CliArgs) => {
+    const config = loadConfig(args);
+    const dir = args.out || 'recordings';
+    const connection = createConnection(config.heliusKey, config.rpcEndpoints, config.heliusPlan);
+
+    const writer = new RecordingWriter({
+        dir,
+        gzip: args.gzip,
+        maxDurationMs: args.rotateMinutes ? args.rotateMinutes * 60 * 1000 : undefined,
+        maxBytes: args.rotateMb ? args.rotateMb * 1024 * 1024 : undefined
+    });
+    const recorder = new MarketRecorder({
+        writer,
+        connection,
+        heliusKey: config.heliusKey,
+        WebSocketImpl: WebSocket as unknown as WebSocketConstructor,
+        snapshotIntervalMs: args.snapshotInterval ? args.snapshotInterval * 1000 : undefined,
+        trackDurationMs: args.trackMinutes ? args.trackMinutes * 60 * 1000 : undefined,
+        onLog: msg => console.log(`[${new Date().toLocaleTimeString()}] ${msg}`)
+    });
+
+    console.log(`🎙️ Recording to ${dir}${args.gzip ? ' (gzip)' : ''}. Ctrl+C to stop.`);
+    recorder.start();
+
+    const progress = setInterval(() => {
+        const { tokens, trades, snapshots, tracked } = recorder.stats;
+        console.log(`[${new Date().toLocaleTimeString()}] 📼 ${tokens} tokens | ${trades} trades | ${snapshots} curve snapshots | tracking ${tracked}`);
+    }, 60000);
+
+    process.on('SIGINT', async () => {
+        clearInterval(progress);
+        await recorder.stop();
+        const { files, events } = writer.stats;
+        console.log(`💾 Saved ${events} events in ${files} file(s) to ${dir}`);
+        process.exit(0);
+    });
+};
+
+// === BACKTEST ===
+
+const formatTime = (t: number) => new Date(t).toISOString().substring(11, 19);
+
+const printReport = (report: BacktestReport) => {
+    console.log(`\n📊 Backtest: ${report.mode} | ${formatTime(report.startTime)} → ${formatTime(report.endTime)} UTC (${(report.durationSeconds / 60).toFixed(1)} min)`);
+    console.log(`   Tokens seen: ${report.tokensSeen} | Trades: ${report.trades.length} (${report.wins}W / ${report.losses}L, ${report.winRate.toFixed(1)}% win rate)`);
+    console.log(`   PnL: ${report.totalPnl >= 0 ? '+' : ''}${report.totalPnl.toFixed(4)} SOL | Balance ${report.startingBalance.toFixed(4)} → ${report.endingBalance.toFixed(4)} SOL`);
+    console.log(`   Max drawdown: ${report.maxDrawdown.toFixed(4)} SOL (${report.maxDrawdownPercent.toFixed(2)}%)`);
+    console.log(`   Exposure: avg ${report.exposure.avgDeployedSol.toFixed(4)} SOL | max ${report.exposure.maxDeployedSol.toFixed(4)} SOL | in market ${report.exposure.timeInMarketPercent.toFixed(1)}%`);
+
+    if (report.trades.length === 0) return;
+    console.log('');
+    for (const trade of report.trades) {
+        const pnl = `${trade.profitSol >= 0 ? '+' : ''}${trade.profitSol.toFixed(4)} SOL (${trade.profitPercent.toFixed(1)}%)`;
+        console.log(`   ${formatTime(trade.entryTime)}  ${trade.symbol.padEnd(10)} ${trade.holdSeconds.toFixed(0).padStart(5)}s  ${pnl}${trade.forcedExit ? '  [end of data]' : `  ${trade.exitReason}`}`);
+    }
+};
+
+const backtest = async (args: CliArgs) => {
+    if (!args.recording) throw new Error('backtest needs --recording <path>');
+    const config = loadConfig(args);
+    const events = loadRecording(args.recording);
+
+    // The analyzers log to the console on every token; keep the report readable unless asked
+    const consoleLog = console.log;
+    const restoreConsole = { log: console.log, warn: console.warn, error: console.error };
+    if (!args.verbose) {
+        console.log = () => { };
+        console.warn = () => { };
+        console.error = () => { };
+    }
+
+    let report: BacktestReport;
+    try {
+        report = await runBacktest({
+            events,
+            config,
+            paperFill: config.paperFill,
+            onLog: args.verbose ? line => consoleLog(line) : undefined
+        });
+    } finally {
+        Object.assign(console, restoreConsole);
+    }
+
+    printReport(report);
+    if (args.json) {
+        writeFileSync(args.json, JSON.stringify(report, null, 2));
+        console.log(`\n💾 Report written to ${args.json}`);
+    }
+};
+
+const main = async () => {
+    let args: CliArgs;
+    try {
+        args = parseArgs(process.argv.slice(2));
+    } catch (e: any) {
+        console.error(e.message);
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    if (args.help || !args.command) {
+        console.log(USAGE);
+        process.exit(args.help ? 0 : 1);
+    }
+    if (args.command !== 'run' && args.command !== 'record' && args.command !== 'backtest') {
+        console.error(`Unknown command: ${args.command}`);
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    try {
+        if (args.command === 'backtest') {
+            await backtest(args);
+            process.exit(0);
+        }
+        if (args.command === 'record') await record(args);
+        else await run(args);
+    } catch (e: any) {
+        console.error(`❌ ${e.message}`);
+        process.exit(1);
+    }
+};
+
+main();
@@ -3,6 +3,17 @@
 import React from 'react';
 import { ArrowUpRight, ArrowDownRight, XCircle, RefreshCw, Search, ExternalLink, Trash2 } from 'lucide-react';
 import { ActiveTrade } from '../hooks/usePumpTrader';
+import { curveFromPrice, quoteSell } from '../utils/bondingCurve';
+import type { OrderState } from '../utils/orders';
+
+// Live order badge per position (paper trades have no orders)
+const ORDER_BADGE: Record<OrderState, { label: string; className: string }> = {
+    pending: { label: 'BUILDING', className: 'bg-gray-500/20 text-gray-300 border-gray-500/30 animate-pulse' },
+    sent: { label: 'SENT', className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30 animate-pulse' },
+    confirmed: { label: 'CONFIRMED', className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+    failed: { label: 'FAILED', className: 'bg-red-500/20 text-red-400 border-red-500/30' },
+    expired: { label: 'EXPIRED', className: 'bg-red-500/20 text-red-400 border-red-500/30' }
+};
 
 interface ActiveTradesProps {
     trades: ActiveTrade[];
@@ -15,7 +26,7 @@ interface ActiveTradesProps {
 }
 
 export default function ActiveTrades({ trades, onSell, onSync, onRecover, onClearAll, onCleanup, isCleaning }: ActiveTradesProps) {
-    const openTrades = trades.filter(t => t.status === "open" || t.status === "selling");
+    const openTrades = trades.filter(t => t.status === "buying" || t.status === "open" || t.status === "selling");
 
     if (openTrades.length === 0) {
         return (
@@ -122,6 +133,14 @@ export default function ActiveTrades({ trades, onSell, onSync, onRecover, onClea
                                         {trade.status === 'selling' && (
                                             <span className="text-[10px] bg-orange-500/20 text-orange-400 border border-orange-500/30 px-1 rounded animate-pulse">SELLING...</span>
                                         )}
+                                        {trade.order && (
+                                            <span
+                                                className={`text-[10px] border px-1 rounded ${ORDER_BADGE[trade.order.state].className}`}
+                                                title={`${trade.order.side.toUpperCase()} order${trade.order.attempts > 1 ? ` · ${trade.order.attempts} attempts` : ''}${trade.order.error ? ` · ${trade.order.error}` : ''}`}
+                                            >
+                                                {trade.order.side.toUpperCase()} {ORDER_BADGE[trade.order.state].label}
+                                            </span>
+                                        )}
                                         {!trade.mint.startsWith('SIM') && (
                                             <a
                                                 href={`https://pump.fun/${trade.mint}`}
@@ -167,8 +186,9 @@ export default function ActiveTrades({ trades, onSell, onSync, onRecover, onClea
 
                                         if (trade.buyPrice > 0 && trade.currentPrice > 0) {
                                             displayPnlPercent = ((trade.currentPrice - trade.buyPrice) / trade.buyPrice) * 100;
-                                            // Calculate SOL PnL: (Current Price - Buy Price) * Amount of Tokens
-                                            displayPnlSol = (trade.currentPrice - trade.buyPrice) * trade.amountTokens;
+                                            // SOL PnL: what selling everything now would return (curve impact + fee) minus cost
+                                            const costBasis = trade.amountSolPaid || trade.buyPrice * trade.amountTokens;
+                                            displayPnlSol = quoteSell(curveFromPrice(trade.currentPrice), trade.amountTokens).solOut - costBasis;
                                         }
 
                                         if (trade.buyPrice === 0 && trade.currentPrice > 0) {
@@ -194,13 +214,15 @@ export default function ActiveTrades({ trades, onSell, onSync, onRecover, onClea
                                     <div className="flex justify-end gap-2">
                                         <button
                                             onClick={() => onSell(trade.mint, 50)}
-                                            className="text-xs bg-yellow-500/10 text-yellow-500 border border-yellow-500/20 px-2 py-1 rounded hover:bg-yellow-500/20"
+                                            disabled={trade.status !== 'open'}
+                                            className="text-xs bg-yellow-500/10 text-yellow-500 border border-yellow-500/20 px-2 py-1 rounded hover:bg-yellow-500/20 disabled:opacity-40"
                                         >
                                             Sell 50%
                                         </button>
                                         <button
                                             onClick={() => onSell(trade.mint, 100)}
-                                            className="text-xs bg-red-500/10 text-red-500 border border-red-500/20 px-2 py-1 rounded hover:bg-red-500/20 flex items-center gap-1"
+                                            disabled={trade.status !== 'open'}
+                                            className="text-xs bg-red-500/10 text-red-500 border border-red-500/20 px-2 py-1 rounded hover:bg-red-500/20 flex items-center gap-1 disabled:opacity-40"
                                         >
                                             <XCircle size={12} /> Close
                                         </button>
@@ -3,6 +3,9 @@
 import React, { useState, useEffect } from 'react';
 import { Play, Square, Settings, AlertTriangle, AlertCircle, Zap } from 'lucide-react';
 import { toast } from 'sonner';
+import { listStrategies, Strategy } from '../utils/strategies';
+import { EXECUTION_BACKENDS, ExecutionBackendId } from '../utils/executionBackend';
+import { RPC_PLAN_TIERS, RpcPlanTier } from '../utils/rateLimiter';
 
 export interface AdvancedConfig {
     minLiquidity: number;       // SOL
@@ -24,10 +27,14 @@ interface BotConfig {
     amount: number;
     takeProfit: number;
     stopLoss: number;
-    mode: "runner" | "sniper" | "degen" | "custom" | "safe" | "medium" | "high" | "velocity";
+    mode: string; // Strategy id (see utils/strategies)
     isRunning: boolean;
     isDemo: boolean;
     isSimulating: boolean;
+    executionBackend: ExecutionBackendId; // Where live orders are built and sent
+    maxPriorityFee: number; // SOL cap per transaction for the sampled priority fee
+    rpcEndpoints: string[]; // Extra RPC URLs for the connection pool
+    heliusPlan: RpcPlanTier; // Requests-per-second budget for the Helius endpoint
     heliusKey: string;
     maxConcurrentTrades: number;
     dynamicSizing: boolean;
@@ -42,12 +49,17 @@ interface BotControlsProps {
 
 export default function BotControls({ onConfigChange, walletConnected, realBalance = 0 }: BotControlsProps) {
     const [isRunning, setIsRunning] = useState(false);
-    const [mode, setMode] = useState<"runner" | "sniper" | "degen" | "custom">("runner");
+    const [mode, setMode] = useState("runner");
     const [amount, setAmount] = useState(0.01);
     const [takeProfit, setTakeProfit] = useState(20);
     const [stopLoss, setStopLoss] = useState(10);
     const [isDemo, setIsDemo] = useState(false);
     const [isSimulating, setIsSimulating] = useState(false);
+    const [executionBackend, setExecutionBackend] = useState<ExecutionBackendId>('pumpportal');
+    const [maxPriorityFee, setMaxPriorityFee] = useState(0.005);
+    const [rpcEndpoints, setRpcEndpoints] = useState<string[]>([]);
+    const [rpcEndpointsDraft, setRpcEndpointsDraft] = useState('');
+    const [heliusPlan, setHeliusPlan] = useState<RpcPlanTier>('free');
     const [maxConcurrentTrades, setMaxConcurrentTrades] = useState(1);
     const [dynamicSizing, setDynamicSizing] = useState(true);
     const [activeTab, setActiveTab] = useState<'basic' | 'advanced'>('basic');
@@ -80,76 +92,24 @@ export default function BotControls({ onConfigChange, walletConnected, realBalan
             isRunning,
             isDemo,
             isSimulating,
+            executionBackend,
+            maxPriorityFee,
+            rpcEndpoints,
+            heliusPlan,
             heliusKey,
             maxConcurrentTrades,
             dynamicSizing,
             advanced: advancedConfig
         });
-    }, [amount, takeProfit, stopLoss, mode, isRunning, isDemo, isSimulating, maxConcurrentTrades, dynamicSizing, advancedConfig]);
+    }, [amount, takeProfit, stopLoss, mode, isRunning, isDemo, isSimulating, executionBackend, maxPriorityFee, rpcEndpoints, heliusPlan, maxConcurrentTrades, dynamicSizing, advancedConfig]);
 
-    const setPreset = (preset: "runner" | "sniper" | "degen" | "custom") => {
-        setMode(preset);
-        if (preset === "runner") {
-            // THE ULTRA PROFITABLE CONFIG (Tier 0-4 Strict)
-            setAmount(0.01);
-            setTakeProfit(30);
-            setStopLoss(10);
-            setAdvancedConfig({
-                minLiquidity: 10,
-                maxLiquidity: 1000,
-                minVolume: 5,
-                minHolderCount: 20, // Tier 2 requirement
-                maxTop10: 40,
-                maxDev: 5,
-                minBondingCurve: 5, // Tier 4 (5-15% sweet spot)
-                maxBondingCurve: 20,
-                minVelocity: 0.5,
-                rugCheckStrictness: "strict",
-                requireSocials: true, // Tier 3 requirement
-                avoidSnipers: true,
-                slippage: 20
-            });
-        } else if (preset === "sniper") {
-            // FIRST BUYER / SPEED (Tier 0 Only)
-            setAmount(0.005);
-            setTakeProfit(50);
-            setStopLoss(15);
-            setAdvancedConfig({
-                minLiquidity: 1,
-                maxLiquidity: 500,
-                minVolume: 0,
-                minHolderCount: 0,
-                maxTop10: 90,
-                maxDev: 50,
-                minBondingCurve: 0,
-                maxBondingCurve: 10,
-                minVelocity: 0,
-                rugCheckStrictness: "lenient",
-                requireSocials: false,
-                avoidSnipers: false,
-                slippage: 30
-            });
-        } else if (preset === "degen") {
-            // MOMENTUM / HIGH RISK
-            setAmount(0.01);
-            setTakeProfit(100);
-            setStopLoss(25);
-            setAdvancedConfig({
-                minLiquidity: 5,
-                maxLiquidity: 2000,
-                minVolume: 2,
-                minHolderCount: 10,
-                maxTop10: 60,
-                maxDev: 15,
-                minBondingCurve: 1,
-                maxBondingCurve: 60,
-                minVelocity: 1.0, // Needs velocity
-                rugCheckStrictness: "standard",
-                requireSocials: false,
-                avoidSnipers: false,
-                slippage: 25
-            });
-        }
+    const selectStrategy = (strategy: Strategy) => {
+        setMode(strategy.id);
+        if (!strategy.preset) return;
+        setAmount(strategy.preset.amount);
+        setTakeProfit(strategy.preset.takeProfit);
+        setStopLoss(strategy.preset.stopLoss);
+        if (strategy.preset.advanced) setAdvancedConfig(strategy.preset.advanced);
     };
 
     const toggleRun = () => {
@@ -172,34 +132,17 @@ export default function BotControls({ onConfigChange, walletConnected, realBalan
             <div className="mb-4">
                 <label className="text-gray-400 text-sm mb-2 block">Trading Strategy</label>
                 <div className="grid grid-cols-2 gap-2">
-                    <button
-                        onClick={() => setPreset("runner")}
-                        className={`p-3 rounded border transition-all ${mode === "runner" ? "border-[var(--success)] bg-[rgba(20,241,149,0.1)] text-[var(--success)]" : "border-[#333] hover:border-[#555] text-gray-400"}`}
-                    >
-                        <div className="font-bold whitespace-nowrap">🏃 RUNNER</div>
-                        <div className="text-[10px] opacity-70">Tier 0-4 | High Profitability</div>
-                    </button>
-                    <button
-                        onClick={() => setPreset("sniper")}
-                        className={`p-3 rounded border transition-all ${mode === "sniper" ? "border-[#00d4ff] bg-[rgba(0,212,255,0.1)] text-[#00d4ff]" : "border-[#333] hover:border-[#555] text-gray-400"}`}
-                    >
-                        <div className="font-bold whitespace-nowrap">🎯 SNIPER</div>
-                        <div className="text-[10px] opacity-70">Tier 0 Only | Speed Focus</div>
-                    </button>
-                    <button
-                        onClick={() => setPreset("degen")}
-                        className={`p-3 rounded border transition-all ${mode === "degen" ? "border-[#ffcc00] bg-[rgba(255,204,0,0.1)] text-[#ffcc00]" : "border-[#333] hover:border-[#555] text-gray-400"}`}
-                    >
-                        <div className="font-bold whitespace-nowrap">🎰 DEGEN</div>
-                        <div className="text-[10px] opacity-70">Momentum | High Risk</div>
-                    </button>
-                    <button
-                        onClick={() => setPreset("custom")}
-                        className={`p-3 rounded border transition-all ${mode === "custom" ? "border-[#888] bg-[rgba(136,136,136,0.1)] text-[#888]" : "border-[#333] hover:border-[#555] text-gray-400"}`}
-                    >
-                        <div className="font-bold">Custom</div>
-                        <div className="text-[10px] opacity-70">Manual control</div>
-                    </button>
+                    {listStrategies().map(strategy => (
+                        <button
+                            key={strategy.id}
+                            onClick={() => selectStrategy(strategy)}
+                            className={`p-3 rounded border transition-all ${mode === strategy.id ? "" : "border-[#333] hover:border-[#555] text-gray-400"}`}
+                            style={mode === strategy.id ? { borderColor: strategy.color, backgroundColor: `${strategy.color}1a`, color: strategy.color } : undefined}
+                        >
+                            <div className="font-bold whitespace-nowrap">{strategy.icon} {strategy.name.toUpperCase()}</div>
+                            <div className="text-[10px] opacity-70">{strategy.description}</div>
+                        </button>
+                    ))}
                 </div>
             </div>
 
@@ -229,6 +172,27 @@ export default function BotControls({ onConfigChange, walletConnected, realBalan
                 </button>
             </div>
 
+            {!isDemo && (
+                <div className="mb-6 bg-[#1a1a1a] p-3 rounded border border-[#333]">
+                    <div className="flex flex-col mb-2">
+                        <span className="font-bold text-white flex items-center gap-2">Execution</span>
+                        <span className="text-xs text-gray-400">{EXECUTION_BACKENDS.find(b => b.id === executionBackend)?.description}</span>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        {EXECUTION_BACKENDS.map(backend => (
+                            <button
+                                key={backend.id}
+                                onClick={() => setExecutionBackend(backend.id)}
+                                disabled={isRunning}
+                                className={`text-xs px-2 py-1 rounded transition-colors disabled:opacity-50 ${executionBackend === backend.id ? (backend.id === 'mock' ? 'bg-purple-600 text-white' : 'bg-green-600 text-white') : 'bg-[#333] text-gray-400'}`}
+                            >
+                                {backend.name}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             <div className="flex mb-6 border-b border-[#333]">
                 <button
                     onClick={() => setActiveTab('basic')}
@@ -379,6 +343,49 @@ export default function BotControls({ onConfigChange, walletConnected, realBalan
                             />
                             <p className="text-[9px] text-gray-500 mt-1">Increase for fast tokens to avoid slippage errors.</p>
                         </div>
+                        <div className="mt-3">
+                            <label className="text-gray-400 text-xs flex justify-between mb-1">
+                                Max Priority Fee (SOL)
+                                <span className="text-white font-bold">{maxPriorityFee.toFixed(4)}</span>
+                            </label>
+                            <input
+                                type="range" min="0.0005" max="0.02" step="0.0005"
+                                value={maxPriorityFee}
+                                onChange={(e) => setMaxPriorityFee(parseFloat(e.target.value))}
+                                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                            />
+                            <p className="text-[9px] text-gray-500 mt-1">Fees follow recent network activity (stop losses and rug exits bid higher) but never exceed this.</p>
+                        </div>
+                        <div className="mt-3">
+                            <label className="text-gray-400 text-xs flex justify-between mb-1">
+                                Helius Plan
+                                <span className="text-white font-bold">{RPC_PLAN_TIERS[heliusPlan].requestsPerSecond} req/s</span>
+                            </label>
+                            <div className="grid grid-cols-4 gap-1">
+                                {(['free', 'developer', 'business', 'professional'] as RpcPlanTier[]).map(tier => (
+                                    <button
+                                        key={tier}
+                                        onClick={() => setHeliusPlan(tier)}
+                                        className={`text-[10px] px-1 py-1 rounded transition-colors ${heliusPlan === tier ? 'bg-green-600 text-white' : 'bg-[#333] text-gray-400'}`}
+                                    >
+                                        {RPC_PLAN_TIERS[tier].label.replace('Helius ', '')}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-[9px] text-gray-500 mt-1">RPC calls are paced to this quota. When it runs short, exits go first, then position pricing, then new-token analysis.</p>
+                        </div>
+                        <div className="mt-3">
+                            <label className="text-gray-400 text-xs block mb-1">Extra RPC Endpoints</label>
+                            <textarea
+                                rows={2}
+                                value={rpcEndpointsDraft}
+                                placeholder="https://... (one per line)"
+                                onChange={(e) => setRpcEndpointsDraft(e.target.value)}
+                                onBlur={() => setRpcEndpoints(rpcEndpointsDraft.split(/\s+/).filter(Boolean))}
+                                className="w-full bg-[#121212] border border-[#222] rounded p-2 text-white text-xs font-mono resize-none"
+                            />
+                            <p className="text-[9px] text-gray-500 mt-1">Added to the pool with Helius and the public nodes. Calls fail over between them and transactions go to several at once.</p>
+                        </div>
                     </div>
 
                     <div className="bg-[#1a1a1a] p-4 rounded border border-[#333]">
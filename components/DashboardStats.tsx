@@ -2,6 +2,8 @@
 
 import React from 'react';
 import { Wallet, TrendingUp, TrendingDown, Target } from 'lucide-react';
+import { RpcEndpointStatus } from '../utils/rpcPool';
+import { CacheStats } from '../utils/rpcCache';
 
 interface DashboardStatsProps {
     realBalance: number;
@@ -13,15 +15,28 @@ interface DashboardStatsProps {
         losses: number;
     };
     heliusKey?: string;
+    rpcStatus?: RpcEndpointStatus[];
+    cacheStats?: CacheStats | null;
 }
 
-export default function DashboardStats({ realBalance, demoBalance, isDemo, stats, heliusKey }: DashboardStatsProps) {
+const RPC_STATE_COLORS: Record<RpcEndpointStatus['state'], string> = {
+    healthy: 'bg-green-500',
+    degraded: 'bg-yellow-500',
+    down: 'bg-red-500'
+};
+
+export default function DashboardStats({ realBalance, demoBalance, isDemo, stats, heliusKey, rpcStatus = [], cacheStats }: DashboardStatsProps) {
     const currentBalance = isDemo ? demoBalance : realBalance;
     const winRate = (stats.wins + stats.losses) > 0
         ? ((stats.wins / (stats.wins + stats.losses)) * 100).toFixed(1)
         : 0;
 
     const hasHelius = heliusKey && heliusKey.length > 20;
+    // Requests waiting for rate-limit tokens, per priority lane, over all endpoints
+    const queued = { exit: 0, pricing: 0, analysis: 0, metadata: 0 };
+    rpcStatus.forEach(endpoint => (Object.keys(queued) as (keyof typeof queued)[]).forEach(lane => { queued[lane] += endpoint.queued[lane]; }));
+    const queueDepth = Object.values(queued).reduce((sum, n) => sum + n, 0);
+    const shed = rpcStatus.reduce((sum, endpoint) => sum + endpoint.shed, 0);
 
     return (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6 animate-fade-in">
@@ -87,6 +102,29 @@ export default function DashboardStats({ realBalance, demoBalance, isDemo, stats
                         {hasHelius ? "Deep holder & rug analysis active" : "Reduced accuracy - Holders estimated"}
                     </p>
                 </div>
+                {rpcStatus.length > 0 && (
+                    <div className="mt-2 pt-2 border-t border-[#222] space-y-0.5">
+                        {rpcStatus.map(endpoint => (
+                            <div key={endpoint.name} className="flex items-center justify-between text-[10px] text-gray-400" title={`${endpoint.requests} requests, ${endpoint.failures} failed, ${endpoint.requestsPerSecond} req/s`}>
+                                <span className="flex items-center gap-1.5 truncate">
+                                    <span className={`w-1.5 h-1.5 rounded-full ${RPC_STATE_COLORS[endpoint.state]}`}></span>
+                                    {endpoint.name}
+                                </span>
+                                <span className="font-mono text-gray-500">
+                                    {endpoint.state === 'down' ? 'cooling down' : `${endpoint.latencyMs}ms · ${(endpoint.errorRate * 100).toFixed(0)}% err`}
+                                </span>
+                            </div>
+                        ))}
+                        <div className={`text-[10px] font-mono ${queueDepth > 0 ? 'text-yellow-500' : 'text-gray-500'}`} title={`${shed} low-priority request(s) dropped while queues were full`}>
+                            queue {queueDepth}: exit {queued.exit} · price {queued.pricing} · scan {queued.analysis} · meta {queued.metadata}
+                        </div>
+                    </div>
+                )}
+                {cacheStats && (
+                    <div className="mt-1 text-[10px] text-gray-500 font-mono" title="Share of reads served from cache or joined to a request in flight">
+                        cache: curve {(cacheStats.curve.hitRate * 100).toFixed(0)}% · holders {(cacheStats.holders.hitRate * 100).toFixed(0)}% · meta {(cacheStats.metadata.hitRate * 100).toFixed(0)}%
+                    </div>
+                )}
             </div>
         </div>
     );
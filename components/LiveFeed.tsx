@@ -4,6 +4,8 @@ import React, { useEffect, useState, useRef, memo, useMemo } from 'react';
 import { Activity, ExternalLink, RefreshCw, Zap, AlertTriangle, Pause, Play, Trash2, Diamond, Terminal, ShieldCheck, ShieldAlert } from 'lucide-react';
 import { getTokenMetadata, getPumpData, metadataCache, createConnection } from '../utils/solanaManager';
 import { detectRug } from '../utils/rugDetector';
+import { FeedGap } from '../utils/wsClient';
+import { FeedStatusChanged, MarketBus, marketBus } from '../utils/marketBus';
 
 export interface TokenData {
     mint: string;
@@ -114,23 +116,21 @@ const GemItem = memo(({ token }: { token: TokenData }) => (
 ));
 
 interface LiveFeedProps {
-    onTokenDetected: (token: TokenData) => void;
+    paused: boolean;
+    onPausedChange: (paused: boolean) => void;
     isDemo?: boolean;
-    isSimulating?: boolean;
-    heliusKey?: string;
+    bus?: MarketBus;
 }
 
-export default function LiveFeed({ onTokenDetected, isDemo = false, isSimulating = false, heliusKey = "" }: LiveFeedProps) {
+export default function LiveFeed({ paused, onPausedChange, isDemo = false, bus = marketBus }: LiveFeedProps) {
     const [tokens, setTokens] = useState<TokenData[]>([]);
     const [analysisLog, setAnalysisLog] = useState<{ id: string, msg: string, type: 'gem' | 'junk' | 'stream' }[]>([]);
-    const [status, setStatus] = useState<"connecting" | "connected" | "disconnected" | "simulating">("connecting");
-    const [paused, setPaused] = useState(false);
+    const [status, setStatus] = useState<FeedStatusChanged['status']>(() => bus.getFeedStatus()?.status || "connecting");
+    const [reconnectAttempt, setReconnectAttempt] = useState(0);
+    const [gaps, setGaps] = useState<FeedGap[]>([]);
     const [lastError, setLastError] = useState<string>("");
 
-    const wsRef = useRef<WebSocket | null>(null);
-    const simulationInterval = useRef<NodeJS.Timeout | null>(null);
-    const processedSignatures = useRef<Set<string>>(new Set());
-    const onTokenDetectedRef = useRef(onTokenDetected);
+    const pausedRef = useRef(paused);
 
     // Auto-scroll logic for log
     const logEndRef = useRef<HTMLDivElement>(null);
@@ -138,7 +138,7 @@ export default function LiveFeed({ onTokenDetected, isDemo = false, isSimulating
         if (logEndRef.current) logEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }, [analysisLog]);
 
-    useEffect(() => { onTokenDetectedRef.current = onTokenDetected; }, [onTokenDetected]);
+    useEffect(() => { pausedRef.current = paused; }, [paused]);
 
     // Categorize
     const { gems, stream, junkyard } = useMemo(() => {
@@ -156,37 +156,21 @@ export default function LiveFeed({ onTokenDetected, isDemo = false, isSimulating
         return { gems: _gems.slice(0, 8), stream: _stream.slice(0, 40), junkyard: _junkyard.slice(0, 15) };
     }, [tokens]);
 
-    // WebSocket logic
-    const connectWs = () => {
-        if (isSimulating) { setStatus("simulating"); return; }
-        if (wsRef.current?.readyState === WebSocket.OPEN) return;
-
-        setStatus("connecting");
-        try {
-            const url = (heliusKey && heliusKey.includes('-')) ? `wss://mainnet.helius-rpc.com/?api-key=${heliusKey}` : 'wss://pumpportal.fun/api/data';
-            const ws = new WebSocket(url);
-            wsRef.current = ws;
-
-            ws.onopen = () => {
-                setStatus("connected");
-                ws.send(JSON.stringify({ method: "subscribeNewToken" }));
-            };
-
-            ws.onmessage = async (event) => {
-                if (paused) return;
-                try {
-                    const data = JSON.parse(event.data);
-                    if (data.mint) {
-                        const vSol = data.vSolInBondingCurve ? data.vSolInBondingCurve / 1e9 : 0;
-                        const token: TokenData = { ...data, vSolInBondingCurve: vSol, timestamp: Date.now(), marketCapSol: vSol };
-                        processNewToken(token);
-                    }
-                } catch (e) { }
-            };
-            ws.onclose = () => setStatus("disconnected");
-            ws.onerror = () => setStatus("disconnected");
-        } catch (err) { setStatus("disconnected"); }
-    };
+    // Market bus: launches from whichever feed adapter is attached, plus its connection status and gaps
+    useEffect(() => {
+        const unsubscribers = [
+            bus.on('TokenCreated', ({ token }) => {
+                if (pausedRef.current) return;
+                processNewToken(token);
+            }),
+            bus.on('FeedStatus', ({ status: next, attempt, gap }) => {
+                setStatus(next);
+                setReconnectAttempt(attempt);
+                if (gap) setGaps(prev => [...prev, gap].slice(-20));
+            })
+        ];
+        return () => unsubscribers.forEach(off => off());
+    }, [bus]);
 
     const processNewToken = (token: TokenData) => {
         const rugCheck = detectRug(token, 'medium');
@@ -203,28 +187,9 @@ export default function LiveFeed({ onTokenDetected, isDemo = false, isSimulating
 
         setAnalysisLog(prev => [...prev, { id: Math.random().toString(), msg: detail, type }].slice(-50));
         setTokens(prev => [token, ...prev.filter(t => t.mint !== token.mint)].slice(0, 150));
-        onTokenDetectedRef.current(token);
     };
 
-    useEffect(() => {
-        if (isSimulating) {
-            setStatus("simulating");
-            simulationInterval.current = setInterval(() => {
-                if (paused) return;
-                const isGem = Math.random() < 0.1;
-                const isRug = Math.random() < 0.3;
-                const token: TokenData = {
-                    mint: "SIM" + Math.random().toString(36).substring(7), traderPublicKey: "SIM", txType: "create",
-                    initialBuy: 1, bondingCurveKey: "SIM", vTokensInBondingCurve: 1e9,
-                    vSolInBondingCurve: isGem ? 45 : (isRug ? 30.1 : 31), marketCapSol: 30,
-                    name: isRug ? "Rug Pull Coin" : isGem ? "Diamond G" : "Standard Token",
-                    symbol: (isRug ? "RUG" : isGem ? "GEM" : "TOK") + Math.floor(Math.random() * 99), uri: "", timestamp: Date.now()
-                };
-                processNewToken(token);
-            }, 3000);
-        } else connectWs();
-        return () => { if (simulationInterval.current) clearInterval(simulationInterval.current); };
-    }, [isSimulating, paused]);
+    const lastGap = gaps[gaps.length - 1];
 
     return (
         <div className="flex flex-col gap-6 animate-fade-in h-[1200px]">
@@ -238,10 +203,16 @@ export default function LiveFeed({ onTokenDetected, isDemo = false, isSimulating
                     </div>
                     <div className="flex items-center gap-4">
                         <div className="flex items-center gap-2">
-                            <span className={`w-1.5 h-1.5 rounded-full ${status === 'connected' ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`}></span>
-                            <span className="text-[9px] text-gray-500 font-mono">{status.toUpperCase()}</span>
+                            <span className={`w-1.5 h-1.5 rounded-full ${status === 'connected' ? 'bg-green-500 animate-pulse' : status === 'reconnecting' ? 'bg-yellow-500 animate-pulse' : 'bg-red-500'}`}></span>
+                            <span className="text-[9px] text-gray-500 font-mono">{status.toUpperCase()}{status === 'reconnecting' && reconnectAttempt > 0 ? ` #${reconnectAttempt}` : ''}</span>
                         </div>
-                        <button onClick={() => setPaused(!paused)} className="hover:text-white text-gray-500 transition-colors">
+                        {lastGap && (
+                            <div className="flex items-center gap-1 text-yellow-500" title={`${gaps.length} feed gap(s) this session. Tokens launched while disconnected were missed. Last: ${lastGap.reason}`}>
+                                <AlertTriangle size={10} />
+                                <span className="text-[9px] font-mono">GAP {(lastGap.durationMs / 1000).toFixed(1)}s @ {new Date(lastGap.start).toLocaleTimeString()}{gaps.length > 1 ? ` (${gaps.length})` : ''}</span>
+                            </div>
+                        )}
+                        <button onClick={() => onPausedChange(!paused)} className="hover:text-white text-gray-500 transition-colors">
                             {paused ? <Play size={12} /> : <Pause size={12} />}
                         </button>
                     </div>
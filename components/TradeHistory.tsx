@@ -33,6 +33,7 @@ export default function TradeHistory({ trades }: TradeHistoryProps) {
                                 <th className="p-2">Token</th>
                                 <th className="p-2">Price In</th>
                                 <th className="p-2">Price Out</th>
+                                <th className="p-2 text-right">Fees</th>
                                 <th className="p-2 text-right">PnL %</th>
                                 <th className="p-2 text-right">PnL (SOL)</th>
                             </tr>
@@ -68,9 +69,12 @@ export default function TradeHistory({ trades }: TradeHistoryProps) {
                                         </td>
                                         <td className="p-2 font-mono text-gray-500 text-[10px]">{trade.buyPrice.toFixed(9)}</td>
                                         <td className="p-2 font-mono text-gray-500 text-[10px]">{trade.currentPrice.toFixed(9)}</td>
+                                        <td className="p-2 text-right font-mono text-gray-500 text-[10px]" title="Network + priority fees paid by this trade">
+                                            {trade.feesPaid !== undefined ? `${trade.feesPaid.toFixed(5)} SOL` : '—'}
+                                        </td>
                                         <td className="p-2 text-right font-bold">
-                                            <span className={`flex items-center justify-end gap-1 ${trade.pnlPercent >= 0 ? "text-green-500" : "text-red-500"}`}>
-                                                {trade.pnlPercent >= 0 ? "+" : ""}{trade.pnlPercent.toFixed(1)}%
+                                            <span className={`flex items-center justify-end gap-1 ${trade.pnlPercent >= 0 ? "text-green-500" : "text-red-500"}`} title={trade.pnlEstimated ? "Estimated: the transaction couldn't be parsed" : undefined}>
+                                                {trade.pnlEstimated ? "~" : ""}{trade.pnlPercent >= 0 ? "+" : ""}{trade.pnlPercent.toFixed(1)}%
                                             </span>
                                         </td>
                                         <td className="p-2 text-right font-mono">
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseRecording } from '../utils/recording';
+import { runBacktest } from '../utils/backtest';
+import { PipelineConfig } from '../utils/tokenPipeline';
+
+// Three launches (PEPE, FROG, WIF) cut from a replay recording: curve snapshots every ~2s plus holders
+const events = parseRecording(readFileSync(join(__dirname, 'fixtures', 'recording.ndjson'), 'utf8'));
+
+const config = (mode: string): PipelineConfig => ({
+    mode,
+    amount: 0.01,
+    takeProfit: 30,
+    stopLoss: 10,
+    maxConcurrentTrades: 5,
+    dynamicSizing: true,
+    isRunning: true,
+    isDemo: true
+});
+
+/** The analyzers log every token to the console; keep the test output readable */
+const quietly = async <T>(run: () => Promise<T>): Promise<T> => {
+    const { log, warn, error } = console;
+    console.log = console.warn = console.error = () => { };
+    try {
+        return await run();
+    } finally {
+        Object.assign(console, { log, warn, error });
+    }
+};
+
+for (const mode of ['degen', 'high']) {
+    test(`backtest: the same recording and config give the same report (${mode})`, async () => {
+        const first = await quietly(() => runBacktest({ events, config: config(mode) }));
+        const second = await quietly(() => runBacktest({ events, config: config(mode) }));
+
+        assert.ok(first.trades.length > 0, 'the fixture should trade, or the comparison proves little');
+        assert.deepEqual(second, first);
+    });
+}
+
+test('backtest: simulated transaction failures replay the same for the same seed', async () => {
+    const paperFill = { slotFailureRate: 0.2 };
+    const first = await quietly(() => runBacktest({ events, config: config('high'), paperFill, seed: 7 }));
+    const second = await quietly(() => runBacktest({ events, config: config('high'), paperFill, seed: 7 }));
+    assert.deepEqual(second, first);
+});
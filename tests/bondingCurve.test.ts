@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BondingCurveState, INITIAL_VIRTUAL_SOL_RESERVES, INITIAL_VIRTUAL_TOKEN_RESERVES, LAMPORTS_PER_SOL, TOKEN_DECIMALS, TOKEN_TOTAL_SUPPLY, quoteBuy, quoteSell } from '../utils/bondingCurve';
+
+interface CurveFill {
+    isBuy: boolean;
+    solAmount: string; // lamports into (buy) / out of (sell) the curve, before the fee
+    tokenAmount: string; // raw units
+    virtualSolReserves: string; // Reserves after the trade, as the TradeEvent reports them
+    virtualTokenReserves: string;
+    realSolReserves: string;
+    realTokenReserves: string;
+}
+
+// Consecutive trades on one fresh curve, in TradeEvent form
+const { feeBps, fills } = JSON.parse(readFileSync(join(__dirname, 'fixtures', 'curveFills.json'), 'utf8')) as { feeBps: number; fills: CurveFill[] };
+
+const TOKEN_UNIT = 10 ** TOKEN_DECIMALS;
+
+const curveAfter = (fill: CurveFill): BondingCurveState => ({
+    virtualSolReserves: BigInt(fill.virtualSolReserves),
+    virtualTokenReserves: BigInt(fill.virtualTokenReserves),
+    realSolReserves: BigInt(fill.realSolReserves),
+    realTokenReserves: BigInt(fill.realTokenReserves),
+    tokenTotalSupply: TOKEN_TOTAL_SUPPLY,
+    complete: false
+});
+
+/** The curve a fill traded against: its reserves after, with the trade taken back out */
+const curveBefore = (fill: CurveFill): BondingCurveState => {
+    const after = curveAfter(fill);
+    const sol = BigInt(fill.solAmount);
+    const tokens = BigInt(fill.tokenAmount);
+    return fill.isBuy
+        ? { ...after, virtualSolReserves: after.virtualSolReserves - sol, virtualTokenReserves: after.virtualTokenReserves + tokens, realSolReserves: after.realSolReserves - sol, realTokenReserves: after.realTokenReserves + tokens }
+        : { ...after, virtualSolReserves: after.virtualSolReserves + sol, virtualTokenReserves: after.virtualTokenReserves - tokens, realSolReserves: after.realSolReserves + sol, realTokenReserves: after.realTokenReserves - tokens };
+};
+
+const lamports = (sol: number) => Math.round(sol * LAMPORTS_PER_SOL);
+
+test('bondingCurve: the fixture starts on a fresh curve', () => {
+    const first = curveBefore(fills[0]);
+    assert.equal(first.virtualSolReserves, INITIAL_VIRTUAL_SOL_RESERVES);
+    assert.equal(first.virtualTokenReserves, INITIAL_VIRTUAL_TOKEN_RESERVES);
+});
+
+fills.forEach((fill, index) => {
+    const side = fill.isBuy ? 'buy' : 'sell';
+    test(`bondingCurve: ${side} #${index + 1} quotes the filled amounts exactly`, () => {
+        const before = curveBefore(fill);
+        if (index > 0) assert.deepEqual(before, curveAfter(fills[index - 1]), 'fills should chain');
+
+        if (fill.isBuy) {
+            // The buyer spends the curve amount plus the fee on top (rounded up)
+            const sol = Number(fill.solAmount);
+            const total = sol + Math.ceil((sol * feeBps) / 10000);
+            const quote = quoteBuy(before, total / LAMPORTS_PER_SOL, feeBps);
+            assert.equal(Math.round(quote.tokensOut * TOKEN_UNIT), Number(fill.tokenAmount));
+            assert.equal(lamports(quote.solIn), total);
+            assert.deepEqual(quote.curveAfter, curveAfter(fill));
+        } else {
+            const quote = quoteSell(before, Number(fill.tokenAmount) / TOKEN_UNIT, feeBps);
+            assert.equal(lamports(quote.solOut) + lamports(quote.fee), Number(fill.solAmount));
+            assert.equal(lamports(quote.fee), Math.ceil((Number(fill.solAmount) * feeBps) / 10000));
+            assert.deepEqual(quote.curveAfter, curveAfter(fill));
+        }
+    });
+});
+
+test('bondingCurve: a buy larger than the curve stops at the remaining supply', () => {
+    const last = curveAfter(fills[fills.length - 1]);
+    const quote = quoteBuy(last, 1000);
+    assert.equal(Math.round(quote.tokensOut * TOKEN_UNIT), Number(last.realTokenReserves));
+    assert.equal(quote.curveAfter.realTokenReserves, BigInt(0));
+    assert.equal(quote.curveAfter.complete, true);
+    assert.ok(quote.solIn < 1000);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { buyCost, parseTransactionFill, sellProceeds } from '../utils/fillParser';
+
+// getParsedTransaction results (account keys as strings) for a buy and the sell that closes it
+const fixture = JSON.parse(readFileSync(join(__dirname, 'fixtures', 'fills.json'), 'utf8'));
+const owner = new PublicKey(fixture.owner);
+
+const parsedTransaction = (tx: any): ParsedTransactionWithMeta => ({
+    ...tx,
+    transaction: {
+        ...tx.transaction,
+        message: {
+            ...tx.transaction.message,
+            accountKeys: tx.transaction.message.accountKeys.map((key: any) => ({ ...key, pubkey: new PublicKey(key.pubkey) }))
+        }
+    }
+});
+
+const [buy, sell] = fixture.transactions;
+
+test(`fillParser: ${buy.name}`, () => {
+    const fill = parseTransactionFill(parsedTransaction(buy.tx), owner, fixture.mint);
+    assert.deepEqual(fill, buy.expected);
+    assert.equal(buyCost(fill!), buy.buyCost);
+});
+
+test(`fillParser: ${sell.name}`, () => {
+    const fill = parseTransactionFill(parsedTransaction(sell.tx), owner, fixture.mint);
+    assert.deepEqual(fill, sell.expected);
+    assert.equal(sellProceeds(fill!), sell.sellProceeds);
+});
+
+test('fillParser: no fill without metadata or when the owner is not in the transaction', () => {
+    assert.equal(parseTransactionFill({ ...parsedTransaction(buy.tx), meta: null }, owner, fixture.mint), null);
+    assert.equal(parseTransactionFill(parsedTransaction(buy.tx), PublicKey.default, fixture.mint), null);
+});
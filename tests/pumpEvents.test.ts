@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { PumpEvent, decodePumpEvent, decodePumpLogs } from '../utils/pumpEvents';
+
+// Anchor event payloads (base64, as in `Program data:` log lines) and the fields they hold; u64s as strings
+const fixture = JSON.parse(readFileSync(join(__dirname, 'fixtures', 'pumpEvents.json'), 'utf8'));
+
+const payload = (base64: string) => new Uint8Array(Buffer.from(base64, 'base64'));
+
+/** bigints as strings, so decoded events compare with the JSON fixture */
+const plain = (event: PumpEvent | null) => event && Object.fromEntries(
+    Object.entries(event).map(([key, value]) => [key, typeof value === 'bigint' ? value.toString() : value])
+);
+
+for (const name of ['create', 'trade', 'legacyTrade', 'complete']) {
+    test(`pumpEvents: decodes a ${name} event`, () => {
+        const { payload: data, expected } = fixture[name];
+        assert.deepEqual(plain(decodePumpEvent(payload(data))), expected);
+    });
+}
+
+test('pumpEvents: discriminators are sha256("event:<Name>")', () => {
+    for (const [name, event] of [['CreateEvent', 'create'], ['TradeEvent', 'trade'], ['CompleteEvent', 'complete']]) {
+        const discriminator = createHash('sha256').update(`event:${name}`).digest().subarray(0, 8);
+        assert.deepEqual(Buffer.from(payload(fixture[event].payload).subarray(0, 8)), discriminator);
+    }
+});
+
+test('pumpEvents: truncated and foreign payloads decode to null', () => {
+    assert.equal(decodePumpEvent(payload(fixture.truncatedTrade)), null);
+    assert.equal(decodePumpEvent(new Uint8Array(16)), null);
+    assert.equal(decodePumpEvent(new Uint8Array(4)), null);
+});
+
+test('pumpEvents: only events emitted by the pump.fun program are read from transaction logs', () => {
+    // The create transaction also has a TradeEvent-shaped line from an inner Token program call
+    const events = decodePumpLogs(fixture.createTransactionLogs);
+    assert.deepEqual(events.map(plain), [fixture.create.expected, fixture.trade.expected]);
+});
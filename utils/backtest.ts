@@ -0,0 +1,388 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { TradingEngine, TradeFill } from './tradingEngine';
+import { TokenPipeline, PipelineConfig } from './tokenPipeline';
+import { getBondingCurveAddress, metadataCache } from './solanaManager';
+import { clearNameCache } from './rugDetector';
+import { VirtualClock, setClock } from './clock';
+import { RecordedEvent, PumpData, HolderSnapshot } from './recording';
+import { encodeBondingCurve, curveFromPumpData } from './bondingCurve';
+import { PaperFillSimulator, PaperFillConfig, seededRandom } from './paperFill';
+import { MarketBus } from './marketBus';
+import { ReplayFeed } from './feedAdapters';
+import { TradeTape } from './tradeTape';
+
+const PUMP_FUN_PROGRAM_ID = new PublicKey("6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P");
+const CURVE_ACCOUNT_SIZE = 81;
+
+// === REPLAY CONNECTION ===
+
+interface Timeline<T> {
+    times: number[];
+    values: T[];
+}
+
+/** Latest value observed at or before `time` (binary search) */
+const valueAt = <T>(timeline: Timeline<T> | undefined, time: number): T | null => {
+    if (!timeline) return null;
+    let lo = 0;
+    let hi = timeline.times.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (timeline.times[mid] <= time) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found >= 0 ? timeline.values[found] : null;
+};
+
+const pushTimeline = <T>(map: Map<string, Timeline<T>>, key: string, time: number, value: T) => {
+    let timeline = map.get(key);
+    if (!timeline) {
+        timeline = { times: [], values: [] };
+        map.set(key, timeline);
+    }
+    timeline.times.push(time);
+    timeline.values.push(value);
+};
+
+/** Re-encode a decoded curve into the on-chain layout `getPumpData` reads */
+const encodeCurve = (curve: PumpData) => Buffer.from(encodeBondingCurve(curveFromPumpData(curve), CURVE_ACCOUNT_SIZE));
+
+/**
+ * Replay Connection
+ * Answers the handful of RPC calls the analyzers and engine make from a recording,
+ * as of the virtual clock's current time. Anything not recorded fails the same way
+ * a flaky RPC would, so the analyzers take their normal fallback paths.
+ */
+export class ReplayConnection {
+    private curves = new Map<string, Timeline<Buffer>>(); // keyed by bonding-curve PDA
+    private holders = new Map<string, Timeline<HolderSnapshot>>(); // keyed by mint
+
+    constructor(events: RecordedEvent[], private clock: VirtualClock) {
+        const pdaCache = new Map<string, string>();
+        for (const event of events) {
+            if (event.type === 'curve') {
+                let pda = pdaCache.get(event.mint);
+                if (!pda) {
+                    pda = getBondingCurveAddress(event.mint).toBase58();
+                    pdaCache.set(event.mint, pda);
+                }
+                pushTimeline(this.curves, pda, event.t, encodeCurve(event.curve));
+            } else if (event.type === 'holders') {
+                pushTimeline(this.holders, event.mint, event.t, event.holders);
+            }
+        }
+    }
+
+    asConnection() { return this as unknown as Connection; }
+
+    async getAccountInfo(address: PublicKey) {
+        const data = valueAt(this.curves.get(address.toBase58()), this.clock.now());
+        if (!data) return null;
+        return { data, executable: false, lamports: 0, owner: PUMP_FUN_PROGRAM_ID, rentEpoch: 0 };
+    }
+
+    async getMultipleAccountsInfo(addresses: PublicKey[]) {
+        return Promise.all(addresses.map(address => this.getAccountInfo(address)));
+    }
+
+    /** pump.fun mints are created with mint and freeze authority already revoked */
+    async getParsedAccountInfo(_address: PublicKey) {
+        return {
+            context: { slot: 0 },
+            value: {
+                data: { program: 'spl-token', parsed: { type: 'mint', info: { mintAuthority: null, freezeAuthority: null } }, space: 82 },
+                executable: false, lamports: 0, owner: PUMP_FUN_PROGRAM_ID, rentEpoch: 0
+            }
+        };
+    }
+
+    async getTokenLargestAccounts(mint: PublicKey) {
+        const snapshot = this.holderSnapshot(mint);
+        return {
+            context: { slot: 0 },
+            value: snapshot.largest.map(holder => ({
+                address: new PublicKey(holder.address),
+                amount: String(holder.uiAmount),
+                decimals: 6,
+                uiAmount: holder.uiAmount,
+                uiAmountString: String(holder.uiAmount)
+            }))
+        };
+    }
+
+    async getTokenSupply(mint: PublicKey) {
+        const snapshot = this.holderSnapshot(mint);
+        return { context: { slot: 0 }, value: { amount: String(snapshot.supply), decimals: 6, uiAmount: snapshot.supply, uiAmountString: String(snapshot.supply) } };
+    }
+
+    /** Only used for holder counts (token accounts filtered by mint) */
+    async getProgramAccounts(_programId: PublicKey, config?: { filters?: any[] }) {
+        const mintFilter = config?.filters?.find(f => f.memcmp?.offset === 0)?.memcmp?.bytes;
+        if (!mintFilter) throw new Error('Replay: getProgramAccounts not recorded');
+        const snapshot = this.holderSnapshot(new PublicKey(mintFilter));
+        return new Array(snapshot.holderCount).fill(null);
+    }
+
+    private holderSnapshot(mint: PublicKey) {
+        const snapshot = valueAt(this.holders.get(mint.toBase58()), this.clock.now());
+        if (!snapshot) throw new Error('Replay: holders not recorded');
+        return snapshot;
+    }
+}
+
+// === BACKTEST ===
+
+export interface BacktestOptions {
+    events: RecordedEvent[];
+    config: PipelineConfig;
+    startingBalance?: number; // Paper balance in SOL (default 10)
+    tickIntervalMs?: number; // Price/exit heartbeat (default 2000, same as the live engine)
+    settleMs?: number; // Keep ticking this long after the last event before force-closing (default 60s)
+    paperFill?: Partial<PaperFillConfig>; // Fill model (latency, fees, failure rate); defaults match paper trading
+    seed?: number; // Seed for simulated transaction failures (default 1)
+    onLog?: (line: string) => void;
+}
+
+export interface BacktestTrade {
+    mint: string;
+    symbol: string;
+    entryTime: number;
+    exitTime: number;
+    holdSeconds: number;
+    entryPrice: number;
+    exitPrice: number;
+    costSol: number;
+    proceedsSol: number;
+    profitSol: number;
+    profitPercent: number;
+    forcedExit: boolean; // Still open at the end of the recording
+    exitReason: string; // Label of the exit that closed the position
+}
+
+export interface BacktestReport {
+    mode: string;
+    startTime: number;
+    endTime: number;
+    durationSeconds: number;
+    tokensSeen: number;
+    trades: BacktestTrade[];
+    wins: number;
+    losses: number;
+    winRate: number; // 0-100
+    totalPnl: number; // SOL
+    startingBalance: number;
+    endingBalance: number;
+    maxDrawdown: number; // SOL, peak-to-trough of marked equity
+    maxDrawdownPercent: number;
+    exposure: {
+        avgDeployedSol: number; // Time-weighted capital in open positions
+        maxDeployedSol: number;
+        timeInMarketPercent: number; // Share of the run with at least one open position
+    };
+}
+
+interface OpenPosition {
+    symbol: string;
+    entryTime: number;
+    entryPrice: number;
+    costSol: number;
+    proceedsSol: number;
+    profitSol: number;
+}
+
+/**
+ * Deterministic Backtester
+ * Replays a recording through the same TokenPipeline and TradingEngine the dashboard uses,
+ * in paper mode on a virtual clock. Handlers run to completion before the next event, and
+ * nothing reads the network, so a recording + config always produce the same report.
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestReport> {
+    const events = options.events;
+    const startingBalance = options.startingBalance ?? 10;
+    const tickIntervalMs = options.tickIntervalMs ?? 2000;
+    const settleMs = options.settleMs ?? 60000;
+
+    const startTime = events.length > 0 ? events[0].t : 0;
+    const lastEventTime = events.length > 0 ? events[events.length - 1].t : 0;
+    const clock = new VirtualClock(startTime);
+    const connection = new ReplayConnection(events, clock).asConnection();
+
+    // Offline & deterministic: no Helius lookups, fresh copycat-name history
+    const config: PipelineConfig = { ...options.config, isRunning: true, isDemo: true, heliusKey: undefined };
+
+    const paperFills = new PaperFillSimulator(options.paperFill, seededRandom(options.seed ?? 1));
+    // A private bus: replayed events must never reach a live dashboard or runner
+    const bus = new MarketBus();
+    const replay = new ReplayFeed(bus);
+    bus.attach(replay);
+    const tape = new TradeTape(bus); // Tracks each launch before the pipeline sees it
+
+    const engine = new TradingEngine({ connection, isDemo: true, pollIntervalMs: tickIntervalMs, paperFills, bus });
+    engine.hydrate({ demoBalance: startingBalance });
+    engine.setConfig({ mode: config.mode, takeProfit: config.takeProfit, stopLoss: config.stopLoss, isRunning: true });
+    if (options.onLog) engine.on('log', options.onLog);
+
+    const pipeline = new TokenPipeline({
+        engine,
+        connection,
+        getConfig: () => config,
+        hasWallet: () => false,
+        getBalance: () => -1,
+        onAutoStop: () => { config.isRunning = false; },
+        tape
+    });
+
+    // --- Accounting ---
+    const trades: BacktestTrade[] = [];
+    const open = new Map<string, OpenPosition>();
+    let deployedSol = 0;
+    let maxDeployedSol = 0;
+    let deployedSolTime = 0; // SOL * ms
+    let inMarketTime = 0; // ms
+    let lastExposureTime = startTime;
+    let peakEquity = startingBalance;
+    let maxDrawdown = 0;
+    let maxDrawdownPercent = 0;
+
+    const accrueExposure = (time: number) => {
+        const elapsed = Math.max(0, time - lastExposureTime);
+        deployedSolTime += deployedSol * elapsed;
+        if (open.size > 0) inMarketTime += elapsed;
+        lastExposureTime = Math.max(lastExposureTime, time);
+    };
+
+    const markEquity = () => {
+        const state = engine.getState();
+        const positionsValue = state.activeTrades.reduce((sum, t) => sum + (t.amountTokens || 0) * (t.currentPrice || 0), 0);
+        const equity = state.demoBalance + positionsValue;
+        peakEquity = Math.max(peakEquity, equity);
+        const drawdown = peakEquity - equity;
+        if (drawdown > maxDrawdown) {
+            maxDrawdown = drawdown;
+            maxDrawdownPercent = peakEquity > 0 ? (drawdown / peakEquity) * 100 : 0;
+        }
+    };
+
+    let isFinishing = false;
+    const lastExit = new Map<string, string>();
+    engine.on('exit', ({ mint, record }) => {
+        if (record.outcome === 'filled') lastExit.set(mint, record.label);
+    });
+    engine.on('fill', (fill: TradeFill) => {
+        accrueExposure(fill.timestamp);
+        if (fill.side === 'buy') {
+            open.set(fill.mint, { symbol: fill.symbol, entryTime: fill.timestamp, entryPrice: fill.price, costSol: fill.solAmount, proceedsSol: 0, profitSol: 0 });
+            deployedSol += fill.solAmount;
+            maxDeployedSol = Math.max(maxDeployedSol, deployedSol);
+        } else {
+            const position = open.get(fill.mint);
+            if (!position) return;
+            position.proceedsSol += fill.solAmount;
+            position.profitSol += fill.profit || 0;
+            if (fill.amountPercent >= 99) {
+                open.delete(fill.mint);
+                deployedSol -= position.costSol;
+                trades.push({
+                    mint: fill.mint,
+                    symbol: position.symbol,
+                    entryTime: position.entryTime,
+                    exitTime: fill.timestamp,
+                    holdSeconds: (fill.timestamp - position.entryTime) / 1000,
+                    entryPrice: position.entryPrice,
+                    exitPrice: fill.price,
+                    costSol: position.costSol,
+                    proceedsSol: position.proceedsSol,
+                    profitSol: position.profitSol,
+                    profitPercent: position.costSol > 0 ? (position.profitSol / position.costSol) * 100 : 0,
+                    forcedExit: isFinishing,
+                    exitReason: lastExit.get(fill.mint) || ''
+                });
+            }
+        }
+        markEquity();
+    });
+
+    // --- Replay ---
+    // Curve and trade events reach the bus on the heartbeat: everything recorded up to now, in order
+    const marketEvents = events.filter(e => e.type === 'curve' || e.type === 'trade');
+    let published = 0;
+    const publishUpTo = (time: number) => {
+        while (published < marketEvents.length && marketEvents[published].t <= time) replay.publish(marketEvents[published++]);
+    };
+
+    const heartbeat = async () => {
+        if (isFinishing) return;
+        publishUpTo(clock.now());
+        await engine.tick();
+        markEquity();
+        clock.setTimeout(heartbeat, tickIntervalMs);
+    };
+
+    const seenMints = new Set<string>();
+    let handling: Promise<unknown> = Promise.resolve();
+    bus.on('TokenCreated', ({ token }) => {
+        seenMints.add(token.mint);
+        // Metadata comes from the feed itself; an empty uri skips the social lookup
+        metadataCache.set(token.mint, { name: token.name, symbol: token.symbol, uri: '' });
+        handling = pipeline.handleToken(token);
+    });
+
+    setClock(clock);
+    clearNameCache();
+    try {
+        clock.setTimeout(heartbeat, tickIntervalMs);
+
+        for (const event of events) {
+            if (event.type !== 'token') continue;
+            await clock.advanceTo(event.t);
+            replay.publish(event);
+            await handling; // Each launch is fully analysed before time moves on
+        }
+
+        await clock.advanceTo(lastEventTime + settleMs);
+
+        // Close whatever is still open at the last known price
+        isFinishing = true;
+        for (const trade of engine.getActiveTrades()) {
+            await engine.sellToken(trade.mint, 100);
+        }
+        accrueExposure(clock.now());
+    } finally {
+        setClock(null);
+        engine.removeAllListeners();
+        tape.close();
+        bus.detach(replay);
+        bus.removeAllListeners();
+    }
+
+    const endTime = clock.now();
+    const duration = Math.max(0, endTime - startTime);
+    const wins = trades.filter(t => t.profitSol > 0).length;
+
+    return {
+        mode: config.mode,
+        startTime,
+        endTime,
+        durationSeconds: duration / 1000,
+        tokensSeen: seenMints.size,
+        trades,
+        wins,
+        losses: trades.length - wins,
+        winRate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+        totalPnl: trades.reduce((sum, t) => sum + t.profitSol, 0),
+        startingBalance,
+        endingBalance: engine.getState().demoBalance,
+        maxDrawdown,
+        maxDrawdownPercent,
+        exposure: {
+            avgDeployedSol: duration > 0 ? deployedSolTime / duration : 0,
+            maxDeployedSol,
+            timeInMarketPercent: duration > 0 ? (inMarketTime / duration) * 100 : 0
+        }
+    };
+}
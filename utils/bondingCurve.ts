@@ -0,0 +1,233 @@
+/**
+ * Pump.fun Bonding Curve Math
+ * Constant-product pricing over the curve's virtual reserves (x * y = k), with the
+ * protocol fee taken on the SOL side. Quotes are computed in integer base units
+ * (lamports / raw token units) exactly like the program does, then exposed as SOL / UI tokens.
+ */
+
+export const LAMPORTS_PER_SOL = 1_000_000_000;
+export const TOKEN_DECIMALS = 6;
+const TOKEN_UNIT = 10 ** TOKEN_DECIMALS;
+
+// Initial state of every pump.fun curve (raw units)
+export const INITIAL_VIRTUAL_TOKEN_RESERVES = BigInt('1073000000000000');
+export const INITIAL_VIRTUAL_SOL_RESERVES = BigInt('30000000000');
+export const INITIAL_REAL_TOKEN_RESERVES = BigInt('793100000000000');
+export const TOKEN_TOTAL_SUPPLY = BigInt('1000000000000000');
+
+// Virtual tokens that are never sold (virtual - real at launch)
+const UNSOLD_VIRTUAL_TOKENS = INITIAL_VIRTUAL_TOKEN_RESERVES - INITIAL_REAL_TOKEN_RESERVES;
+// Virtual reserves keep k constant: fees are paid out, not added to the curve
+const CURVE_K = INITIAL_VIRTUAL_SOL_RESERVES * INITIAL_VIRTUAL_TOKEN_RESERVES;
+
+export const DEFAULT_FEE_BPS = 100; // 1% (protocol + creator)
+
+// BigInt() instead of literals: the tsconfig target predates ES2020
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const BPS_DENOMINATOR = BigInt(10000);
+
+export interface BondingCurveState {
+    virtualTokenReserves: bigint;
+    virtualSolReserves: bigint;
+    realTokenReserves: bigint;
+    realSolReserves: bigint;
+    tokenTotalSupply: bigint;
+    complete: boolean;
+}
+
+export interface BuyQuote {
+    solIn: number; // Total SOL spent, fee included
+    fee: number; // SOL
+    tokensOut: number; // UI tokens
+    spotPrice: number; // SOL per token before the trade
+    avgPrice: number; // SOL per token actually paid (fee included)
+    priceImpact: number; // % above spot
+    curveAfter: BondingCurveState;
+}
+
+export interface SellQuote {
+    tokensIn: number; // UI tokens
+    solOut: number; // SOL received after fee
+    fee: number; // SOL
+    spotPrice: number;
+    avgPrice: number; // SOL per token actually received
+    priceImpact: number; // % below spot
+    curveAfter: BondingCurveState;
+}
+
+// === DECODING ===
+
+/** Decode a bonding-curve account (8-byte discriminator, then 5 x u64 and the complete flag) */
+export const decodeBondingCurve = (data: Uint8Array): BondingCurveState => {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    return {
+        virtualTokenReserves: view.getBigUint64(8, true),
+        virtualSolReserves: view.getBigUint64(16, true),
+        realTokenReserves: view.getBigUint64(24, true),
+        realSolReserves: view.getBigUint64(32, true),
+        tokenTotalSupply: view.getBigUint64(40, true),
+        complete: data[48] === 1
+    };
+};
+
+/** Inverse of decodeBondingCurve (used by the backtest replay) */
+export const encodeBondingCurve = (curve: BondingCurveState, size: number = 81): Uint8Array => {
+    const data = new Uint8Array(size);
+    const view = new DataView(data.buffer);
+    view.setBigUint64(8, curve.virtualTokenReserves, true);
+    view.setBigUint64(16, curve.virtualSolReserves, true);
+    view.setBigUint64(24, curve.realTokenReserves, true);
+    view.setBigUint64(32, curve.realSolReserves, true);
+    view.setBigUint64(40, curve.tokenTotalSupply, true);
+    data[48] = curve.complete ? 1 : 0;
+    return data;
+};
+
+// === CONSTRUCTION ===
+
+/**
+ * Curve from virtual reserves as `getPumpData` reports them (SOL, raw token units).
+ * Real reserves are derived from the launch constants; `complete` is only known from the account.
+ */
+export const curveFromReserves = (vSolInBondingCurve: number, vTokensInBondingCurve: number): BondingCurveState => {
+    const virtualSolReserves = BigInt(Math.round(vSolInBondingCurve * LAMPORTS_PER_SOL));
+    const virtualTokenReserves = BigInt(Math.round(vTokensInBondingCurve));
+    const realTokenReserves = virtualTokenReserves > UNSOLD_VIRTUAL_TOKENS ? virtualTokenReserves - UNSOLD_VIRTUAL_TOKENS : ZERO;
+    const realSolReserves = virtualSolReserves > INITIAL_VIRTUAL_SOL_RESERVES ? virtualSolReserves - INITIAL_VIRTUAL_SOL_RESERVES : ZERO;
+    return {
+        virtualTokenReserves,
+        virtualSolReserves,
+        realTokenReserves,
+        realSolReserves,
+        tokenTotalSupply: TOKEN_TOTAL_SUPPLY,
+        complete: false
+    };
+};
+
+/** Curve from a `getPumpData` result, using the decoded real reserves when present */
+export const curveFromPumpData = (data: {
+    vSolInBondingCurve: number;
+    vTokensInBondingCurve: number;
+    realTokenReserves?: number;
+    realSolReserves?: number;
+    tokenTotalSupply?: number;
+    complete?: boolean;
+}): BondingCurveState => {
+    const curve = curveFromReserves(data.vSolInBondingCurve, data.vTokensInBondingCurve);
+    if (data.realTokenReserves !== undefined) curve.realTokenReserves = BigInt(Math.round(data.realTokenReserves));
+    if (data.realSolReserves !== undefined) curve.realSolReserves = BigInt(Math.round(data.realSolReserves * LAMPORTS_PER_SOL));
+    if (data.tokenTotalSupply) curve.tokenTotalSupply = BigInt(Math.round(data.tokenTotalSupply));
+    if (data.complete !== undefined) curve.complete = data.complete;
+    return curve;
+};
+
+/**
+ * Curve that has the given spot price (SOL per token). Exact for pump.fun because
+ * k is fixed, so price alone pins both virtual reserves.
+ */
+export const curveFromPrice = (price: number): BondingCurveState => {
+    // price = vSol / vTokens (UI)  and  vSol * vTokens = k  =>  vSol = sqrt(k * price)
+    const k = Number(CURVE_K) / (LAMPORTS_PER_SOL * TOKEN_UNIT); // SOL * UI tokens
+    const vSol = Math.sqrt(k * Math.max(price, 0));
+    const vTokens = vSol > 0 ? k / vSol : Number(INITIAL_VIRTUAL_TOKEN_RESERVES) / TOKEN_UNIT;
+    return curveFromReserves(vSol, vTokens * TOKEN_UNIT);
+};
+
+// === PRICING ===
+
+/** Spot price in SOL per token */
+export const getSpotPrice = (curve: BondingCurveState): number => {
+    if (curve.virtualTokenReserves === ZERO) return 0;
+    return (Number(curve.virtualSolReserves) / LAMPORTS_PER_SOL) / (Number(curve.virtualTokenReserves) / TOKEN_UNIT);
+};
+
+/** Spot price from `getPumpData`-style reserves (SOL, raw token units); 0 when unusable */
+export const priceFromReserves = (vSolInBondingCurve: number, vTokensInBondingCurve: number): number => {
+    if (!(vSolInBondingCurve > 0) || !(vTokensInBondingCurve > 0)) return 0;
+    return (vSolInBondingCurve / vTokensInBondingCurve) * TOKEN_UNIT;
+};
+
+/** Progress to graduation (0-100): share of the sellable supply already bought */
+export const getCurveProgress = (curve: BondingCurveState): number => {
+    if (curve.complete) return 100;
+    const sold = INITIAL_REAL_TOKEN_RESERVES - curve.realTokenReserves;
+    const progress = (Number(sold) / Number(INITIAL_REAL_TOKEN_RESERVES)) * 100;
+    return Math.max(0, Math.min(100, progress));
+};
+
+const invariant = (curve: BondingCurveState) => curve.virtualSolReserves * curve.virtualTokenReserves;
+
+const applyFee = (lamports: bigint, feeBps: number) => (lamports * BigInt(feeBps) + BPS_DENOMINATOR - ONE) / BPS_DENOMINATOR; // rounds up, like the program
+
+/** Tokens received for spending `solAmount` SOL in total (fee included) */
+export const quoteBuy = (curve: BondingCurveState, solAmount: number, feeBps: number = DEFAULT_FEE_BPS): BuyQuote => {
+    const spotPrice = getSpotPrice(curve);
+    const total = BigInt(Math.max(0, Math.floor(solAmount * LAMPORTS_PER_SOL)));
+    // Fee is charged on top of the SOL that goes into the curve
+    let solIntoCurve = (total * BPS_DENOMINATOR) / (BPS_DENOMINATOR + BigInt(feeBps));
+    let tokensOut = curve.complete || solIntoCurve === ZERO
+        ? ZERO
+        : curve.virtualTokenReserves - (invariant(curve) / (curve.virtualSolReserves + solIntoCurve)) - ONE;
+
+    // Can't buy more than what's left on the curve
+    if (tokensOut > curve.realTokenReserves) {
+        tokensOut = curve.realTokenReserves;
+        solIntoCurve = invariant(curve) / (curve.virtualTokenReserves - tokensOut) - curve.virtualSolReserves + ONE;
+    }
+    if (tokensOut < ZERO) tokensOut = ZERO;
+
+    const fee = applyFee(solIntoCurve, feeBps);
+    const solIn = Number(solIntoCurve + fee) / LAMPORTS_PER_SOL;
+    const tokens = Number(tokensOut) / TOKEN_UNIT;
+    const avgPrice = tokens > 0 ? solIn / tokens : spotPrice;
+
+    return {
+        solIn,
+        fee: Number(fee) / LAMPORTS_PER_SOL,
+        tokensOut: tokens,
+        spotPrice,
+        avgPrice,
+        priceImpact: spotPrice > 0 ? ((avgPrice - spotPrice) / spotPrice) * 100 : 0,
+        curveAfter: {
+            ...curve,
+            virtualTokenReserves: curve.virtualTokenReserves - tokensOut,
+            virtualSolReserves: curve.virtualSolReserves + solIntoCurve,
+            realTokenReserves: curve.realTokenReserves - tokensOut,
+            realSolReserves: curve.realSolReserves + solIntoCurve,
+            complete: curve.realTokenReserves - tokensOut === ZERO
+        }
+    };
+};
+
+/** SOL received (after fee) for selling `tokenAmount` UI tokens */
+export const quoteSell = (curve: BondingCurveState, tokenAmount: number, feeBps: number = DEFAULT_FEE_BPS): SellQuote => {
+    const spotPrice = getSpotPrice(curve);
+    const tokensIn = BigInt(Math.max(0, Math.floor(tokenAmount * TOKEN_UNIT)));
+    let solOutGross = curve.complete || tokensIn === ZERO
+        ? ZERO
+        : (tokensIn * curve.virtualSolReserves) / (curve.virtualTokenReserves + tokensIn);
+    if (solOutGross > curve.realSolReserves && curve.realSolReserves > ZERO) solOutGross = curve.realSolReserves;
+
+    const fee = applyFee(solOutGross, feeBps);
+    const solOutNet = solOutGross > fee ? solOutGross - fee : ZERO;
+    const solOut = Number(solOutNet) / LAMPORTS_PER_SOL;
+    const tokens = Number(tokensIn) / TOKEN_UNIT;
+    const avgPrice = tokens > 0 ? solOut / tokens : spotPrice;
+
+    return {
+        tokensIn: tokens,
+        solOut,
+        fee: Number(fee) / LAMPORTS_PER_SOL,
+        spotPrice,
+        avgPrice,
+        priceImpact: spotPrice > 0 ? ((spotPrice - avgPrice) / spotPrice) * 100 : 0,
+        curveAfter: {
+            ...curve,
+            virtualTokenReserves: curve.virtualTokenReserves + tokensIn,
+            virtualSolReserves: curve.virtualSolReserves - solOutGross,
+            realTokenReserves: curve.realTokenReserves + tokensIn,
+            realSolReserves: curve.realSolReserves > solOutGross ? curve.realSolReserves - solOutGross : ZERO
+        }
+    };
+};
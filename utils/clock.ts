@@ -0,0 +1,79 @@
+/**
+ * Time source for trading logic.
+ * Analyzers, the entry pipeline and the engine read time through `now()`/`sleep()`/`schedule()`
+ * instead of Date.now()/setTimeout, so the backtester can swap in a VirtualClock and
+ * replay a recording deterministically.
+ */
+export interface Clock {
+    now(): number;
+    sleep(ms: number): Promise<void>;
+    setTimeout(fn: () => void | Promise<void>, ms: number): void;
+}
+
+const systemClock: Clock = {
+    now: () => Date.now(),
+    sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms)),
+    setTimeout: (fn, ms) => { setTimeout(fn, ms); }
+};
+
+let activeClock: Clock = systemClock;
+
+export const now = () => activeClock.now();
+export const sleep = (ms: number) => activeClock.sleep(ms);
+export const schedule = (fn: () => void | Promise<void>, ms: number) => activeClock.setTimeout(fn, ms);
+
+/** Swap the global time source. Pass null to go back to wall-clock time. */
+export const setClock = (clock: Clock | null) => {
+    activeClock = clock || systemClock;
+};
+
+interface VirtualTimer {
+    due: number;
+    seq: number;
+    fn: () => void | Promise<void>;
+}
+
+/**
+ * Virtual Clock
+ * Time only moves when the driver advances it. `sleep()` resolves immediately after
+ * moving the clock forward; timers run from `advanceTo()` in (due time, registration) order.
+ */
+export class VirtualClock implements Clock {
+    private current: number;
+    private timers: VirtualTimer[] = [];
+    private seq = 0;
+
+    constructor(startTime: number = 0) {
+        this.current = startTime;
+    }
+
+    now() { return this.current; }
+
+    sleep(ms: number) {
+        this.current += Math.max(0, ms);
+        return Promise.resolve();
+    }
+
+    setTimeout(fn: () => void | Promise<void>, ms: number) {
+        this.timers.push({ due: this.current + Math.max(0, ms), seq: this.seq++, fn });
+    }
+
+    get pendingTimers() { return this.timers.length; }
+
+    /** Run every timer due at or before `time` (awaiting each one), then move the clock to `time` */
+    async advanceTo(time: number) {
+        while (true) {
+            let next: VirtualTimer | null = null;
+            for (const timer of this.timers) {
+                if (timer.due > time) continue;
+                if (!next || timer.due < next.due || (timer.due === next.due && timer.seq < next.seq)) next = timer;
+            }
+            if (!next) break;
+
+            this.timers.splice(this.timers.indexOf(next), 1);
+            this.current = Math.max(this.current, next.due);
+            await next.fn();
+        }
+        this.current = Math.max(this.current, time);
+    }
+}
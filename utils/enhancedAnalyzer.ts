@@ -1,6 +1,8 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import { getPumpData, getTokenMetadata, getHolderStats, getHolderCount } from './solanaManager';
 import { TokenData } from '../components/LiveFeed';
+import { now } from './clock';
+import type { TradeTape } from './tradeTape';
 
 export interface AdvancedConfig {
     minBondingCurve?: number;
@@ -13,6 +15,7 @@ export interface AdvancedConfig {
     maxTop10?: number;
     minVelocity?: number;
     rugCheckStrictness?: 'strict' | 'standard' | 'lenient';
+    avoidSnipers?: boolean;
     slippage?: number;
 }
 
@@ -51,6 +54,9 @@ export interface EnhancedAnalysis {
     };
 }
 
+/** How strictly the tiers are applied: strict tiers (runner), Tier 0 + very early (sniper), Tier 0 + momentum (degen) */
+export type AnalyzerProfile = 'runner' | 'sniper' | 'degen';
+
 /**
  * Enhanced Token Analyzer based on "2026 Graduate Data Findings"
  * Implements the 4-Tier Framework for early spotted strategy.
@@ -59,17 +65,17 @@ export async function analyzeEnhanced(
     token: TokenData,
     connection: Connection,
     heliusKey?: string,
-    riskMode: 'runner' | 'sniper' | 'degen' | 'safe' | 'medium' | 'high' | 'velocity' | 'first' | 'scalp' = 'runner', // Mapped to new strategy
-    config?: AdvancedConfig
+    profile: AnalyzerProfile = 'runner', // Declared by each strategy
+    config?: AdvancedConfig,
+    tape?: TradeTape // Real volume and buy ratio when the feed has streamed this mint's trades
 ): Promise<EnhancedAnalysis> {
     const reasons: string[] = [];
     const warnings: string[] = [];
     const strengths: string[] = [];
 
-    // Map legacy modes to new strategy intent
-    const isRunnerMode = riskMode === 'runner' || riskMode === 'safe' || riskMode === 'medium'; // Strict Tier compliance
-    const isSniperMode = riskMode === 'sniper' || riskMode === 'high' || riskMode === 'first'; // Speed, Tier 0 only
-    const isDegenMode = riskMode === 'degen' || riskMode === 'velocity'; // Loose checks, momentum focus
+    const isRunnerMode = profile === 'runner'; // Strict Tier compliance
+    const isSniperMode = profile === 'sniper'; // Speed, Tier 0 only
+    const isDegenMode = profile === 'degen'; // Loose checks, momentum focus
 
     try {
         const pumpData = await getPumpData(token.mint, connection);
@@ -77,14 +83,12 @@ export async function analyzeEnhanced(
             return createRejectResult('Token not found on bonding curve', reasons, warnings, strengths);
         }
 
-        const age = (Date.now() - token.timestamp) / 1000; // Age in seconds
+        const age = (now() - token.timestamp) / 1000; // Age in seconds
         const liquidity = pumpData.vSolInBondingCurve;
+        const flow = tape?.getFlow(token.mint); // null until the feed has reported a trade
 
         // Bonding Curve Progress
-        const tokenBalance = pumpData.vTokensInBondingCurve;
-        const bondingCurveProgress = Math.max(0, Math.min(100,
-            100 - (((tokenBalance - 206900000) * 100) / 793100000)
-        ));
+        const bondingCurveProgress = pumpData.bondingCurveProgress;
 
         // Get Metadata & Security
         const metadata = await getTokenMetadata(token.mint, heliusKey);
@@ -200,8 +204,8 @@ export async function analyzeEnhanced(
                 holderCount: holderMetrics.holderCount,
                 deployerHoldings: holderMetrics.deployerHoldings,
                 top10Concentration: holderMetrics.top10Concentration,
-                volume24h: 0, // Need historical data
-                buySellRatio: 0.7, // Estimated
+                volume24h: flow ? flow.total.volumeSol : 0, // Tape covers the token's whole life so far
+                buySellRatio: flow ? flow.windows['5m'].buySellRatio : 0.7, // Estimated without a tape
                 bondingCurveVelocity: curveVelocity,
                 liquidityDepth: liquidity,
                 contractSecurity
@@ -0,0 +1,261 @@
+import { Connection, Keypair, PublicKey, TransactionError, TransactionExpiredBlockheightExceededError } from '@solana/web3.js';
+import { TradeParams, TradeTransactionBuilder, getTradeTransaction, signTransaction } from './pumpPortal';
+import { createPumpTransactionBuilder } from './pumpProgram';
+import { getBalance, getPumpData, getTokenBalance } from './solanaManager';
+import { TransactionFill, fetchTransactionFill } from './fillParser';
+import { now, sleep } from './clock';
+import { RebroadcastOptions, confirmWithRebroadcast } from './txSender';
+import { TradeError, decodeTransactionError, preflight } from './tradeErrors';
+import { withLane } from './rpcPool';
+import {
+    BondingCurveState, curveFromPumpData, curveFromReserves, quoteBuy, quoteSell,
+    INITIAL_VIRTUAL_SOL_RESERVES, INITIAL_VIRTUAL_TOKEN_RESERVES, LAMPORTS_PER_SOL
+} from './bondingCurve';
+
+/**
+ * Execution Backends
+ * Where live orders are quoted, built, sent and confirmed:
+ * - pumpportal: PumpPortal's trade-local API builds, our RPC sends
+ * - rpc: transactions built locally against the pump.fun program (pumpProgram.ts)
+ * - mock: fills against in-memory bonding curves and balances, no network at all
+ *   (end-to-end runs in CI, demos of the live path)
+ * `submit` simulates first and throws a TradeError (tradeErrors.ts) for a transaction
+ * that would fail; `confirm` decodes failures of landed ones the same way.
+ */
+
+export type ExecutionBackendId = 'pumpportal' | 'rpc' | 'mock';
+
+export interface TradeQuote {
+    tokens: number; // UI tokens bought / sold
+    solAmount: number; // SOL spent (buy, fee included) / received (sell, after fee)
+    price: number; // Average SOL per token
+    priceImpact: number; // %
+}
+
+export interface SubmittedTransaction {
+    signature: string;
+    blockhash: string;
+    lastValidBlockHeight: number;
+    rawTransaction?: string; // Signed transaction (base64), re-broadcast until it lands
+}
+
+export type ConfirmOutcome =
+    | { status: 'confirmed'; fill: TransactionFill | null }
+    | { status: 'failed'; error: string; reason?: TradeError }
+    | { status: 'expired' };
+
+export interface ExecutionBackend {
+    id: ExecutionBackendId;
+    name: string;
+    quote(params: TradeParams): Promise<TradeQuote | null>;
+    buildTransaction(params: TradeParams): Promise<Uint8Array>;
+    submit(transaction: Uint8Array, wallet: Keypair): Promise<SubmittedTransaction>;
+    confirm(submitted: SubmittedTransaction, owner: PublicKey, mint: string, rebroadcast?: RebroadcastOptions): Promise<ConfirmOutcome>;
+    getBalance(owner: string): Promise<number | null>;
+    getTokenBalance(owner: string, mint: string): Promise<number | null>; // null: lookup failed
+}
+
+export const EXECUTION_BACKENDS: { id: ExecutionBackendId; name: string; description: string }[] = [
+    { id: 'pumpportal', name: 'PumpPortal', description: 'Transactions from the PumpPortal API' },
+    { id: 'rpc', name: 'Direct RPC', description: 'Built locally against the pump.fun program' },
+    { id: 'mock', name: 'Mock', description: 'In-memory curve, no network (testing)' }
+];
+
+/** Buy quotes take SOL (fee included), sell quotes take UI tokens */
+const quoteTrade = (curve: BondingCurveState, params: TradeParams): TradeQuote => {
+    if (params.action === 'buy') {
+        const quote = quoteBuy(curve, params.amount);
+        return { tokens: quote.tokensOut, solAmount: quote.solIn, price: quote.avgPrice, priceImpact: quote.priceImpact };
+    }
+    const quote = quoteSell(curve, params.amount);
+    return { tokens: quote.tokensIn, solAmount: quote.solOut, price: quote.avgPrice, priceImpact: quote.priceImpact };
+};
+
+// === RPC BACKENDS ===
+
+const rpcBackend = (connection: Connection, id: ExecutionBackendId, name: string, build: TradeTransactionBuilder): ExecutionBackend => ({
+    id,
+    name,
+
+    quote: async (params) => {
+        const data = await getPumpData(params.mint, connection);
+        return data && data.vTokensInBondingCurve > 0 ? quoteTrade(curveFromPumpData(data), params) : null;
+    },
+
+    buildTransaction: build,
+
+    submit: async (transaction, wallet) => {
+        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+        const signed = signTransaction(transaction, wallet, blockhash);
+        await preflight(connection, signed);
+        const raw = signed.serialize();
+        // Already simulated; no RPC-side retries either: confirm() re-broadcasts on its own schedule
+        const signature = await connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+        return { signature, blockhash, lastValidBlockHeight, rawTransaction: Buffer.from(raw).toString('base64') };
+    },
+
+    confirm: async (submitted, owner, mint, rebroadcast) => {
+        try {
+            let err: TransactionError | null = null;
+            if (submitted.rawTransaction && rebroadcast) {
+                const raw = new Uint8Array(Buffer.from(submitted.rawTransaction, 'base64'));
+                const result = await confirmWithRebroadcast(connection, raw, submitted.signature, submitted.lastValidBlockHeight, rebroadcast);
+                if (result.status === 'expired') return { status: 'expired' };
+                if (result.status === 'failed') err = result.err;
+            } else {
+                err = (await connection.confirmTransaction(submitted, 'confirmed')).value.err;
+            }
+            if (err) {
+                const reason = decodeTransactionError(err);
+                return { status: 'failed', error: reason.message, reason };
+            }
+        } catch (error: any) {
+            if (error instanceof TransactionExpiredBlockheightExceededError) return { status: 'expired' };
+            return { status: 'failed', error: error.message || 'Confirmation failed', ...(error instanceof TradeError ? { reason: error } : {}) };
+        }
+        // Landed: a failed read of the fill must not turn it into a failed order
+        try {
+            return { status: 'confirmed', fill: await fetchTransactionFill(connection, submitted.signature, owner, mint) };
+        } catch (error) {
+            console.warn(`Fill lookup failed for ${submitted.signature.substring(0, 8)}...`, error);
+            return { status: 'confirmed', fill: null };
+        }
+    },
+
+    getBalance: (owner) => getBalance(owner, connection),
+    getTokenBalance: (owner, mint) => getTokenBalance(owner, mint, connection)
+});
+
+export const createPumpPortalBackend = (connection: Connection) =>
+    rpcBackend(connection, 'pumpportal', 'PumpPortal', getTradeTransaction);
+
+export const createRpcBackend = (connection: Connection) =>
+    rpcBackend(connection, 'rpc', 'Direct RPC', createPumpTransactionBuilder(connection));
+
+// === MOCK BACKEND ===
+
+export interface MockBackendOptions {
+    startingBalance: number; // SOL per wallet
+    networkFee: number; // Base fee per transaction (priority fee is added from the order)
+    rentSol: number; // Token account rent
+    latencyMs: number; // Submit -> confirmed
+}
+
+const DEFAULT_MOCK_OPTIONS: MockBackendOptions = { startingBalance: 10, networkFee: 0.000005, rentSol: 0.00204, latencyMs: 400 };
+
+interface MockOrder {
+    params: TradeParams;
+    expected: TradeQuote; // Quote at build time, for the slippage check
+}
+
+/**
+ * Fills orders against in-memory curves (launch state unless `setCurve` says otherwise).
+ * "Transactions" are the order encoded as JSON; nothing is signed or sent anywhere. Orders
+ * the program would reject throw the same TradeErrors a failed simulation does.
+ */
+export class MockExecutionBackend implements ExecutionBackend {
+    readonly id = 'mock' as const;
+    readonly name = 'Mock';
+    private options: MockBackendOptions;
+    private curves = new Map<string, BondingCurveState>();
+    private solBalances = new Map<string, number>();
+    private tokenBalances = new Map<string, number>(); // `${owner}:${mint}`
+    private fills = new Map<string, TransactionFill>();
+    private seq = 0;
+
+    constructor(options: Partial<MockBackendOptions> = {}) {
+        this.options = { ...DEFAULT_MOCK_OPTIONS, ...options };
+    }
+
+    setCurve(mint: string, curve: BondingCurveState) { this.curves.set(mint, curve); }
+    getCurve(mint: string): BondingCurveState {
+        return this.curves.get(mint) || curveFromReserves(Number(INITIAL_VIRTUAL_SOL_RESERVES) / LAMPORTS_PER_SOL, Number(INITIAL_VIRTUAL_TOKEN_RESERVES));
+    }
+
+    async quote(params: TradeParams) { return quoteTrade(this.getCurve(params.mint), params); }
+
+    async buildTransaction(params: TradeParams) {
+        const order: MockOrder = { params, expected: quoteTrade(this.getCurve(params.mint), params) };
+        return new TextEncoder().encode(JSON.stringify(order));
+    }
+
+    async submit(transaction: Uint8Array, wallet: Keypair): Promise<SubmittedTransaction> {
+        const { params, expected }: MockOrder = JSON.parse(new TextDecoder().decode(transaction));
+        const signature = `MOCK${now()}${++this.seq}`;
+        this.fills.set(signature, this.execute(params, expected, wallet.publicKey.toBase58(), signature));
+        return { signature, blockhash: 'mock', lastValidBlockHeight: 0 };
+    }
+
+    async confirm(submitted: SubmittedTransaction): Promise<ConfirmOutcome> {
+        await sleep(this.options.latencyMs);
+        const fill = this.fills.get(submitted.signature);
+        return fill ? { status: 'confirmed', fill } : { status: 'failed', error: 'Unknown transaction' };
+    }
+
+    async getBalance(owner: string) { return this.solBalances.get(owner) ?? this.options.startingBalance; }
+    async getTokenBalance(owner: string, mint: string) { return this.tokenBalances.get(`${owner}:${mint}`) || 0; }
+
+    private execute(params: TradeParams, expected: TradeQuote, owner: string, signature: string): TransactionFill {
+        const { networkFee, rentSol, startingBalance } = this.options;
+        const curve = this.getCurve(params.mint);
+        if (curve.complete) throw new TradeError('CURVE_COMPLETE', 'Bonding curve complete: the token has migrated off pump.fun');
+
+        const key = `${owner}:${params.mint}`;
+        const sol = this.solBalances.get(owner) ?? startingBalance;
+        const held = this.tokenBalances.get(key) || 0;
+        const fee = networkFee + params.priorityFee;
+        const slippage = params.slippage / 100;
+
+        if (params.action === 'buy') {
+            const quote = quoteBuy(curve, params.amount);
+            const rentPaid = this.tokenBalances.has(key) ? 0 : rentSol;
+            if (sol < quote.solIn + fee + rentPaid) throw new TradeError('INSUFFICIENT_FUNDS', 'Insufficient SOL for the trade, fees and rent');
+            if (quote.tokensOut < expected.tokens * (1 - slippage)) throw new TradeError('SLIPPAGE_EXCEEDED', 'Slippage exceeded: the buy would cost more SOL than allowed');
+
+            this.curves.set(params.mint, quote.curveAfter);
+            this.solBalances.set(owner, sol - quote.solIn - fee - rentPaid);
+            this.tokenBalances.set(key, held + quote.tokensOut);
+            return this.fill(signature, -quote.solIn, quote.tokensOut, fee, params.priorityFee, rentPaid);
+        }
+
+        const tokens = Math.min(params.amount, held);
+        if (tokens <= 0) throw new TradeError('INSUFFICIENT_FUNDS', 'Insufficient token balance for the sell');
+        const quote = quoteSell(curve, tokens);
+        if (quote.solOut < expected.solAmount * (1 - slippage)) throw new TradeError('SLIPPAGE_EXCEEDED', 'Slippage exceeded: the sell would return less SOL than allowed');
+
+        this.curves.set(params.mint, quote.curveAfter);
+        this.solBalances.set(owner, sol + quote.solOut - fee);
+        this.tokenBalances.set(key, held - tokens);
+        return this.fill(signature, quote.solOut, -tokens, fee, params.priorityFee, 0);
+    }
+
+    private fill(signature: string, tradeSol: number, tokenChange: number, networkFee: number, priorityFee: number, rentPaid: number): TransactionFill {
+        return {
+            signature,
+            slot: this.seq,
+            solChange: tradeSol - networkFee - rentPaid,
+            tradeSol,
+            tokenChange,
+            networkFee,
+            priorityFee,
+            rentPaid,
+            rentReclaimed: 0
+        };
+    }
+}
+
+// One mock per process so its balances survive backend switches
+let sharedMock: MockExecutionBackend | null = null;
+
+export const createExecutionBackend = (id: ExecutionBackendId, connection: Connection): ExecutionBackend => {
+    if (id === 'mock') {
+        if (!sharedMock) sharedMock = new MockExecutionBackend();
+        return sharedMock;
+    }
+    // Order traffic (quotes, sends, confirmation polling) goes ahead of analysis when the RPC quota is short
+    const orders = withLane(connection, 'exit');
+    return id === 'rpc' ? createRpcBackend(orders) : createPumpPortalBackend(orders);
+};
+
+export const isExecutionBackendId = (id: unknown): id is ExecutionBackendId =>
+    EXECUTION_BACKENDS.some(backend => backend.id === id);
@@ -0,0 +1,304 @@
+/**
+ * Exit Rules
+ * A position's exit plan is an ordered list of rules, persisted with the trade as JSON:
+ *
+ *   { "when": "pnl >= 100", "sell": 50 }
+ *   { "when": "dropFromPeak >= 15 && pnl > 0", "sell": "all" }
+ *   { "when": "age > 600 && pnl < 10", "sell": "all" }
+ *   { "when": "age < 10", "hold": true }
+ *
+ * or the same in text form: "pnl >= 100 -> sell 50%", "age < 10 -> hold".
+ * Rules are checked top to bottom every tick; the first one that matches decides.
+ * `sell` is a share of the tokens currently held. Partial sells fire once per trade;
+ * `hold` stops evaluation for this tick. `urgent` sells ("-> sell all urgent") pay a
+ * higher priority fee (see priorityFees.ts).
+ */
+
+// === TYPES ===
+
+export interface ExitRule {
+    when: string; // Condition over the variables below
+    sell?: number | 'all'; // % of current holdings
+    hold?: boolean; // Skip the remaining rules this tick
+    urgent?: boolean; // Sell at the urgent priority-fee percentile
+    label?: string; // Shown in logs
+}
+
+/** Variables a condition can use */
+export interface ExitVariables {
+    pnl: number; // % vs buy price
+    peakPnl: number; // % of the highest seen price vs buy price
+    dropFromPeak: number; // % below the highest seen price
+    age: number; // Seconds since buy
+    sinceChange: number; // Seconds since the price last changed
+    exits: number; // Partial exits already taken
+    paper: number; // 1 for paper trading, 0 live
+}
+
+const VARIABLES: (keyof ExitVariables)[] = ['pnl', 'peakPnl', 'dropFromPeak', 'age', 'sinceChange', 'exits', 'paper'];
+
+/** Legacy parameter shape analyzers still produce; turned into rules by `rulesFromParams` */
+export interface ExitParams {
+    takeProfit: number;
+    takeProfit2?: number; // Second profit target (for staged exits)
+    stopLoss: number;
+    maxHoldTime: number; // seconds
+    trailingStop: boolean;
+    trailingStopPercent?: number; // e.g., 10% from peak
+    momentumExit?: boolean; // Exit when momentum detected (for first buyer)
+    minHoldTime?: number; // Minimum seconds before exit (for first buyer)
+}
+
+/** Plan parameters for positions opened without one */
+export const DEFAULT_EXIT_PARAMS: ExitParams = { takeProfit: 50, stopLoss: 15, maxHoldTime: 600, trailingStop: false };
+
+export class ExitRuleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExitRuleError';
+    }
+}
+
+// === CONDITION PARSER ===
+
+type Node =
+    | { kind: 'num'; value: number }
+    | { kind: 'var'; name: keyof ExitVariables }
+    | { kind: 'not' | 'neg'; operand: Node }
+    | { kind: 'bin'; op: string; left: Node; right: Node };
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|(&&|\|\||>=|<=|==|!=|[-+*/()<>!]))/y;
+
+const tokenize = (source: string): string[] => {
+    const tokens: string[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+    while (TOKEN_PATTERN.lastIndex < source.length) {
+        if (/^\s*$/.test(source.slice(TOKEN_PATTERN.lastIndex))) break;
+        const start = TOKEN_PATTERN.lastIndex;
+        const match = TOKEN_PATTERN.exec(source);
+        if (!match) throw new ExitRuleError(`Unexpected character at ${start + 1} in "${source}"`);
+        tokens.push(match[1] || match[2] || match[3]);
+    }
+    return tokens;
+};
+
+const BINARY_LEVELS = [['||'], ['&&'], ['>=', '<=', '>', '<', '==', '!='], ['+', '-'], ['*', '/']];
+
+/** Parse a condition into a tree (precedence: || < && < comparisons < +,- < *,/ < unary) */
+const parseCondition = (source: string): Node => {
+    const tokens = tokenize(source);
+    let pos = 0;
+
+    const fail = (message: string): never => { throw new ExitRuleError(`${message} in "${source}"`); };
+
+    const parseLevel = (level: number): Node => {
+        if (level === BINARY_LEVELS.length) return parseUnary();
+        let left = parseLevel(level + 1);
+        while (pos < tokens.length && BINARY_LEVELS[level].includes(tokens[pos])) {
+            const op = tokens[pos++];
+            left = { kind: 'bin', op, left, right: parseLevel(level + 1) };
+        }
+        return left;
+    };
+
+    const parseUnary = (): Node => {
+        const token = tokens[pos];
+        if (token === '!') { pos++; return { kind: 'not', operand: parseUnary() }; }
+        if (token === '-') { pos++; return { kind: 'neg', operand: parseUnary() }; }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): Node => {
+        const token = tokens[pos++];
+        if (token === undefined) return fail('Unexpected end of condition');
+        if (token === '(') {
+            const inner = parseLevel(0);
+            if (tokens[pos++] !== ')') fail('Missing ")"');
+            return inner;
+        }
+        if (/^[\d.]/.test(token)) return { kind: 'num', value: parseFloat(token) };
+        if (token === 'true' || token === 'false') return { kind: 'num', value: token === 'true' ? 1 : 0 };
+        if ((VARIABLES as string[]).includes(token)) return { kind: 'var', name: token as keyof ExitVariables };
+        if (/^[A-Za-z_]/.test(token)) return fail(`Unknown variable "${token}" (use ${VARIABLES.join(', ')})`);
+        return fail(`Unexpected "${token}"`);
+    };
+
+    const tree = parseLevel(0);
+    if (pos < tokens.length) fail(`Unexpected "${tokens[pos]}"`);
+    return tree;
+};
+
+const evaluateNode = (node: Node, vars: ExitVariables): number => {
+    switch (node.kind) {
+        case 'num': return node.value;
+        case 'var': return vars[node.name];
+        case 'not': return evaluateNode(node.operand, vars) ? 0 : 1;
+        case 'neg': return -evaluateNode(node.operand, vars);
+        case 'bin': {
+            // Short-circuit so `a && b` doesn't evaluate b needlessly
+            if (node.op === '&&') return evaluateNode(node.left, vars) && evaluateNode(node.right, vars) ? 1 : 0;
+            if (node.op === '||') return evaluateNode(node.left, vars) || evaluateNode(node.right, vars) ? 1 : 0;
+            const a = evaluateNode(node.left, vars);
+            const b = evaluateNode(node.right, vars);
+            switch (node.op) {
+                case '>=': return a >= b ? 1 : 0;
+                case '<=': return a <= b ? 1 : 0;
+                case '>': return a > b ? 1 : 0;
+                case '<': return a < b ? 1 : 0;
+                case '==': return a === b ? 1 : 0;
+                case '!=': return a !== b ? 1 : 0;
+                case '+': return a + b;
+                case '-': return a - b;
+                case '*': return a * b;
+                default: return b === 0 ? 0 : a / b;
+            }
+        }
+    }
+};
+
+const compiled = new Map<string, Node>();
+
+/** Parse (and cache) a condition; throws ExitRuleError on bad syntax or unknown variables */
+export const compileCondition = (source: string): ((vars: ExitVariables) => boolean) => {
+    let tree = compiled.get(source);
+    if (!tree) {
+        tree = parseCondition(source);
+        compiled.set(source, tree);
+    }
+    const root = tree;
+    return (vars) => evaluateNode(root, vars) !== 0;
+};
+
+// === RULE PARSING / VALIDATION ===
+
+/** Normalize one rule from its JSON or text form ("<condition> -> sell 50%" / "-> sell all" / "-> hold") */
+export const parseExitRule = (input: unknown): ExitRule => {
+    if (typeof input === 'string') {
+        const arrow = input.lastIndexOf('->');
+        if (arrow < 0) throw new ExitRuleError(`Missing "-> action" in "${input}"`);
+        const when = input.slice(0, arrow).trim();
+        const action = input.slice(arrow + 2).trim().toLowerCase();
+        if (action === 'hold') return parseExitRule({ when, hold: true });
+        const sell = action.match(/^sell\s+(all|\d+(?:\.\d+)?)\s*%?(\s+urgent)?$/);
+        if (!sell) throw new ExitRuleError(`Unknown action "${action}" (use "sell <n>%", "sell all" [urgent] or "hold")`);
+        return parseExitRule({ when, sell: sell[1] === 'all' ? 'all' : parseFloat(sell[1]), ...(sell[2] ? { urgent: true } : {}) });
+    }
+
+    if (!input || typeof input !== 'object') throw new ExitRuleError('Rule must be an object or a string');
+    const rule = input as Record<string, unknown>;
+    if (typeof rule.when !== 'string' || !rule.when.trim()) throw new ExitRuleError('Rule needs a "when" condition');
+    compileCondition(rule.when);
+
+    const hasSell = rule.sell !== undefined;
+    if (hasSell === !!rule.hold) throw new ExitRuleError(`Rule "${rule.when}" needs exactly one of "sell" or "hold"`);
+    if (hasSell && rule.sell !== 'all' && !(typeof rule.sell === 'number' && rule.sell > 0 && rule.sell <= 100)) {
+        throw new ExitRuleError(`Rule "${rule.when}": sell must be 1-100 or "all"`);
+    }
+    if (rule.label !== undefined && typeof rule.label !== 'string') throw new ExitRuleError(`Rule "${rule.when}": label must be a string`);
+    if (rule.urgent !== undefined && (typeof rule.urgent !== 'boolean' || !hasSell)) {
+        throw new ExitRuleError(`Rule "${rule.when}": urgent must be true/false on a sell rule`);
+    }
+
+    const parsed: ExitRule = { when: rule.when.trim() };
+    if (hasSell) parsed.sell = rule.sell === 100 ? 'all' : rule.sell as number | 'all';
+    else parsed.hold = true;
+    if (rule.urgent) parsed.urgent = true;
+    if (rule.label) parsed.label = rule.label as string;
+    return parsed;
+};
+
+/** Validate a whole plan (e.g. from a config file); errors name the offending rule */
+export const validateExitRules = (input: unknown): ExitRule[] => {
+    if (!Array.isArray(input)) throw new ExitRuleError('Exit rules must be a list');
+    return input.map((rule, index) => {
+        try {
+            return parseExitRule(rule);
+        } catch (error: any) {
+            throw new ExitRuleError(`Exit rule ${index + 1}: ${error.message}`);
+        }
+    });
+};
+
+export const formatExitRule = (rule: ExitRule) =>
+    `${rule.when} -> ${rule.hold ? 'hold' : rule.sell === 'all' ? 'sell all' : `sell ${rule.sell}%`}${rule.urgent ? ' urgent' : ''}`;
+
+// === EVALUATION ===
+
+export interface ExitDecision {
+    rule: ExitRule;
+    index: number; // Position in the plan (recorded once a partial sell fires)
+    percent: number; // 0 for hold
+    hold: boolean;
+}
+
+/**
+ * First matching rule, skipping partial sells that already fired.
+ * Rules that fail to compile are skipped (plans are validated when they're created).
+ */
+export const evaluateExitRules = (rules: ExitRule[], vars: ExitVariables, fired: number[] = []): ExitDecision | null => {
+    for (let index = 0; index < rules.length; index++) {
+        const rule = rules[index];
+        const isPartial = !rule.hold && rule.sell !== 'all';
+        if (isPartial && fired.includes(index)) continue;
+
+        let matches = false;
+        try { matches = compileCondition(rule.when)(vars); } catch { continue; }
+        if (!matches) continue;
+
+        if (rule.hold) return { rule, index, percent: 0, hold: true };
+        return { rule, index, percent: rule.sell === 'all' ? 100 : rule.sell!, hold: false };
+    }
+    return null;
+};
+
+// === PLANS FROM PARAMETERS ===
+
+/** Velocity's cascading take profit: sells 25% of the CURRENT balance at 25%, 50% and 75% profit (25% moonbag remains) */
+export const CASCADING_TP: ExitRule[] = [25, 50, 75].map(level => ({ when: `pnl >= ${level}`, sell: 25, label: `💰 VELOCITY CTP (${level}%)` }));
+
+/**
+ * The standard exit plan for a set of parameters: hold period, time exit, momentum exit,
+ * profit protection, adaptive + explicit trailing stops, stop loss, staged take profit,
+ * then `staged` (strategy-specific partial exits), the final take profit and paper-only exits.
+ */
+export const rulesFromParams = (params: ExitParams, staged: ExitRule[] = []): ExitRule[] => {
+    const { takeProfit, takeProfit2, stopLoss, maxHoldTime, minHoldTime } = params;
+    const rules: ExitRule[] = [];
+
+    if (maxHoldTime < Infinity) {
+        if (minHoldTime) rules.push({ when: `age < ${minHoldTime}`, hold: true, label: '⏳ MIN HOLD' });
+        rules.push({ when: `age >= ${maxHoldTime}`, sell: 'all', label: '⏰ TIME EXIT' });
+    }
+    if (params.momentumExit) {
+        // Others are buying (price moved in the last 3s) and we're at half the target
+        rules.push({ when: `pnl > 5 && sinceChange < 3 && pnl >= ${takeProfit * 0.5}`, sell: 'all', label: '📈 MOMENTUM EXIT' });
+    }
+
+    rules.push(
+        { when: 'peakPnl >= 10 && pnl <= 5 && pnl > 0', sell: 'all', label: '💰 PROFIT PROTECTION' },
+        { when: 'peakPnl >= 20 && pnl <= 10 && pnl > 0', sell: 'all', label: '💰 PROFIT PROTECTION' },
+        // Adaptive trailing stop: tighter as the peak gain grows
+        { when: 'peakPnl >= 50 && dropFromPeak >= 8', sell: 'all', label: '📉 ADAPTIVE TRAILING STOP' },
+        { when: 'peakPnl >= 30 && dropFromPeak >= 10', sell: 'all', label: '📉 ADAPTIVE TRAILING STOP' },
+        { when: 'peakPnl >= 15 && dropFromPeak >= 12', sell: 'all', label: '📉 ADAPTIVE TRAILING STOP' },
+        { when: 'peakPnl >= 10 && dropFromPeak >= 15', sell: 'all', label: '📉 ADAPTIVE TRAILING STOP' }
+    );
+    if (params.trailingStop) {
+        rules.push({ when: `peakPnl >= 20 && dropFromPeak >= ${params.trailingStopPercent || 10}`, sell: 'all', label: '📉 TRAILING STOP' });
+    }
+
+    rules.push({ when: `pnl <= -${Math.abs(stopLoss)}`, sell: 'all', urgent: true, label: '🛑 STOP LOSS' });
+
+    // Staged profit taking (Research: 50% at 2x, 30% at 5x, hold 20%)
+    rules.push({ when: `pnl >= ${takeProfit}`, sell: 50, label: '🎯 STAGED TP1' });
+    if (takeProfit2) rules.push({ when: `pnl >= ${takeProfit2}`, sell: 30, label: '🚀 STAGED TP2' });
+    rules.push(...staged);
+    if (!takeProfit2) rules.push({ when: `pnl >= ${takeProfit}`, sell: 'all', label: '🎯 TAKE PROFIT' });
+
+    // Paper trading: quick exits to test the system more often
+    rules.push(
+        { when: `paper && pnl >= 5 && age >= 30 && pnl < ${takeProfit}`, sell: 'all', label: '📊 PAPER TRADING QUICK EXIT' },
+        { when: 'paper && age >= 120 && pnl < 2 && pnl > -2', sell: 'all', label: '⏱️ STALE POSITION' }
+    );
+    return rules;
+};
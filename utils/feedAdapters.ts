@@ -0,0 +1,83 @@
+import { TokenData } from '../components/LiveFeed';
+import { FeedAdapter, FeedSource, MarketBus } from './marketBus';
+import { parseTradeMessage, publishLogsNotification } from './pumpFeed';
+import { RecordedEvent } from './recording';
+
+// === SIMULATOR ===
+
+/**
+ * Simulated launches for the dashboard's simulation mode: a random token every few seconds,
+ * roughly 10% gems and 30% rugs, so the filters and UI can be exercised offline.
+ */
+export class SimulatedFeed implements FeedAdapter {
+    readonly source: FeedSource = 'simulator';
+    private timer: ReturnType<typeof setInterval>;
+
+    constructor(private bus: MarketBus, intervalMs = 3000) {
+        this.bus.publish('FeedStatus', { source: this.source, status: 'simulating', attempt: 0 });
+        this.timer = setInterval(() => this.launch(), intervalMs);
+    }
+
+    close() {
+        clearInterval(this.timer);
+    }
+
+    private launch() {
+        const isGem = Math.random() < 0.1;
+        const isRug = Math.random() < 0.3;
+        const token: TokenData = {
+            mint: "SIM" + Math.random().toString(36).substring(7), traderPublicKey: "SIM", txType: "create",
+            initialBuy: 1, bondingCurveKey: "SIM", vTokensInBondingCurve: 1e9,
+            vSolInBondingCurve: isGem ? 45 : (isRug ? 30.1 : 31), marketCapSol: 30,
+            name: isRug ? "Rug Pull Coin" : isGem ? "Diamond G" : "Standard Token",
+            symbol: (isRug ? "RUG" : isGem ? "GEM" : "TOK") + Math.floor(Math.random() * 99), uri: "", timestamp: Date.now()
+        };
+        this.bus.publish('TokenCreated', { token, source: this.source });
+    }
+}
+
+// === REPLAY ===
+
+/**
+ * Backtest adapter: turns recorded events into bus events. The backtester drives it one
+ * event at a time under the virtual clock, so timestamps are the recorded receive times.
+ */
+export class ReplayFeed implements FeedAdapter {
+    readonly source: FeedSource = 'replay';
+    private launched = new Set<string>();
+    private graduated = new Set<string>();
+
+    constructor(private bus: MarketBus) { }
+
+    publish(event: RecordedEvent) {
+        switch (event.type) {
+            case 'token':
+                if (this.launched.has(event.token.mint)) break;
+                this.launched.add(event.token.mint);
+                this.bus.publish('TokenCreated', { token: event.token, source: this.source });
+                break;
+            case 'curve':
+                this.bus.publish('CurveUpdated', { mint: event.mint, data: event.curve, source: this.source });
+                if (event.curve.complete && !this.graduated.has(event.mint)) {
+                    this.graduated.add(event.mint);
+                    this.bus.publish('Graduated', { mint: event.mint, timestamp: event.t, source: this.source });
+                }
+                break;
+            case 'trade': {
+                if (event.data?.method === 'logsNotification') {
+                    // The launch in a recorded create transaction was already replayed as its token event
+                    publishLogsNotification(this.bus, event.data, this.source, event.t, mint => !this.launched.has(mint));
+                    break;
+                }
+                const trade = parseTradeMessage(event.data, this.source);
+                if (trade) this.bus.publish('TradeObserved', { ...trade, timestamp: event.t });
+                break;
+            }
+        }
+    }
+
+    close() {
+        this.launched.clear();
+        this.graduated.clear();
+    }
+}
@@ -0,0 +1,92 @@
+import { Connection, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { sleep } from './clock';
+import { LAMPORTS_PER_SOL } from './bondingCurve';
+
+/**
+ * Transaction Fill Parser
+ * Breaks a confirmed trade transaction down from the trader's point of view using the
+ * pre/post SOL and token balances: what went into / came out of the trade itself, the
+ * network fee (base + priority) and rent for token accounts opened or closed.
+ * Realized PnL is computed from these instead of wallet balance diffs, so concurrent
+ * transfers, rent reclaims and fees don't leak into it.
+ */
+
+const BASE_FEE_LAMPORTS = 5000; // Per signature
+
+export interface TransactionFill {
+    signature: string;
+    slot: number;
+    solChange: number; // Net wallet SOL delta, everything included
+    tradeSol: number; // SOL paid for (-) / received from (+) the trade itself, protocol fee included
+    tokenChange: number; // UI tokens of the mint received (+) / sent (-)
+    networkFee: number; // Base + priority fee
+    priorityFee: number;
+    rentPaid: number; // Token accounts opened for the trader
+    rentReclaimed: number; // Token accounts closed back to the trader
+}
+
+/** Fill for `owner` (the fee payer) and `mint` from a parsed transaction; null without metadata */
+export const parseTransactionFill = (tx: ParsedTransactionWithMeta, owner: PublicKey, mint: string): TransactionFill | null => {
+    const meta = tx.meta;
+    if (!meta) return null;
+    const ownerKey = owner.toBase58();
+    const ownerIndex = tx.transaction.message.accountKeys.findIndex(key => key.pubkey.equals(owner));
+    if (ownerIndex < 0) return null;
+
+    const preTokens = meta.preTokenBalances || [];
+    const postTokens = meta.postTokenBalances || [];
+    const tokenAmount = (balances: typeof preTokens) => balances
+        .filter(b => b.mint === mint && b.owner === ownerKey)
+        .reduce((sum, b) => sum + (b.uiTokenAmount.uiAmount || 0), 0);
+
+    // Token accounts are rent-exact: one that appears funds its rent, one that disappears returns it
+    let rentPaid = 0;
+    let rentReclaimed = 0;
+    const ownedAccounts = new Set([...preTokens, ...postTokens].filter(b => b.owner === ownerKey).map(b => b.accountIndex));
+    ownedAccounts.forEach(index => {
+        const pre = meta.preBalances[index];
+        const post = meta.postBalances[index];
+        if (pre === 0 && post > 0) rentPaid += post;
+        if (pre > 0 && post === 0) rentReclaimed += pre;
+    });
+
+    const solChange = meta.postBalances[ownerIndex] - meta.preBalances[ownerIndex];
+    const priorityFee = Math.max(0, meta.fee - BASE_FEE_LAMPORTS * tx.transaction.signatures.length);
+    const tradeSol = solChange + meta.fee + rentPaid - rentReclaimed;
+
+    return {
+        signature: tx.transaction.signatures[0],
+        slot: tx.slot,
+        solChange: solChange / LAMPORTS_PER_SOL,
+        tradeSol: tradeSol / LAMPORTS_PER_SOL,
+        tokenChange: tokenAmount(postTokens) - tokenAmount(preTokens),
+        networkFee: meta.fee / LAMPORTS_PER_SOL,
+        priorityFee: priorityFee / LAMPORTS_PER_SOL,
+        rentPaid: rentPaid / LAMPORTS_PER_SOL,
+        rentReclaimed: rentReclaimed / LAMPORTS_PER_SOL
+    };
+};
+
+/** Fetch and parse a confirmed transaction; retries briefly since RPC nodes can lag the confirmation */
+export const fetchTransactionFill = async (
+    connection: Connection,
+    signature: string,
+    owner: PublicKey,
+    mint: string,
+    attempts: number = 5
+): Promise<TransactionFill | null> => {
+    for (let attempt = 0; attempt < attempts; attempt++) {
+        const tx = await connection.getParsedTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+        if (tx) return parseTransactionFill(tx, owner, mint);
+        await sleep(500);
+    }
+    return null;
+};
+
+// === REALIZED PNL ===
+
+/** Cost basis of a buy: what the tokens cost plus the fee to get them (rent is a refundable deposit) */
+export const buyCost = (fill: TransactionFill) => -fill.tradeSol + fill.networkFee;
+
+/** Proceeds of a sell after its network fee (reclaimed rent is the buy's deposit coming back, not profit) */
+export const sellProceeds = (fill: TransactionFill) => fill.tradeSol - fill.networkFee;
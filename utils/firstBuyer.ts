@@ -1,6 +1,7 @@
 import { Connection } from '@solana/web3.js';
 import { getPumpData } from './solanaManager';
 import { TokenData } from '../components/LiveFeed';
+import { now } from './clock';
 
 export interface FirstBuyerSignal {
     shouldBuy: boolean;
@@ -34,7 +35,7 @@ export async function analyzeFirstBuyer(
                 shouldBuy: false,
                 confidence: 0,
                 reason: 'Token not found or RPC error',
-                entryTime: Date.now(),
+                entryTime: now(),
                 exitStrategy: {
                     timeBasedExit: 6,
                     momentumExit: true,
@@ -46,7 +47,7 @@ export async function analyzeFirstBuyer(
             };
         }
 
-        const age = (Date.now() - token.timestamp) / 1000; // Age in seconds
+        const age = (now() - token.timestamp) / 1000; // Age in seconds
         const liquidity = currentData.vSolInBondingCurve;
         const initialLiquidity = 30; // Pump.fun starts at 30 SOL
         const liquidityGrowth = liquidity - initialLiquidity;
@@ -55,7 +56,7 @@ export async function analyzeFirstBuyer(
         let momentum = 0;
         if (previousData && age > 0) {
             const liquidityChange = liquidity - previousData.liquidity;
-            const timeDiff = (Date.now() - previousData.timestamp) / 1000;
+            const timeDiff = (now() - previousData.timestamp) / 1000;
             momentum = timeDiff > 0 ? (liquidityChange / timeDiff) * 60 : 0; // SOL per minute
         } else {
             momentum = age > 0 ? (liquidityGrowth / age) * 60 : 0;
@@ -75,7 +76,7 @@ export async function analyzeFirstBuyer(
                 shouldBuy: false,
                 confidence: 0,
                 reason: `Too late - token is ${age.toFixed(1)}s old (need <15s)`,
-                entryTime: Date.now(),
+                entryTime: now(),
                 exitStrategy: {
                     timeBasedExit: 6,
                     momentumExit: true,
@@ -93,7 +94,7 @@ export async function analyzeFirstBuyer(
                 shouldBuy: false,
                 confidence: 0,
                 reason: '🚨 Liquidity draining - instant rug',
-                entryTime: Date.now(),
+                entryTime: now(),
                 exitStrategy: {
                     timeBasedExit: 6,
                     momentumExit: true,
@@ -137,7 +138,7 @@ export async function analyzeFirstBuyer(
                 shouldBuy: false,
                 confidence: 0,
                 reason: `No signal - Age: ${age.toFixed(1)}s, Growth: ${liquidityGrowth.toFixed(2)} SOL`,
-                entryTime: Date.now(),
+                entryTime: now(),
                 exitStrategy: {
                     timeBasedExit: 6,
                     momentumExit: true,
@@ -204,7 +205,7 @@ export async function analyzeFirstBuyer(
         }
         
         // Check bonding curve progress - if already high, exit faster
-        const bondingCurveProgress = age > 0 ? (liquidityGrowth / 30) * 100 : 0;
+        const bondingCurveProgress = currentData.bondingCurveProgress;
         if (bondingCurveProgress > 10) {
             // Already past sweet spot, exit quickly
             timeBasedExit = Math.min(timeBasedExit, 4);
@@ -215,7 +216,7 @@ export async function analyzeFirstBuyer(
             shouldBuy,
             confidence,
             reason,
-            entryTime: Date.now(),
+            entryTime: now(),
             exitStrategy: {
                 timeBasedExit,
                 momentumExit: true, // Exit when momentum detected
@@ -241,7 +242,7 @@ export async function analyzeFirstBuyer(
                 : isForbidden 
                 ? 'RPC access denied - check API key'
                 : `Analysis error: ${errorMsg.substring(0, 50)}`,
-            entryTime: Date.now(),
+            entryTime: now(),
             exitStrategy: {
                 timeBasedExit: 6,
                 momentumExit: true,
@@ -258,7 +259,7 @@ export async function analyzeFirstBuyer(
  * Quick check for first buyer mode (ultra-fast rejection)
  */
 export function quickFirstBuyerCheck(token: TokenData): { passed: boolean; reason?: string } {
-    const age = (Date.now() - token.timestamp) / 1000;
+    const age = (now() - token.timestamp) / 1000;
     
     // Too old
     if (age > 15) {
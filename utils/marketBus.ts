@@ -0,0 +1,133 @@
+import { TokenData } from '../components/LiveFeed';
+import { TypedEmitter } from './typedEmitter';
+import { PumpData } from './recording';
+import { ActiveTrade } from './tradingEngine';
+import { FeedGap, WsStatus } from './wsClient';
+
+/**
+ * Market Data Bus
+ * One in-process stream of typed market events. Feed adapters (PumpPortal, Helius logs, the
+ * simulator, backtest replay, account subscriptions) publish; the entry pipeline, trading
+ * engine and UI subscribe. Adding a consumer means adding a listener - not another socket.
+ * Per-mint trade streams are opened on demand: consumers call `watchTrades`, and every
+ * attached adapter that can stream trades subscribes for as long as anyone is watching.
+ */
+
+export type FeedSource = 'pumpportal' | 'helius' | 'simulator' | 'replay' | 'rpc';
+
+export interface TokenCreated {
+    token: TokenData;
+    slot?: number; // Create slot, when the feed carries it
+    source: FeedSource;
+}
+
+export interface TradeObserved {
+    mint: string;
+    side: 'buy' | 'sell';
+    solAmount: number; // SOL
+    tokenAmount: number;
+    trader: string;
+    signature?: string;
+    slot?: number;
+    vSolInBondingCurve?: number; // Reserves after the trade, when the feed carries them
+    vTokensInBondingCurve?: number;
+    timestamp: number;
+    source: FeedSource;
+}
+
+export interface CurveUpdated {
+    mint: string;
+    data: PumpData;
+    slot?: number;
+    source: FeedSource;
+}
+
+export interface Graduated {
+    mint: string;
+    signature?: string;
+    timestamp: number;
+    source: FeedSource;
+}
+
+export interface PositionChanged {
+    trade: ActiveTrade;
+    change: 'opened' | 'reduced' | 'closed';
+}
+
+export interface FeedStatusChanged {
+    source: FeedSource;
+    status: WsStatus | 'simulating';
+    attempt: number;
+    gap?: FeedGap; // Set once when the feed comes back after a disconnect
+}
+
+export interface MarketEvents {
+    TokenCreated: TokenCreated;
+    TradeObserved: TradeObserved;
+    CurveUpdated: CurveUpdated;
+    Graduated: Graduated;
+    PositionChanged: PositionChanged;
+    FeedStatus: FeedStatusChanged;
+}
+
+/** A source of market events attached to the bus */
+export interface FeedAdapter {
+    readonly source: FeedSource;
+    watchTrades?(mint: string): void;
+    unwatchTrades?(mint: string): void;
+    close(): void;
+}
+
+export class MarketBus extends TypedEmitter<MarketEvents> {
+    private adapters = new Set<FeedAdapter>();
+    private watchers = new Map<string, number>(); // mint -> consumers watching its trades
+    private feedStatus: FeedStatusChanged | null = null;
+
+    publish<K extends keyof MarketEvents>(event: K, payload: MarketEvents[K]) {
+        if (event === 'FeedStatus') this.feedStatus = payload as FeedStatusChanged;
+        this.emit(event, payload);
+    }
+
+    /** Last FeedStatus published, for subscribers that mount after the feed connected */
+    getFeedStatus() {
+        return this.feedStatus;
+    }
+
+    /** Attach an adapter; it is told about every mint already being watched. Returns a detach function. */
+    attach(adapter: FeedAdapter): () => void {
+        this.adapters.add(adapter);
+        this.watchers.forEach((_, mint) => adapter.watchTrades?.(mint));
+        return () => this.detach(adapter);
+    }
+
+    /** Detach and close an adapter */
+    detach(adapter: FeedAdapter) {
+        if (!this.adapters.delete(adapter)) return;
+        adapter.close();
+    }
+
+    /** Ask the attached feeds to stream trades for `mint` (reference counted) */
+    watchTrades(mint: string) {
+        const count = this.watchers.get(mint) || 0;
+        this.watchers.set(mint, count + 1);
+        if (count === 0) this.adapters.forEach(adapter => adapter.watchTrades?.(mint));
+    }
+
+    unwatchTrades(mint: string) {
+        const count = this.watchers.get(mint) || 0;
+        if (count === 0) return;
+        if (count > 1) {
+            this.watchers.set(mint, count - 1);
+            return;
+        }
+        this.watchers.delete(mint);
+        this.adapters.forEach(adapter => adapter.unwatchTrades?.(mint));
+    }
+
+    isWatched(mint: string) {
+        return this.watchers.has(mint);
+    }
+}
+
+/** Shared bus for the dashboard and the CLI runner; backtests create their own */
+export const marketBus = new MarketBus();
@@ -0,0 +1,332 @@
+import { createWriteStream, existsSync, mkdirSync, readFileSync, statSync, writeFileSync, WriteStream } from 'fs';
+import { join } from 'path';
+import { createGzip, gunzipSync, Gzip, constants as zlibConstants } from 'zlib';
+import { Connection } from '@solana/web3.js';
+import { getPumpData } from './solanaManager';
+import { getFeedUrl, isHeliusKey, newTokenFromMessage, parseNewTokenMessage, PUMP_LOGS_SUBSCRIPTION } from './pumpFeed';
+import { createEventToMessage, decodePumpLogs } from './pumpEvents';
+import { WebSocketConstructor, WsClient } from './wsClient';
+import { RecordedEvent, serializeEvent, parseRecording } from './recording';
+
+// Node-only: used by the CLI `record` / `backtest` commands, never by the dashboard.
+
+// === ROTATING NDJSON WRITER ===
+
+export interface RecordingFileInfo {
+    file: string;
+    startTime: number;
+    endTime: number;
+    events: number;
+    bytes: number; // Uncompressed
+}
+
+export interface RecordingIndex {
+    version: 1;
+    gzip: boolean;
+    files: RecordingFileInfo[];
+}
+
+export interface RecordingWriterOptions {
+    dir: string;
+    prefix?: string; // File name prefix (default "pump")
+    gzip?: boolean;
+    maxBytes?: number; // Rotate after this many uncompressed bytes (default 64 MB)
+    maxDurationMs?: number; // Rotate after this long (default 1 hour)
+}
+
+const INDEX_FILE = 'index.json';
+
+const fileStamp = (t: number) => new Date(t).toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+
+/**
+ * Recording Writer
+ * Appends events to newline-delimited JSON files (optionally gzip), rotating by size/age
+ * and keeping `index.json` up to date so readers know which files cover which time range.
+ */
+export class RecordingWriter {
+    private options: Required<RecordingWriterOptions>;
+    private index: RecordingIndex;
+    private current: RecordingFileInfo | null = null;
+    private fileStream: WriteStream | null = null;
+    private gzipStream: Gzip | null = null;
+    private closing: Promise<void>[] = [];
+
+    constructor(options: RecordingWriterOptions) {
+        this.options = {
+            prefix: 'pump',
+            gzip: false,
+            maxBytes: 64 * 1024 * 1024,
+            maxDurationMs: 60 * 60 * 1000,
+            ...options
+        };
+        mkdirSync(this.options.dir, { recursive: true });
+
+        const indexPath = join(this.options.dir, INDEX_FILE);
+        this.index = existsSync(indexPath)
+            ? JSON.parse(readFileSync(indexPath, 'utf8'))
+            : { version: 1, gzip: this.options.gzip, files: [] };
+    }
+
+    get stats() {
+        return {
+            files: this.index.files.length,
+            events: this.index.files.reduce((sum, f) => sum + f.events, 0),
+            currentFile: this.current?.file
+        };
+    }
+
+    write(event: RecordedEvent) {
+        if (this.current && (this.current.bytes >= this.options.maxBytes || event.t - this.current.startTime >= this.options.maxDurationMs)) {
+            this.rotate();
+        }
+        if (!this.current) this.open(event.t);
+
+        const line = serializeEvent(event) + '\n';
+        (this.gzipStream || this.fileStream)!.write(line);
+        this.current!.events++;
+        this.current!.bytes += Buffer.byteLength(line);
+        this.current!.endTime = event.t;
+    }
+
+    /** Push buffered data to disk and refresh the index (call periodically) */
+    flush() {
+        this.gzipStream?.flush();
+        this.writeIndex();
+    }
+
+    rotate() {
+        if (!this.current) return;
+        const fileStream = this.fileStream!;
+        this.closing.push(new Promise(resolve => fileStream.on('close', () => resolve())));
+        if (this.gzipStream) this.gzipStream.end();
+        else fileStream.end();
+
+        this.current = null;
+        this.fileStream = null;
+        this.gzipStream = null;
+        this.writeIndex();
+    }
+
+    async close() {
+        this.rotate();
+        await Promise.all(this.closing);
+        this.closing = [];
+        this.writeIndex();
+    }
+
+    private open(startTime: number) {
+        const ext = this.options.gzip ? '.ndjson.gz' : '.ndjson';
+        const seq = String(this.index.files.length + 1).padStart(4, '0');
+        const file = `${this.options.prefix}-${fileStamp(startTime)}-${seq}${ext}`;
+
+        this.fileStream = createWriteStream(join(this.options.dir, file), { flags: 'a' });
+        if (this.options.gzip) {
+            this.gzipStream = createGzip();
+            this.gzipStream.pipe(this.fileStream);
+        }
+        this.current = { file, startTime, endTime: startTime, events: 0, bytes: 0 };
+        this.index.files.push(this.current);
+        this.writeIndex();
+    }
+
+    private writeIndex() {
+        writeFileSync(join(this.options.dir, INDEX_FILE), JSON.stringify(this.index, null, 2));
+    }
+}
+
+/**
+ * Load a recording for replay: a single `.ndjson` / `.ndjson.gz` file, or a recorder
+ * directory (files are read in index order). Truncated gzip tails are tolerated.
+ */
+export const loadRecording = (path: string): RecordedEvent[] => {
+    const readText = (file: string) => {
+        const raw = readFileSync(file);
+        if (!file.endsWith('.gz')) return raw.toString('utf8');
+        return gunzipSync(raw, { finishFlush: zlibConstants.Z_SYNC_FLUSH }).toString('utf8');
+    };
+
+    // A crash can leave a half-written last line; drop it rather than failing the whole replay
+    const dropPartialTail = (text: string) => {
+        const lines = text.split('\n');
+        const last = lines[lines.length - 1];
+        if (last.trim()) {
+            try { JSON.parse(last); } catch { lines.pop(); }
+        }
+        return lines.join('\n');
+    };
+
+    if (!statSync(path).isDirectory()) return parseRecording(dropPartialTail(readText(path)));
+
+    const index: RecordingIndex = JSON.parse(readFileSync(join(path, INDEX_FILE), 'utf8'));
+    return parseRecording(index.files.map(f => dropPartialTail(readText(join(path, f.file)))).join('\n'));
+};
+
+// === MARKET RECORDER ===
+
+export interface MarketRecorderOptions {
+    writer: RecordingWriter;
+    connection: Connection;
+    heliusKey?: string;
+    WebSocketImpl?: WebSocketConstructor;
+    trackDurationMs?: number; // Follow trades/curve of each new mint this long (default 10 min)
+    snapshotIntervalMs?: number; // getPumpData cadence (default 5s)
+    maxSnapshotsPerInterval?: number; // RPC budget per interval (default 20)
+    onLog?: (msg: string) => void;
+}
+
+/**
+ * Market Recorder
+ * Subscribes to the new-token stream LiveFeed uses (subscribeNewToken) plus per-mint trade
+ * streams (subscribeTokenTrade, or the pump.fun program's logs with a Helius key), records
+ * every message with its receive time,
+ * and snapshots `getPumpData` for tracked mints so curve state can be replayed.
+ * Disconnects are retried by WsClient, which restores the trade subscriptions; the length of
+ * each gap is logged so a recording with holes can be recognised.
+ */
+export class MarketRecorder {
+    private options: MarketRecorderOptions;
+    private client: WsClient | null = null;
+    private tracked = new Map<string, number>(); // mint -> tracked since
+    private dirty = new Set<string>(); // mints with activity since their last snapshot
+    private snapshotTimer: ReturnType<typeof setInterval> | null = null;
+    private isSnapshotting = false;
+    private stopped = true;
+    private counts = { tokens: 0, trades: 0, snapshots: 0 };
+
+    constructor(options: MarketRecorderOptions) {
+        this.options = options;
+    }
+
+    get stats() {
+        return { ...this.counts, tracked: this.tracked.size };
+    }
+
+    start() {
+        if (!this.stopped) return;
+        this.stopped = false;
+        this.connect();
+        this.snapshotTimer = setInterval(() => { this.snapshot(); }, this.options.snapshotIntervalMs || 5000);
+    }
+
+    async stop() {
+        this.stopped = true;
+        if (this.snapshotTimer) clearInterval(this.snapshotTimer);
+        this.snapshotTimer = null;
+        this.client?.close();
+        this.client = null;
+        await this.options.writer.close();
+    }
+
+    private log(msg: string) {
+        this.options.onLog?.(msg);
+    }
+
+    private connect() {
+        this.client = new WsClient({
+            url: getFeedUrl(this.options.heliusKey),
+            WebSocketImpl: this.options.WebSocketImpl,
+            onMessage: (raw) => this.handleMessage(raw),
+            onStatus: (status, attempt) => {
+                if (this.stopped) return;
+                if (status === 'connected') this.log('📡 Recorder connected');
+                else if (status === 'reconnecting') this.log(`📡 Recorder disconnected. Reconnecting (attempt ${attempt})...`);
+            },
+            onGap: (gap) => this.log(`⚠️ Feed gap: ${(gap.durationMs / 1000).toFixed(1)}s without data (${gap.reason})`)
+        });
+        if (isHeliusKey(this.options.heliusKey)) this.client.subscribe('pumpLogs', PUMP_LOGS_SUBSCRIPTION);
+        else this.client.subscribe('newToken', { method: "subscribeNewToken" });
+    }
+
+    private subscribeTrades(mint: string) {
+        if (isHeliusKey(this.options.heliusKey)) return; // The program log stream already carries every trade
+        this.client?.subscribe(`trades:${mint}`, { method: "subscribeTokenTrade", keys: [mint] }, { method: "unsubscribeTokenTrade", keys: [mint] });
+    }
+
+    private handleMessage(raw: string) {
+        const t = Date.now();
+        let data: any;
+        try { data = JSON.parse(raw); } catch { return; }
+
+        if (data.method === 'logsNotification') {
+            this.handleLogs(data, t);
+            return;
+        }
+
+        if (data.txType === 'create' || (data.mint && !data.txType)) {
+            const token = parseNewTokenMessage(raw);
+            if (!token) return;
+            this.options.writer.write({ type: 'token', t, token: { ...token, timestamp: t } });
+            this.counts.tokens++;
+            this.track(token.mint, t);
+            return;
+        }
+
+        if (data.mint) {
+            this.options.writer.write({ type: 'trade', t, mint: data.mint, data });
+            this.counts.trades++;
+            if (this.tracked.has(data.mint)) this.dirty.add(data.mint);
+        }
+    }
+
+    /** Program logs: launches become token events; transactions trading a tracked mint are kept raw */
+    private handleLogs(data: any, t: number) {
+        const value = data.params?.result?.value;
+        if (!value || value.err || !Array.isArray(value.logs)) return;
+
+        const events = decodePumpLogs(value.logs);
+        for (const event of events) {
+            if (event.kind !== 'create') continue;
+            const firstBuy = events.find(e => e.kind === 'trade' && e.mint === event.mint && e.isBuy);
+            const token = newTokenFromMessage(createEventToMessage(event, firstBuy?.kind === 'trade' ? firstBuy : undefined, value.signature));
+            if (!token) continue;
+            this.options.writer.write({ type: 'token', t, token: { ...token, timestamp: t } });
+            this.counts.tokens++;
+            this.track(token.mint, t);
+        }
+
+        const traded = events.find(e => e.kind === 'trade' && this.tracked.has(e.mint));
+        if (!traded) return;
+        this.options.writer.write({ type: 'trade', t, mint: traded.mint, data });
+        this.counts.trades++;
+        this.dirty.add(traded.mint);
+    }
+
+    private track(mint: string, t: number) {
+        if (this.tracked.has(mint)) return;
+        this.tracked.set(mint, t);
+        this.dirty.add(mint);
+        this.subscribeTrades(mint);
+    }
+
+    /** Snapshot curves of mints that traded since their last snapshot, then expire old mints */
+    private async snapshot() {
+        if (this.isSnapshotting) return;
+        this.isSnapshotting = true;
+        try {
+            const budget = this.options.maxSnapshotsPerInterval || 20;
+            const batch = Array.from(this.dirty).slice(0, budget);
+            for (const mint of batch) {
+                this.dirty.delete(mint);
+                const curve = await getPumpData(mint, this.options.connection);
+                if (this.stopped) return;
+                if (!curve) continue;
+                this.options.writer.write({ type: 'curve', t: Date.now(), mint, curve });
+                this.counts.snapshots++;
+            }
+
+            const expiry = Date.now() - (this.options.trackDurationMs || 10 * 60 * 1000);
+            const expired = Array.from(this.tracked.entries()).filter(([, since]) => since < expiry).map(([mint]) => mint);
+            if (expired.length > 0) {
+                expired.forEach(mint => {
+                    this.tracked.delete(mint);
+                    this.dirty.delete(mint);
+                    this.client?.unsubscribe(`trades:${mint}`);
+                });
+            }
+
+            this.options.writer.flush();
+        } finally {
+            this.isSnapshotting = false;
+        }
+    }
+}
@@ -0,0 +1,174 @@
+import { Keypair } from '@solana/web3.js';
+import { now, sleep } from './clock';
+import { TransactionFill } from './fillParser';
+import { ExecutionBackend } from './executionBackend';
+import { TradeError, TradeErrorCode } from './tradeErrors';
+
+/**
+ * Order Lifecycle
+ * Every live buy/sell is an explicit order: pending (being built) -> sent (signed with a
+ * blockhash we track) -> confirmed / failed / expired. While sent, the signed transaction
+ * is re-broadcast until it lands or its blockhash expires (txSender.ts). An expired
+ * attempt is rebuilt from a fresh quote with a higher priority fee and wider slippage
+ * (within the RetryPolicy bounds) and sent again; `expired` means every attempt expired
+ * and the order was given up. A transaction rejected by the preflight simulation is
+ * retried, re-quoted or failed depending on the decoded reason (tradeErrors.ts). The fill
+ * is parsed from the confirmed transaction (see fillParser.ts). Sending and confirming go
+ * through the selected ExecutionBackend.
+ */
+
+export type OrderState = 'pending' | 'sent' | 'confirmed' | 'failed' | 'expired';
+
+export interface Order {
+    id: string;
+    mint: string;
+    side: 'buy' | 'sell';
+    state: OrderState;
+    signature?: string;
+    blockhash?: string;
+    lastValidBlockHeight?: number; // The transaction can't land after this block
+    rawTransaction?: string; // Signed transaction of the current attempt (dropped once final)
+    attempts: number; // Transactions sent so far
+    createdAt: number;
+    updatedAt: number;
+    fill?: TransactionFill;
+    error?: string;
+    errorCode?: TradeErrorCode; // Decoded reason of a failure
+}
+
+export interface RetryPolicy {
+    maxAttempts: number; // Builds before the order is given up (expired, or failed after rejected simulations)
+    rebroadcastMs: number; // Re-send interval for a signed transaction that hasn't landed
+    feeMultiplier: number; // Priority fee x this for every rebuild...
+    maxPriorityFee: number; // ...up to this (SOL)
+    slippageStep: number; // Slippage + this many points for every rebuild...
+    maxSlippage: number; // ...up to this (%)
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    rebroadcastMs: 2000,
+    feeMultiplier: 1.5,
+    maxPriorityFee: 0.01,
+    slippageStep: 10,
+    maxSlippage: 50
+};
+
+/** Priority fee and slippage for a (re)build: attempt 0 is the base, later ones escalate within the policy bounds */
+export const escalate = (base: { priorityFee: number; slippage: number }, attempt: number, policy: RetryPolicy) => ({
+    priorityFee: Math.max(base.priorityFee, Math.min(policy.maxPriorityFee, base.priorityFee * Math.pow(policy.feeMultiplier, attempt))),
+    slippage: Math.max(base.slippage, Math.min(policy.maxSlippage, base.slippage + policy.slippageStep * attempt))
+});
+
+export interface OrderOptions {
+    backend: ExecutionBackend;
+    wallet: Keypair;
+    build: (attempt: number) => Promise<Uint8Array>; // Unsigned transaction for attempt 0, 1, ... (see `escalate`)
+    retry?: Partial<RetryPolicy>;
+    onUpdate?: (order: Order) => void; // Called on every state change
+    onBroadcast?: (order: Order, count: number) => void; // Called on every re-broadcast of the current attempt
+    onRejected?: (order: Order, reason: TradeError) => void; // Simulation failed; the order retries or re-quotes
+}
+
+const RETRY_DELAY_MS = 1000;
+
+// sent -> sent is a re-send after the blockhash expired
+const TRANSITIONS: Record<OrderState, OrderState[]> = {
+    pending: ['sent', 'failed'],
+    sent: ['sent', 'confirmed', 'failed', 'expired'],
+    confirmed: [],
+    failed: [],
+    expired: []
+};
+
+export class OrderStateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OrderStateError';
+    }
+}
+
+export const isOrderFinal = (order: Order) => TRANSITIONS[order.state].length === 0;
+
+let orderSeq = 0;
+
+export const createOrder = (mint: string, side: Order['side']): Order => {
+    const t = now();
+    return { id: `${side}-${t}-${++orderSeq}`, mint, side, state: 'pending', attempts: 0, createdAt: t, updatedAt: t };
+};
+
+/** Move an order to `state`; throws OrderStateError on a transition the lifecycle doesn't allow */
+export const transition = (order: Order, state: OrderState, patch: Partial<Order> = {}): Order => {
+    if (!TRANSITIONS[order.state].includes(state)) {
+        throw new OrderStateError(`Order ${order.id}: ${order.state} -> ${state} is not allowed`);
+    }
+    return { ...order, ...patch, state, updatedAt: now() };
+};
+
+// === EXECUTION ===
+
+const report = (order: Order, options: OrderOptions) => {
+    if (isOrderFinal(order)) delete order.rawTransaction;
+    options.onUpdate?.(order);
+    return order;
+};
+
+/**
+ * Build, sign with a fresh blockhash and send: -> sent, or failed.
+ * A rejected simulation is retried as is (`retry`) or rebuilt one escalation step further
+ * (`requote`) while builds are left; `abort` reasons and other errors fail the order.
+ */
+export const sendOrder = async (order: Order, options: OrderOptions): Promise<Order> => {
+    const policy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    let step = order.attempts;
+    let builds = 0;
+
+    while (true) {
+        try {
+            builds++;
+            const submitted = await options.backend.submit(await options.build(step), options.wallet);
+            return report(transition(order, 'sent', { ...submitted, attempts: order.attempts + 1 }), options);
+        } catch (error: any) {
+            const reason = error instanceof TradeError ? error : null;
+            if (reason && reason.action !== 'abort' && order.attempts + builds < policy.maxAttempts) {
+                options.onRejected?.(order, reason);
+                if (reason.action === 'requote') step++;
+                else await sleep(RETRY_DELAY_MS);
+                continue;
+            }
+            return report(transition(order, 'failed', { error: error.message || 'Send failed', errorCode: reason?.code }), options);
+        }
+    }
+};
+
+/** Wait for a sent order to land, re-sending on blockhash expiry: -> confirmed, failed or expired */
+export const confirmOrder = async (order: Order, options: OrderOptions): Promise<Order> => {
+    const policy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+
+    while (order.state === 'sent') {
+        const attempt = order;
+        const outcome = await options.backend.confirm({
+            signature: attempt.signature!,
+            blockhash: attempt.blockhash!,
+            lastValidBlockHeight: attempt.lastValidBlockHeight!,
+            rawTransaction: attempt.rawTransaction
+        }, options.wallet.publicKey, attempt.mint, {
+            intervalMs: policy.rebroadcastMs,
+            onBroadcast: count => options.onBroadcast?.(attempt, count)
+        });
+
+        if (outcome.status === 'confirmed') return report(transition(order, 'confirmed', outcome.fill ? { fill: outcome.fill } : {}), options);
+        if (outcome.status === 'failed') return report(transition(order, 'failed', { error: outcome.error, errorCode: outcome.reason?.code }), options);
+
+        // The expired transaction can no longer land, so a re-send can't double-fill
+        if (order.attempts >= policy.maxAttempts) {
+            return report(transition(order, 'expired', { error: `Gave up: not confirmed after ${order.attempts} attempt(s)` }), options);
+        }
+        order = await sendOrder(order, options);
+    }
+    return order;
+};
+
+/** Send and wait for the final state */
+export const submitOrder = async (order: Order, options: OrderOptions): Promise<Order> =>
+    confirmOrder(await sendOrder(order, options), options);
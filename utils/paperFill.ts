@@ -0,0 +1,175 @@
+import { Connection } from '@solana/web3.js';
+import { getPumpData } from './solanaManager';
+import { sleep } from './clock';
+import { BondingCurveState, curveFromPrice, curveFromPumpData, quoteBuy, quoteSell, DEFAULT_FEE_BPS } from './bondingCurve';
+
+/**
+ * Paper Fill Simulator
+ * Fills demo orders the way the chain would: quote against the live curve reserves when the
+ * order is sent, wait out the submission latency, re-read the curve and fill against that
+ * (with the same slippage check the program enforces), paying protocol fee, network fees and rent.
+ */
+
+export interface PaperFillConfig {
+    feeBps: number; // Protocol fee on the SOL side (default 1%)
+    baseFeeSol: number; // Signature fee per transaction
+    priorityFeeSol?: number; // Fixed priority fee; unset = same sizing as live orders
+    rentSol: number; // Token account rent, paid on buy and reclaimed on full exit
+    latencyMs: number; // Order sent -> landed
+    slotMs: number; // Slot duration
+    slotFailureRate: number; // Chance (0-1) a pending transaction is dropped in each slot it waits
+}
+
+export const DEFAULT_PAPER_FILL_CONFIG: PaperFillConfig = {
+    feeBps: DEFAULT_FEE_BPS,
+    baseFeeSol: 0.000005,
+    rentSol: 0.00204,
+    latencyMs: 800,
+    slotMs: 400,
+    slotFailureRate: 0.02
+};
+
+export interface PaperFill {
+    ok: boolean;
+    error?: string;
+    tokens: number; // UI tokens bought / sold
+    solAmount: number; // Buy: total SOL spent. Sell: net SOL received (after fees, rent reclaimed)
+    price: number; // Average curve price, protocol fee included
+    protocolFee: number;
+    networkFee: number; // Base + priority fee (also paid when a landed transaction fails)
+    rent: number; // Paid (buy) or reclaimed (sell)
+    priceImpact: number; // % vs spot at fill time
+    slots: number; // Slots the transaction waited before landing
+}
+
+export interface PaperBuyRequest {
+    mint: string;
+    amountSol: number; // Total budget: curve + fees + rent
+    slippage: number; // %
+    priorityFee: number; // Live-equivalent priority fee (used unless the config fixes one)
+    fallbackPrice?: number; // Feed price when the curve account can't be read
+}
+
+export interface PaperSellRequest {
+    mint: string;
+    tokens: number;
+    slippage: number;
+    priorityFee: number;
+    fallbackPrice?: number;
+    closeAccount: boolean; // Full exit: token account is closed and rent comes back
+}
+
+/** Small deterministic PRNG (mulberry32) so replays draw the same failures */
+export const seededRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const failed = (error: string, networkFee: number, slots: number): PaperFill => ({
+    ok: false, error, tokens: 0, solAmount: 0, price: 0, protocolFee: 0, networkFee, rent: 0, priceImpact: 0, slots
+});
+
+export class PaperFillSimulator {
+    private config: PaperFillConfig;
+    private random: () => number;
+
+    constructor(config: Partial<PaperFillConfig> = {}, random: () => number = Math.random) {
+        this.config = { ...DEFAULT_PAPER_FILL_CONFIG, ...config };
+        this.random = random;
+    }
+
+    setConfig(config: Partial<PaperFillConfig>) { this.config = { ...this.config, ...config }; }
+    getConfig(): PaperFillConfig { return this.config; }
+
+    async buy(request: PaperBuyRequest, connection: Connection): Promise<PaperFill> {
+        const config = this.config;
+        const networkFee = this.networkFee(request.priorityFee);
+        const solForCurve = request.amountSol - networkFee - config.rentSol;
+        if (solForCurve <= 0) return failed('Amount does not cover fees and rent', 0, 0);
+
+        const quoted = await this.readCurve(request.mint, connection, request.fallbackPrice);
+        if (!quoted) return failed('No valid price', 0, 0);
+        const expected = quoteBuy(quoted, solForCurve, config.feeBps);
+        if (expected.tokensOut <= 0) return failed('Curve has no tokens left', 0, 0);
+
+        const slots = await this.waitForSlot();
+        if (slots < 0) return failed('Transaction dropped before landing', 0, -slots);
+
+        const curve = (await this.readCurve(request.mint, connection)) || quoted;
+        if (curve.complete) return failed('Bonding curve complete', networkFee, slots);
+        const actual = quoteBuy(curve, solForCurve, config.feeBps);
+        // Same guard as the program's max SOL cost: the price moved more than the slippage allows
+        if (actual.tokensOut < expected.tokensOut * (1 - request.slippage / 100)) {
+            return failed('Slippage exceeded (TooMuchSolRequired)', networkFee, slots);
+        }
+
+        return {
+            ok: true,
+            tokens: actual.tokensOut,
+            solAmount: actual.solIn + networkFee + config.rentSol,
+            price: actual.avgPrice,
+            protocolFee: actual.fee,
+            networkFee,
+            rent: config.rentSol,
+            priceImpact: actual.priceImpact,
+            slots
+        };
+    }
+
+    async sell(request: PaperSellRequest, connection: Connection): Promise<PaperFill> {
+        const config = this.config;
+        const networkFee = this.networkFee(request.priorityFee);
+
+        const quoted = await this.readCurve(request.mint, connection, request.fallbackPrice);
+        if (!quoted) return failed('No valid price', 0, 0);
+        const expected = quoteSell(quoted, request.tokens, config.feeBps);
+
+        const slots = await this.waitForSlot();
+        if (slots < 0) return failed('Transaction dropped before landing', 0, -slots);
+
+        const curve = (await this.readCurve(request.mint, connection)) || quoted;
+        if (curve.complete) return failed('Bonding curve complete', networkFee, slots);
+        const actual = quoteSell(curve, request.tokens, config.feeBps);
+        if (actual.solOut < expected.solOut * (1 - request.slippage / 100)) {
+            return failed('Slippage exceeded (TooLittleSolReceived)', networkFee, slots);
+        }
+
+        const rent = request.closeAccount ? config.rentSol : 0;
+        return {
+            ok: true,
+            tokens: actual.tokensIn,
+            solAmount: actual.solOut - networkFee + rent,
+            price: actual.avgPrice,
+            protocolFee: actual.fee,
+            networkFee,
+            rent,
+            priceImpact: actual.priceImpact,
+            slots
+        };
+    }
+
+    private networkFee(priorityFee: number) {
+        return this.config.baseFeeSol + (this.config.priorityFeeSol ?? priorityFee);
+    }
+
+    private async readCurve(mint: string, connection: Connection, fallbackPrice?: number): Promise<BondingCurveState | null> {
+        const data = await getPumpData(mint, connection);
+        if (data && data.vTokensInBondingCurve > 0) return curveFromPumpData(data);
+        return fallbackPrice && fallbackPrice > 0 ? curveFromPrice(fallbackPrice) : null;
+    }
+
+    /** Wait out the latency; returns the slots waited, negated if the transaction was dropped */
+    private async waitForSlot(): Promise<number> {
+        const { latencyMs, slotMs, slotFailureRate } = this.config;
+        await sleep(latencyMs);
+        const slots = Math.max(1, Math.ceil(latencyMs / slotMs));
+        const landed = Math.pow(1 - Math.min(Math.max(slotFailureRate, 0), 1), slots);
+        return this.random() < landed ? slots : -slots;
+    }
+}
@@ -0,0 +1,69 @@
+import { Connection } from '@solana/web3.js';
+import { decodePumpData, getBondingCurveAddress } from './solanaManager';
+import { FeedAdapter, FeedSource, MarketBus } from './marketBus';
+
+/**
+ * Price Stream
+ * accountSubscribe (`onAccountChange`) on the bonding-curve PDA of every open position.
+ * Each push carries the full curve account, so reserves are decoded straight from it -
+ * no follow-up RPC read - and published to the market bus as CurveUpdated. The engine prices
+ * and checks exits for that one mint on every change; its polling tick only re-reads
+ * positions whose stream has gone quiet.
+ */
+
+interface Subscription {
+    id: number;
+    connection: Connection;
+}
+
+export class PriceStream implements FeedAdapter {
+    readonly source: FeedSource = 'rpc';
+    private subscriptions = new Map<string, Subscription>();
+
+    constructor(private bus: MarketBus, private onError?: (mint: string, error: unknown) => void) { }
+
+    /** Subscribe to exactly `mints` on `connection` (re-subscribing if the connection changed) */
+    sync(mints: string[], connection: Connection) {
+        const wanted = new Set(mints);
+        this.subscriptions.forEach((sub, mint) => {
+            if (!wanted.has(mint) || sub.connection !== connection) this.unsubscribe(mint);
+        });
+        wanted.forEach(mint => {
+            if (!this.subscriptions.has(mint)) this.subscribe(mint, connection);
+        });
+    }
+
+    has(mint: string) {
+        return this.subscriptions.has(mint);
+    }
+
+    get size() {
+        return this.subscriptions.size;
+    }
+
+    close() {
+        Array.from(this.subscriptions.keys()).forEach(mint => this.unsubscribe(mint));
+    }
+
+    private subscribe(mint: string, connection: Connection) {
+        try {
+            const id = connection.onAccountChange(getBondingCurveAddress(mint), (account, context) => {
+                try {
+                    this.bus.publish('CurveUpdated', { mint, data: decodePumpData(account.data), slot: context.slot, source: this.source });
+                } catch (error) {
+                    this.onError?.(mint, error); // Not a bonding curve (migrated or closed)
+                }
+            }, 'processed');
+            this.subscriptions.set(mint, { id, connection });
+        } catch (error) {
+            this.onError?.(mint, error);
+        }
+    }
+
+    private unsubscribe(mint: string) {
+        const sub = this.subscriptions.get(mint);
+        if (!sub) return;
+        this.subscriptions.delete(mint);
+        sub.connection.removeAccountChangeListener(sub.id).catch(() => { });
+    }
+}
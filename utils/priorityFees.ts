@@ -0,0 +1,101 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { now } from './clock';
+import { getBondingCurveAddress } from './solanaManager';
+import { LAMPORTS_PER_SOL } from './bondingCurve';
+import { BUY_COMPUTE_UNITS, DEFAULT_FEE_RECIPIENT, SELL_COMPUTE_UNITS } from './pumpProgram';
+
+/**
+ * Priority Fee Estimator
+ * Sizes an order's priority fee from what recent transactions writing the same pump.fun
+ * accounts (the token's bonding curve and the protocol fee recipient every trade pays)
+ * were charged, via getRecentPrioritizationFees over the last ~150 slots. The percentile
+ * depends on urgency: stop losses and rug exits have to land now, take-profits can wait
+ * a slot. The result is capped in SOL; when sampling fails the caller's fallback is used.
+ */
+
+export type FeeUrgency = 'low' | 'normal' | 'urgent';
+
+export interface PriorityFeeConfig {
+    capSol: number; // Never pay more than this per transaction
+    floorSol: number; // ...or less than this
+    percentiles: Record<FeeUrgency, number>;
+    cacheMs: number; // Reuse a token's samples this long
+}
+
+export const DEFAULT_PRIORITY_FEE_CONFIG: PriorityFeeConfig = {
+    capSol: 0.005,
+    floorSol: 0.00005,
+    percentiles: { low: 25, normal: 50, urgent: 90 },
+    cacheMs: 10_000
+};
+
+export interface PriorityFeeEstimate {
+    sol: number; // Total priority fee for the transaction
+    urgency: FeeUrgency;
+    source: 'sampled' | 'fallback';
+    percentile?: number;
+    capped: boolean;
+}
+
+/** Nearest-rank percentile of a list of numbers (0 for an empty list) */
+export const percentile = (values: number[], p: number): number => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = Math.ceil((Math.min(Math.max(p, 0), 100) / 100) * sorted.length);
+    return sorted[Math.max(0, rank - 1)];
+};
+
+export class PriorityFeeEstimator {
+    private config: PriorityFeeConfig;
+    private samples = new Map<string, { fees: number[]; at: number }>(); // mint -> micro-lamports per CU
+
+    constructor(config: Partial<PriorityFeeConfig> = {}) {
+        this.config = DEFAULT_PRIORITY_FEE_CONFIG;
+        this.setConfig(config);
+    }
+
+    setConfig(config: Partial<PriorityFeeConfig>) {
+        this.config = { ...this.config, ...config, percentiles: { ...this.config.percentiles, ...config.percentiles } };
+    }
+    getConfig(): PriorityFeeConfig { return this.config; }
+
+    /** Priority fee (SOL) for one pump.fun transaction; `fallbackSol` is used when no samples come back */
+    async estimate(
+        request: { mint: string; side: 'buy' | 'sell'; urgency: FeeUrgency; fallbackSol: number },
+        connection: Connection
+    ): Promise<PriorityFeeEstimate> {
+        const { capSol, floorSol, percentiles } = this.config;
+        const fees = await this.sample(request.mint, connection);
+
+        let sol = request.fallbackSol;
+        let source: PriorityFeeEstimate['source'] = 'fallback';
+        let p: number | undefined;
+        if (fees.length > 0) {
+            p = percentiles[request.urgency];
+            const units = request.side === 'buy' ? BUY_COMPUTE_UNITS : SELL_COMPUTE_UNITS;
+            // fee = price (micro-lamports per CU) * units
+            sol = (percentile(fees, p) * units) / 1_000_000 / LAMPORTS_PER_SOL;
+            source = 'sampled';
+        }
+
+        const capped = sol > capSol;
+        return { sol: Math.min(capSol, Math.max(floorSol, sol)), urgency: request.urgency, source, percentile: p, capped };
+    }
+
+    private async sample(mint: string, connection: Connection): Promise<number[]> {
+        const cached = this.samples.get(mint);
+        if (cached && now() - cached.at < this.config.cacheMs) return cached.fees;
+
+        try {
+            const lockedWritableAccounts: PublicKey[] = [DEFAULT_FEE_RECIPIENT];
+            if (!mint.startsWith('SIM')) lockedWritableAccounts.push(getBondingCurveAddress(mint));
+            const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts });
+            const fees = recent.map(entry => entry.prioritizationFee);
+            this.samples.set(mint, { fees, at: now() });
+            if (this.samples.size > 200) this.samples.delete(this.samples.keys().next().value!);
+            return fees;
+        } catch (error) {
+            return [];
+        }
+    }
+}
@@ -0,0 +1,246 @@
+import { PublicKey } from '@solana/web3.js';
+import { BondingCurveState, LAMPORTS_PER_SOL, TOKEN_DECIMALS, TOKEN_TOTAL_SUPPLY, curveFromReserves, priceFromReserves } from './bondingCurve';
+import { PUMP_PROGRAM_ID } from './pumpProgram';
+
+/**
+ * Pump.fun Event Decoder
+ * The program emits Anchor events as `Program data: <base64>` log lines: an 8-byte
+ * discriminator (sha256("event:<Name>")[0..8]) followed by the Borsh-encoded fields.
+ * Decoding them from a `logsSubscribe` notification gives launches, trades and
+ * graduations with full data - no follow-up RPC read. Fields added in later program
+ * versions (creator, real reserves) are read only when present.
+ */
+
+export interface PumpCreateEvent {
+    kind: 'create';
+    name: string;
+    symbol: string;
+    uri: string;
+    mint: string;
+    bondingCurve: string;
+    user: string;
+    creator?: string;
+    timestamp?: number; // ms
+    virtualTokenReserves?: bigint;
+    virtualSolReserves?: bigint;
+    realTokenReserves?: bigint;
+    tokenTotalSupply?: bigint;
+}
+
+export interface PumpTradeEvent {
+    kind: 'trade';
+    mint: string;
+    solAmount: bigint; // lamports
+    tokenAmount: bigint; // raw units
+    isBuy: boolean;
+    user: string;
+    timestamp: number; // ms
+    virtualSolReserves: bigint;
+    virtualTokenReserves: bigint;
+    realSolReserves?: bigint;
+    realTokenReserves?: bigint;
+}
+
+export interface PumpCompleteEvent {
+    kind: 'complete';
+    user: string;
+    mint: string;
+    bondingCurve: string;
+    timestamp: number; // ms
+}
+
+export type PumpEvent = PumpCreateEvent | PumpTradeEvent | PumpCompleteEvent;
+
+const CREATE_EVENT = [27, 114, 169, 77, 222, 235, 99, 118];
+const TRADE_EVENT = [189, 219, 127, 211, 78, 230, 97, 238];
+const COMPLETE_EVENT = [95, 114, 97, 156, 212, 46, 152, 8];
+
+const PROGRAM_DATA = 'Program data: ';
+const PUMP_PROGRAM = PUMP_PROGRAM_ID.toBase58();
+
+// === BORSH READER ===
+
+class Reader {
+    private offset = 8; // Past the discriminator
+    private view: DataView;
+
+    constructor(private data: Uint8Array) {
+        this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    get remaining() { return this.data.length - this.offset; }
+
+    u64() {
+        const value = this.view.getBigUint64(this.offset, true);
+        this.offset += 8;
+        return value;
+    }
+
+    i64() {
+        const value = this.view.getBigInt64(this.offset, true);
+        this.offset += 8;
+        return value;
+    }
+
+    bool() {
+        return this.data[this.offset++] === 1;
+    }
+
+    pubkey() {
+        const key = new PublicKey(this.data.subarray(this.offset, this.offset + 32)).toBase58();
+        this.offset += 32;
+        return key;
+    }
+
+    string() {
+        const length = this.view.getUint32(this.offset, true);
+        this.offset += 4;
+        if (length > this.remaining) throw new RangeError('String past end of event');
+        const value = new TextDecoder().decode(this.data.subarray(this.offset, this.offset + length));
+        this.offset += length;
+        return value;
+    }
+}
+
+const matches = (data: Uint8Array, discriminator: number[]) => discriminator.every((byte, i) => data[i] === byte);
+
+/** Decode one Anchor event payload; null if it isn't a pump.fun event or is truncated */
+export const decodePumpEvent = (data: Uint8Array): PumpEvent | null => {
+    if (data.length < 8) return null;
+    const reader = new Reader(data);
+    try {
+        if (matches(data, CREATE_EVENT)) {
+            const event: PumpCreateEvent = {
+                kind: 'create',
+                name: reader.string(),
+                symbol: reader.string(),
+                uri: reader.string(),
+                mint: reader.pubkey(),
+                bondingCurve: reader.pubkey(),
+                user: reader.pubkey()
+            };
+            if (reader.remaining >= 32 + 8 * 5) { // creator, timestamp, 4 x u64
+                event.creator = reader.pubkey();
+                event.timestamp = Number(reader.i64()) * 1000;
+                event.virtualTokenReserves = reader.u64();
+                event.virtualSolReserves = reader.u64();
+                event.realTokenReserves = reader.u64();
+                event.tokenTotalSupply = reader.u64();
+            }
+            return event;
+        }
+        if (matches(data, TRADE_EVENT)) {
+            const event: PumpTradeEvent = {
+                kind: 'trade',
+                mint: reader.pubkey(),
+                solAmount: reader.u64(),
+                tokenAmount: reader.u64(),
+                isBuy: reader.bool(),
+                user: reader.pubkey(),
+                timestamp: Number(reader.i64()) * 1000,
+                virtualSolReserves: reader.u64(),
+                virtualTokenReserves: reader.u64()
+            };
+            if (reader.remaining >= 16) {
+                event.realSolReserves = reader.u64();
+                event.realTokenReserves = reader.u64();
+            }
+            return event;
+        }
+        if (matches(data, COMPLETE_EVENT)) {
+            return {
+                kind: 'complete',
+                user: reader.pubkey(),
+                mint: reader.pubkey(),
+                bondingCurve: reader.pubkey(),
+                timestamp: Number(reader.i64()) * 1000
+            };
+        }
+    } catch (e) {
+        return null; // Truncated log line (RPC log limits) or a layout we don't know
+    }
+    return null;
+};
+
+/**
+ * Pump.fun events in a transaction's log lines, in emission order. Only `Program data`
+ * lines emitted while the pump.fun program is the innermost running program are decoded.
+ */
+export const decodePumpLogs = (logs: string[]): PumpEvent[] => {
+    const events: PumpEvent[] = [];
+    const stack: string[] = [];
+    for (const line of logs) {
+        if (line.startsWith('Program ') && line.includes(' invoke [')) {
+            stack.push(line.split(' ')[1]);
+        } else if (line.startsWith('Program ') && (line.endsWith(' success') || line.includes(' failed'))) {
+            stack.pop();
+        } else if (line.startsWith(PROGRAM_DATA) && stack[stack.length - 1] === PUMP_PROGRAM) {
+            const event = decodePumpEvent(Buffer.from(line.slice(PROGRAM_DATA.length), 'base64'));
+            if (event) events.push(event);
+        }
+    }
+    return events;
+};
+
+// === FEED MESSAGES ===
+
+const TOKEN_UNIT = 10 ** TOKEN_DECIMALS;
+
+/** Curve state after a trade; real reserves are derived from the virtual ones on older layouts */
+export const curveFromTradeEvent = (event: PumpTradeEvent): BondingCurveState => {
+    const curve = curveFromReserves(Number(event.virtualSolReserves) / LAMPORTS_PER_SOL, Number(event.virtualTokenReserves));
+    return {
+        ...curve,
+        virtualTokenReserves: event.virtualTokenReserves,
+        virtualSolReserves: event.virtualSolReserves,
+        realTokenReserves: event.realTokenReserves ?? curve.realTokenReserves,
+        realSolReserves: event.realSolReserves ?? curve.realSolReserves
+    };
+};
+
+const marketCapSol = (reserves: { virtualSolReserves: bigint; virtualTokenReserves: bigint }) =>
+    priceFromReserves(Number(reserves.virtualSolReserves) / LAMPORTS_PER_SOL, Number(reserves.virtualTokenReserves))
+    * (Number(TOKEN_TOTAL_SUPPLY) / TOKEN_UNIT);
+
+/**
+ * A decoded trade as PumpPortal's `subscribeTokenTrade` message (SOL, UI token units),
+ * so both feeds go through the same parsers.
+ */
+export const tradeEventToMessage = (event: PumpTradeEvent, signature?: string) => ({
+    signature,
+    mint: event.mint,
+    traderPublicKey: event.user,
+    txType: event.isBuy ? 'buy' : 'sell',
+    tokenAmount: Number(event.tokenAmount) / TOKEN_UNIT,
+    solAmount: Number(event.solAmount) / LAMPORTS_PER_SOL,
+    vTokensInBondingCurve: Number(event.virtualTokenReserves) / TOKEN_UNIT,
+    vSolInBondingCurve: Number(event.virtualSolReserves) / LAMPORTS_PER_SOL,
+    marketCapSol: marketCapSol(event),
+    pool: 'pump'
+});
+
+/**
+ * A decoded launch as PumpPortal's `subscribeNewToken` message. The creator's first buy
+ * (a TradeEvent in the same transaction) supplies `initialBuy` and the post-buy reserves.
+ */
+export const createEventToMessage = (event: PumpCreateEvent, firstBuy?: PumpTradeEvent, signature?: string) => {
+    const reserves = firstBuy || (event.virtualTokenReserves !== undefined && event.virtualSolReserves !== undefined
+        ? { virtualTokenReserves: event.virtualTokenReserves, virtualSolReserves: event.virtualSolReserves }
+        : null);
+    return {
+        signature,
+        mint: event.mint,
+        traderPublicKey: event.user,
+        txType: 'create',
+        initialBuy: firstBuy ? Number(firstBuy.tokenAmount) / TOKEN_UNIT : 0,
+        solAmount: firstBuy ? Number(firstBuy.solAmount) / LAMPORTS_PER_SOL : 0,
+        bondingCurveKey: event.bondingCurve,
+        vTokensInBondingCurve: reserves ? Number(reserves.virtualTokenReserves) / TOKEN_UNIT : 0,
+        vSolInBondingCurve: reserves ? Number(reserves.virtualSolReserves) / LAMPORTS_PER_SOL : 0,
+        marketCapSol: reserves ? marketCapSol(reserves) : 0,
+        name: event.name,
+        symbol: event.symbol,
+        uri: event.uri,
+        pool: 'pump'
+    };
+};
@@ -0,0 +1,187 @@
+import { TokenData } from '../components/LiveFeed';
+import { FeedAdapter, FeedSource, MarketBus, TradeObserved } from './marketBus';
+import { PUMP_PROGRAM_ID } from './pumpProgram';
+import { createEventToMessage, curveFromTradeEvent, decodePumpLogs, tradeEventToMessage } from './pumpEvents';
+import { pumpDataFromCurve } from './solanaManager';
+import { FeedGap, WebSocketConstructor, WsClient, WsStatus } from './wsClient';
+
+export type { FeedGap, WebSocketConstructor };
+
+export type FeedStatus = WsStatus;
+
+export interface PumpFeedOptions {
+    bus: MarketBus;
+    heliusKey?: string;
+    WebSocketImpl?: WebSocketConstructor;
+}
+
+export const isHeliusKey = (heliusKey?: string): heliusKey is string => !!heliusKey && heliusKey.includes('-');
+
+export const getFeedUrl = (heliusKey?: string) =>
+    isHeliusKey(heliusKey) ? `wss://mainnet.helius-rpc.com/?api-key=${heliusKey}` : 'wss://pumpportal.fun/api/data';
+
+/** logsSubscribe on every transaction that touches the pump.fun program */
+export const PUMP_LOGS_SUBSCRIPTION = {
+    jsonrpc: "2.0", id: 1, method: "logsSubscribe",
+    params: [{ mentions: [PUMP_PROGRAM_ID.toBase58()] }, { commitment: "processed" }]
+};
+
+/**
+ * Parse a `subscribeNewToken` message into TokenData.
+ * Returns null for acks and anything that isn't a token event.
+ */
+export const parseNewTokenMessage = (raw: string): TokenData | null => {
+    try {
+        return newTokenFromMessage(JSON.parse(raw));
+    } catch (e) {
+        return null;
+    }
+};
+
+/** `parseNewTokenMessage` for an already-parsed message */
+export const newTokenFromMessage = (data: any): TokenData | null => {
+    if (!data?.mint) return null;
+    const vSol = data.vSolInBondingCurve ? data.vSolInBondingCurve / 1e9 : 0;
+    return { ...data, vSolInBondingCurve: vSol, timestamp: Date.now(), marketCapSol: vSol };
+};
+
+/**
+ * Parse a `subscribeTokenTrade` message into a TradeObserved event.
+ * Returns null for anything that isn't a buy or sell.
+ */
+export const parseTradeMessage = (data: any, source: FeedSource = 'pumpportal'): TradeObserved | null => {
+    if (!data?.mint || (data.txType !== 'buy' && data.txType !== 'sell')) return null;
+    return {
+        mint: data.mint,
+        side: data.txType,
+        solAmount: Number(data.solAmount) || 0,
+        tokenAmount: Number(data.tokenAmount) || 0,
+        trader: data.traderPublicKey || '',
+        signature: data.signature,
+        vSolInBondingCurve: data.vSolInBondingCurve,
+        vTokensInBondingCurve: data.vTokensInBondingCurve,
+        timestamp: Date.now(),
+        source
+    };
+};
+
+/**
+ * PumpPortal feed adapter.
+ * One socket publishes new tokens, migrations and the trades of every watched mint to the
+ * bus; connection status and gaps go out as FeedStatus events. Reconnects on its own.
+ */
+export class PumpPortalFeed implements FeedAdapter {
+    readonly source: FeedSource = 'pumpportal';
+    private bus: MarketBus;
+    private client: WsClient;
+
+    constructor(options: PumpFeedOptions) {
+        this.bus = options.bus;
+        this.client = new WsClient({
+            url: getFeedUrl(),
+            WebSocketImpl: options.WebSocketImpl,
+            onMessage: (raw) => this.handleMessage(raw),
+            onStatus: (status, attempt) => this.bus.publish('FeedStatus', { source: this.source, status, attempt }),
+            onGap: (gap) => this.bus.publish('FeedStatus', { source: this.source, status: 'connected', attempt: 0, gap })
+        });
+        this.client.subscribe('newToken', { method: "subscribeNewToken" });
+        this.client.subscribe('migration', { method: "subscribeMigration" });
+    }
+
+    watchTrades(mint: string) {
+        this.client.subscribe(`trades:${mint}`, { method: "subscribeTokenTrade", keys: [mint] }, { method: "unsubscribeTokenTrade", keys: [mint] });
+    }
+
+    unwatchTrades(mint: string) {
+        this.client.unsubscribe(`trades:${mint}`);
+    }
+
+    close() {
+        this.client.close();
+    }
+
+    private handleMessage(raw: string) {
+        let data: any;
+        try { data = JSON.parse(raw); } catch { return; }
+        if (!data?.mint) return;
+
+        if (data.txType === 'buy' || data.txType === 'sell') {
+            const trade = parseTradeMessage(data, this.source);
+            if (trade) this.bus.publish('TradeObserved', trade);
+        } else if (data.txType === 'migrate') {
+            this.bus.publish('Graduated', { mint: data.mint, signature: data.signature, timestamp: Date.now(), source: this.source });
+        } else {
+            const token = parseNewTokenMessage(raw);
+            if (token) this.bus.publish('TokenCreated', { token, source: this.source });
+        }
+    }
+}
+
+/**
+ * Publish the pump.fun events in one Helius `logsNotification`. Launches and graduations go
+ * out for every mint; trades (and the curve state they carry) only for watched mints, so the
+ * program-wide log stream doesn't flood the bus.
+ */
+export const publishLogsNotification = (
+    bus: MarketBus, data: any, source: FeedSource, timestamp = Date.now(), isNewLaunch: (mint: string) => boolean = () => true
+) => {
+    const result = data?.params?.result;
+    const value = result?.value;
+    if (!value || value.err || !Array.isArray(value.logs)) return; // Failed transactions change nothing
+    const signature: string | undefined = value.signature;
+    const slot: number | undefined = result.context?.slot;
+
+    const events = decodePumpLogs(value.logs);
+    for (const event of events) {
+        if (event.kind === 'create') {
+            if (!isNewLaunch(event.mint)) continue;
+            const firstBuy = events.find(e => e.kind === 'trade' && e.mint === event.mint && e.isBuy);
+            const token = newTokenFromMessage(createEventToMessage(event, firstBuy?.kind === 'trade' ? firstBuy : undefined, signature));
+            if (token) bus.publish('TokenCreated', { token: { ...token, timestamp }, slot, source });
+        } else if (event.kind === 'trade') {
+            if (!bus.isWatched(event.mint)) continue;
+            const trade = parseTradeMessage(tradeEventToMessage(event, signature), source);
+            if (trade) bus.publish('TradeObserved', { ...trade, slot, timestamp });
+            bus.publish('CurveUpdated', { mint: event.mint, data: pumpDataFromCurve(curveFromTradeEvent(event)), slot, source });
+        } else {
+            bus.publish('Graduated', { mint: event.mint, signature, timestamp, source });
+        }
+    }
+};
+
+/**
+ * Helius feed adapter: one `logsSubscribe` on the pump.fun program, decoded into the same
+ * TokenData and trade events the PumpPortal feed produces. Every trade is in the stream, so
+ * watching a mint needs no extra subscription.
+ */
+export class HeliusLogsFeed implements FeedAdapter {
+    readonly source: FeedSource = 'helius';
+    private bus: MarketBus;
+    private client: WsClient;
+
+    constructor(options: PumpFeedOptions & { heliusKey: string }) {
+        this.bus = options.bus;
+        this.client = new WsClient({
+            url: getFeedUrl(options.heliusKey),
+            WebSocketImpl: options.WebSocketImpl,
+            onMessage: (raw) => {
+                let data: any;
+                try { data = JSON.parse(raw); } catch { return; }
+                if (data?.method === 'logsNotification') publishLogsNotification(this.bus, data, this.source);
+            },
+            onStatus: (status, attempt) => this.bus.publish('FeedStatus', { source: this.source, status, attempt }),
+            onGap: (gap) => this.bus.publish('FeedStatus', { source: this.source, status: 'connected', attempt: 0, gap })
+        });
+        this.client.subscribe('pumpLogs', PUMP_LOGS_SUBSCRIPTION);
+    }
+
+    close() {
+        this.client.close();
+    }
+}
+
+/** Helius logs when a Helius key is set, PumpPortal otherwise */
+export const createPumpFeed = (options: PumpFeedOptions): FeedAdapter => {
+    const { heliusKey } = options;
+    return isHeliusKey(heliusKey) ? new HeliusLogsFeed({ ...options, heliusKey }) : new PumpPortalFeed(options);
+};
@@ -1,4 +1,4 @@
-import { VersionedTransaction, Connection, Keypair, TransactionMessage } from "@solana/web3.js";
+import { VersionedTransaction, Keypair, TransactionMessage } from "@solana/web3.js";
 import bs58 from "bs58";
 
 const TRADE_API_URL = "https://pumpportal.fun/api/trade-local";
@@ -14,7 +14,10 @@ export interface TradeParams {
     pool: "pump";
 }
 
-export const getTradeTransaction = async (params: TradeParams) => {
+/** Builds an unsigned, serialized trade transaction (PumpPortal or the local program builder) */
+export type TradeTransactionBuilder = (params: TradeParams) => Promise<Uint8Array>;
+
+export const getTradeTransaction: TradeTransactionBuilder = async (params: TradeParams) => {
     try {
         const response = await fetch(TRADE_API_URL, {
             method: "POST",
@@ -45,23 +48,10 @@ export const getTradeTransaction = async (params: TradeParams) => {
     }
 };
 
-export const signAndSendTransaction = async (
-    connection: Connection,
-    transactionBuffer: Uint8Array,
-    keypair: Keypair
-) => {
-    try {
-        const transaction = VersionedTransaction.deserialize(transactionBuffer);
-        transaction.sign([keypair]);
-
-        const signature = await connection.sendTransaction(transaction, {
-            skipPreflight: false,
-            preflightCommitment: 'confirmed'
-        });
-
-        return signature;
-    } catch (error) {
-        console.error("Sign/Send Error:", error);
-        throw error;
-    }
+/** Deserialize and sign; `blockhash` re-stamps it with one the caller tracks for expiry */
+export const signTransaction = (transactionBuffer: Uint8Array, keypair: Keypair, blockhash?: string) => {
+    const transaction = VersionedTransaction.deserialize(transactionBuffer);
+    if (blockhash) transaction.message.recentBlockhash = blockhash;
+    transaction.sign([keypair]);
+    return transaction;
 };
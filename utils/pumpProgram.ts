@@ -0,0 +1,137 @@
+import {
+    ComputeBudgetProgram, Connection, PublicKey, SystemProgram, TransactionInstruction,
+    TransactionMessage, VersionedTransaction
+} from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, createAssociatedTokenAccountIdempotentInstruction, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { TradeParams, TradeTransactionBuilder } from './pumpPortal';
+import { getBondingCurveAddress } from './solanaManager';
+import { decodeBondingCurve, quoteBuy, quoteSell, LAMPORTS_PER_SOL, TOKEN_DECIMALS } from './bondingCurve';
+
+/**
+ * Pump.fun Program Transactions
+ * Builds buy/sell transactions for the bonding-curve program locally (same output as
+ * PumpPortal's trade-local: an unsigned, serialized v0 transaction), so trading keeps
+ * working when the API is slow or down. Slippage bounds come from the curve reserves
+ * read at build time; the priority fee is paid through compute-budget instructions.
+ */
+
+export const PUMP_PROGRAM_ID = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
+
+const BUY_DISCRIMINATOR = [102, 6, 61, 18, 1, 218, 235, 234];
+const SELL_DISCRIMINATOR = [51, 230, 133, 164, 1, 127, 131, 173];
+
+const GLOBAL = PublicKey.findProgramAddressSync([Buffer.from('global')], PUMP_PROGRAM_ID)[0];
+const EVENT_AUTHORITY = PublicKey.findProgramAddressSync([Buffer.from('__event_authority')], PUMP_PROGRAM_ID)[0];
+export const DEFAULT_FEE_RECIPIENT = new PublicKey('CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM');
+
+export const BUY_COMPUTE_UNITS = 120_000; // Includes creating the token account
+export const SELL_COMPUTE_UNITS = 80_000;
+
+// Account layouts past the reserves
+const CURVE_CREATOR_OFFSET = 49; // After the complete flag
+const GLOBAL_FEE_RECIPIENT_OFFSET = 41; // discriminator, initialized, authority
+
+const instructionData = (discriminator: number[], amount: bigint, limit: bigint) => {
+    const data = Buffer.alloc(24);
+    Buffer.from(discriminator).copy(data, 0);
+    data.writeBigUInt64LE(amount, 8);
+    data.writeBigUInt64LE(limit, 16);
+    return data;
+};
+
+const creatorVault = (creator: PublicKey) =>
+    PublicKey.findProgramAddressSync([Buffer.from('creator-vault'), creator.toBuffer()], PUMP_PROGRAM_ID)[0];
+
+const priorityInstructions = (priorityFeeSol: number, units: number) => [
+    ComputeBudgetProgram.setComputeUnitLimit({ units }),
+    // priority fee = units * price (micro-lamports per unit)
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: Math.floor((priorityFeeSol * LAMPORTS_PER_SOL * 1_000_000) / units) })
+];
+
+const toBaseUnits = (value: number, decimals: number) => BigInt(Math.max(0, Math.floor(value * 10 ** decimals)));
+
+/** Builder for `getTradeTransaction`'s interface that talks to the program directly */
+export const createPumpTransactionBuilder = (connection: Connection): TradeTransactionBuilder => async (params: TradeParams) => {
+    const user = new PublicKey(params.publicKey);
+    const mint = new PublicKey(params.mint);
+    const bondingCurve = getBondingCurveAddress(params.mint);
+
+    const [curveAccount, mintAccount, globalAccount] = await connection.getMultipleAccountsInfo([bondingCurve, mint, GLOBAL]);
+    if (!curveAccount) throw new Error(`No bonding curve for ${params.mint}`);
+    const curve = decodeBondingCurve(curveAccount.data);
+    if (curve.complete) throw new Error('Bonding curve complete - token has migrated');
+
+    const tokenProgram = mintAccount?.owner || TOKEN_PROGRAM_ID;
+    const feeRecipient = globalAccount && globalAccount.data.length >= GLOBAL_FEE_RECIPIENT_OFFSET + 32
+        ? new PublicKey(globalAccount.data.subarray(GLOBAL_FEE_RECIPIENT_OFFSET, GLOBAL_FEE_RECIPIENT_OFFSET + 32))
+        : DEFAULT_FEE_RECIPIENT;
+    const creator = curveAccount.data.length >= CURVE_CREATOR_OFFSET + 32
+        ? new PublicKey(curveAccount.data.subarray(CURVE_CREATOR_OFFSET, CURVE_CREATOR_OFFSET + 32))
+        : PublicKey.default;
+
+    const associatedBondingCurve = getAssociatedTokenAddressSync(mint, bondingCurve, true, tokenProgram);
+    const associatedUser = getAssociatedTokenAddressSync(mint, user, false, tokenProgram);
+    const slippage = params.slippage / 100;
+
+    const instructions: TransactionInstruction[] = [];
+    if (params.action === 'buy') {
+        if (params.denominatedInSol !== 'true') throw new Error('Local builder only supports SOL-denominated buys');
+        const quote = quoteBuy(curve, params.amount);
+        if (quote.tokensOut <= 0) throw new Error('Curve has no tokens left');
+        // Exact token amount; the program rejects the buy if it would cost more than maxSolCost
+        const maxSolCost = toBaseUnits(params.amount * (1 + slippage), 9);
+
+        instructions.push(
+            ...priorityInstructions(params.priorityFee, BUY_COMPUTE_UNITS),
+            createAssociatedTokenAccountIdempotentInstruction(user, associatedUser, user, mint, tokenProgram),
+            new TransactionInstruction({
+                programId: PUMP_PROGRAM_ID,
+                keys: [
+                    { pubkey: GLOBAL, isSigner: false, isWritable: false },
+                    { pubkey: feeRecipient, isSigner: false, isWritable: true },
+                    { pubkey: mint, isSigner: false, isWritable: false },
+                    { pubkey: bondingCurve, isSigner: false, isWritable: true },
+                    { pubkey: associatedBondingCurve, isSigner: false, isWritable: true },
+                    { pubkey: associatedUser, isSigner: false, isWritable: true },
+                    { pubkey: user, isSigner: true, isWritable: true },
+                    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+                    { pubkey: tokenProgram, isSigner: false, isWritable: false },
+                    { pubkey: creatorVault(creator), isSigner: false, isWritable: true },
+                    { pubkey: EVENT_AUTHORITY, isSigner: false, isWritable: false },
+                    { pubkey: PUMP_PROGRAM_ID, isSigner: false, isWritable: false }
+                ],
+                data: instructionData(BUY_DISCRIMINATOR, toBaseUnits(quote.tokensOut, TOKEN_DECIMALS), maxSolCost)
+            })
+        );
+    } else {
+        if (params.denominatedInSol !== 'false') throw new Error('Local builder only supports token-denominated sells');
+        const quote = quoteSell(curve, params.amount);
+        const minSolOutput = toBaseUnits(quote.solOut * (1 - slippage), 9);
+
+        instructions.push(
+            ...priorityInstructions(params.priorityFee, SELL_COMPUTE_UNITS),
+            new TransactionInstruction({
+                programId: PUMP_PROGRAM_ID,
+                keys: [
+                    { pubkey: GLOBAL, isSigner: false, isWritable: false },
+                    { pubkey: feeRecipient, isSigner: false, isWritable: true },
+                    { pubkey: mint, isSigner: false, isWritable: false },
+                    { pubkey: bondingCurve, isSigner: false, isWritable: true },
+                    { pubkey: associatedBondingCurve, isSigner: false, isWritable: true },
+                    { pubkey: associatedUser, isSigner: false, isWritable: true },
+                    { pubkey: user, isSigner: true, isWritable: true },
+                    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+                    { pubkey: creatorVault(creator), isSigner: false, isWritable: true },
+                    { pubkey: tokenProgram, isSigner: false, isWritable: false },
+                    { pubkey: EVENT_AUTHORITY, isSigner: false, isWritable: false },
+                    { pubkey: PUMP_PROGRAM_ID, isSigner: false, isWritable: false }
+                ],
+                data: instructionData(SELL_DISCRIMINATOR, toBaseUnits(params.amount, TOKEN_DECIMALS), minSolOutput)
+            })
+        );
+    }
+
+    const { blockhash } = await connection.getLatestBlockhash('confirmed');
+    const message = new TransactionMessage({ payerKey: user, recentBlockhash: blockhash, instructions }).compileToV0Message();
+    return new VersionedTransaction(message).serialize();
+};
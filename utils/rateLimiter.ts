@@ -0,0 +1,148 @@
+import { now, schedule } from './clock';
+
+/**
+ * RPC Rate Limiter
+ * One token bucket per endpoint, filled at the endpoint plan's requests-per-second, so the
+ * bot stays under its quota instead of finding out from 429s. Requests wait in priority
+ * lanes: when tokens are short, exits go first, then pricing of open positions, then new-
+ * token analysis, then metadata. Low-priority lanes have a bounded queue and shed requests
+ * once it is full - the analyzers see "no data" for a token while exits keep flowing.
+ */
+
+export type RequestLane = 'exit' | 'pricing' | 'analysis' | 'metadata';
+
+export const REQUEST_LANES: RequestLane[] = ['exit', 'pricing', 'analysis', 'metadata']; // Highest priority first
+
+export type RpcPlanTier = 'public' | 'free' | 'developer' | 'business' | 'professional';
+
+export const RPC_PLAN_TIERS: Record<RpcPlanTier, { label: string; requestsPerSecond: number }> = {
+    public: { label: 'Public node', requestsPerSecond: 4 },
+    free: { label: 'Helius Free', requestsPerSecond: 10 },
+    developer: { label: 'Helius Developer', requestsPerSecond: 50 },
+    business: { label: 'Helius Business', requestsPerSecond: 200 },
+    professional: { label: 'Helius Professional', requestsPerSecond: 500 }
+};
+
+export const isRpcPlanTier = (value: unknown): value is RpcPlanTier =>
+    typeof value === 'string' && value in RPC_PLAN_TIERS;
+
+export interface RateLimitConfig {
+    requestsPerSecond: number;
+    burst: number; // Bucket size
+    maxQueue: Record<RequestLane, number>; // Waiting requests per lane before new ones are shed
+}
+
+const DEFAULT_MAX_QUEUE: Record<RequestLane, number> = {
+    exit: Infinity,
+    pricing: 100,
+    analysis: 30,
+    metadata: 10
+};
+
+export class RateLimitError extends Error {
+    readonly lane: RequestLane;
+
+    constructor(lane: RequestLane) {
+        super(`Rate limited: ${lane} queue is full`);
+        this.name = 'RateLimitError';
+        this.lane = lane;
+    }
+}
+
+const emptyLanes = (): Record<RequestLane, number> => ({ exit: 0, pricing: 0, analysis: 0, metadata: 0 });
+
+export class TokenBucket {
+    private config: RateLimitConfig;
+    private tokens = 0;
+    private refilledAt = 0;
+    private queues: Record<RequestLane, (() => void)[]> = { exit: [], pricing: [], analysis: [], metadata: [] };
+    private drainScheduled = false;
+    private shed = emptyLanes();
+
+    constructor(config: Partial<RateLimitConfig> = {}) {
+        const requestsPerSecond = config.requestsPerSecond ?? RPC_PLAN_TIERS.public.requestsPerSecond;
+        this.config = { requestsPerSecond, burst: requestsPerSecond, maxQueue: DEFAULT_MAX_QUEUE };
+        this.setConfig(config);
+        this.tokens = this.config.burst;
+        this.refilledAt = now();
+    }
+
+    setConfig(config: Partial<RateLimitConfig>) {
+        this.config = { ...this.config, ...config, maxQueue: { ...this.config.maxQueue, ...config.maxQueue } };
+        this.tokens = Math.min(this.tokens, this.config.burst);
+    }
+    getConfig(): RateLimitConfig { return this.config; }
+
+    /** Resolves when the request may go out; rejects with RateLimitError if its lane's queue is full */
+    acquire(lane: RequestLane): Promise<void> {
+        this.refill();
+        if (this.tokens >= 1 && this.totalQueued() === 0) {
+            this.tokens -= 1;
+            return Promise.resolve();
+        }
+        if (this.queues[lane].length >= this.config.maxQueue[lane]) {
+            this.shed[lane]++;
+            return Promise.reject(new RateLimitError(lane));
+        }
+        return new Promise(resolve => {
+            this.queues[lane].push(resolve);
+            this.scheduleDrain();
+        });
+    }
+
+    /** Waiting requests per lane */
+    getQueueDepth(): Record<RequestLane, number> {
+        const depth = emptyLanes();
+        for (const lane of REQUEST_LANES) depth[lane] = this.queues[lane].length;
+        return depth;
+    }
+
+    /** Requests rejected per lane because the queue was full */
+    getShed(): Record<RequestLane, number> {
+        return { ...this.shed };
+    }
+
+    private totalQueued() {
+        return REQUEST_LANES.reduce((sum, lane) => sum + this.queues[lane].length, 0);
+    }
+
+    private refill() {
+        const t = now();
+        this.tokens = Math.min(this.config.burst, this.tokens + ((t - this.refilledAt) / 1000) * this.config.requestsPerSecond);
+        this.refilledAt = t;
+    }
+
+    private drain() {
+        this.drainScheduled = false;
+        this.refill();
+        for (const lane of REQUEST_LANES) {
+            while (this.tokens >= 1 && this.queues[lane].length > 0) {
+                this.tokens -= 1;
+                this.queues[lane].shift()!();
+            }
+        }
+        if (this.totalQueued() > 0) this.scheduleDrain();
+    }
+
+    private scheduleDrain() {
+        if (this.drainScheduled) return;
+        this.drainScheduled = true;
+        const waitMs = Math.max(1, Math.ceil(((1 - this.tokens) / this.config.requestsPerSecond) * 1000));
+        schedule(() => this.drain(), waitMs);
+    }
+}
+
+// Endpoints share quota across pools (e.g. the Helius key used for RPC and for getAsset), so buckets are per URL
+const buckets = new Map<string, TokenBucket>();
+
+/** The bucket for an endpoint URL; `requestsPerSecond` (re)configures it */
+export const getRateLimiter = (url: string, requestsPerSecond?: number): TokenBucket => {
+    let bucket = buckets.get(url);
+    if (!bucket) {
+        bucket = new TokenBucket(requestsPerSecond !== undefined ? { requestsPerSecond } : {});
+        buckets.set(url, bucket);
+    } else if (requestsPerSecond !== undefined && bucket.getConfig().requestsPerSecond !== requestsPerSecond) {
+        bucket.setConfig({ requestsPerSecond, burst: requestsPerSecond });
+    }
+    return bucket;
+};
@@ -0,0 +1,60 @@
+import { TokenData } from '../components/LiveFeed';
+import { getPumpData } from './solanaManager';
+
+/** Decoded bonding-curve state, exactly as `getPumpData` returns it */
+export type PumpData = NonNullable<Awaited<ReturnType<typeof getPumpData>>>;
+
+/** Holder distribution snapshot (optional; lets the replay answer holder queries) */
+export interface HolderSnapshot {
+    holderCount: number;
+    supply: number; // UI units
+    largest: { address: string; uiAmount: number }[]; // Largest token accounts, descending
+}
+
+/**
+ * Recorded market events, one JSON object per line (NDJSON).
+ * `t` is the wall-clock time in ms when the event was observed.
+ */
+export type RecordedEvent =
+    | { type: 'token'; t: number; token: TokenData }
+    | { type: 'curve'; t: number; mint: string; curve: PumpData }
+    | { type: 'holders'; t: number; mint: string; holders: HolderSnapshot }
+    | { type: 'trade'; t: number; mint?: string; data: any }; // Raw trade-stream message (PumpPortal tokenTrade or Helius logsNotification)
+
+export const serializeEvent = (event: RecordedEvent) => JSON.stringify(event);
+
+const isRecordedEvent = (value: any): value is RecordedEvent => {
+    if (!value || typeof value.t !== 'number') return false;
+    if (value.type === 'token') return !!value.token?.mint;
+    if (value.type === 'curve') return typeof value.mint === 'string' && !!value.curve;
+    if (value.type === 'holders') return typeof value.mint === 'string' && !!value.holders;
+    if (value.type === 'trade') return value.data !== undefined;
+    return false;
+};
+
+/**
+ * Parse an NDJSON recording. Blank lines are skipped; malformed lines throw with
+ * their line number. Events come back sorted by time (stable for equal timestamps).
+ */
+export const parseRecording = (text: string): RecordedEvent[] => {
+    const events: RecordedEvent[] = [];
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line) continue;
+
+        let value: any;
+        try {
+            value = JSON.parse(line);
+        } catch (e) {
+            throw new Error(`Recording line ${i + 1}: invalid JSON`);
+        }
+        if (!isRecordedEvent(value)) throw new Error(`Recording line ${i + 1}: unknown event`);
+        events.push(value);
+    }
+
+    return events
+        .map((event, index) => ({ event, index }))
+        .sort((a, b) => a.event.t - b.event.t || a.index - b.index)
+        .map(({ event }) => event);
+};
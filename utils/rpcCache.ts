@@ -0,0 +1,195 @@
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import { now } from './clock';
+import { getRpcPool } from './rpcPool';
+
+/**
+ * RPC Data Cache
+ * Data-access layer under solanaManager. Identical requests that are already in flight share
+ * one promise, results are kept for a per-data-type TTL (a bonding curve changes every slot,
+ * metadata never does), and bonding-curve reads issued together - e.g. one price tick over
+ * every open trade - go out as a single getMultipleAccountsInfo call. Hit rates per type are
+ * exposed for the dashboard.
+ */
+
+export type CacheDataType = 'curve' | 'holders' | 'supply' | 'funding' | 'metadata';
+
+export type CacheTtls = Record<CacheDataType, number>;
+
+export const DEFAULT_CACHE_TTLS: CacheTtls = {
+    curve: 400, // ~1 slot
+    holders: 5000,
+    supply: 60000,
+    funding: 15000, // Deployer transfers, re-read as launches get funded
+    metadata: Infinity
+};
+
+export interface CacheTypeStats {
+    hits: number; // Served from cache
+    coalesced: number; // Joined a request already in flight
+    misses: number; // Went to the network
+    hitRate: number; // (hits + coalesced) / total, 0-1
+}
+
+export type CacheStats = Record<CacheDataType, CacheTypeStats>;
+
+const MAX_ENTRIES = 2000;
+const MAX_BATCH_ACCOUNTS = 100; // getMultipleAccountsInfo limit
+
+export class RequestCache {
+    private ttls: CacheTtls;
+    private entries = new Map<string, { value: unknown; at: number }>();
+    private inflight = new Map<string, Promise<unknown>>();
+    private counters = {} as Record<CacheDataType, { hits: number; coalesced: number; misses: number }>;
+
+    constructor(ttls: Partial<CacheTtls> = {}) {
+        this.ttls = DEFAULT_CACHE_TTLS;
+        this.setConfig(ttls);
+        this.resetStats();
+    }
+
+    setConfig(ttls: Partial<CacheTtls>) {
+        this.ttls = { ...this.ttls, ...ttls };
+    }
+    getConfig(): CacheTtls { return this.ttls; }
+
+    /**
+     * Cached value if younger than the type's TTL, else the in-flight request for the same key,
+     * else `fetch()`. Null/undefined results are not cached. `fetch` is called synchronously so
+     * reads issued in the same tick can be batched.
+     */
+    get<T>(type: CacheDataType, key: string, fetch: () => Promise<T>): Promise<T> {
+        const id = `${type}:${key}`;
+        const entry = this.entries.get(id);
+        if (entry && now() - entry.at < this.ttls[type]) {
+            this.counters[type].hits++;
+            return Promise.resolve(entry.value as T);
+        }
+        return this.coalesce(type, key, async () => {
+            const value = await fetch();
+            if (value !== null && value !== undefined) this.store(id, value);
+            return value;
+        });
+    }
+
+    /** Share one in-flight `fetch()` between identical concurrent requests, without caching the result */
+    coalesce<T>(type: CacheDataType, key: string, fetch: () => Promise<T>): Promise<T> {
+        const id = `${type}:${key}`;
+        const pending = this.inflight.get(id);
+        if (pending) {
+            this.counters[type].coalesced++;
+            return pending as Promise<T>;
+        }
+        this.counters[type].misses++;
+        const request = fetch().finally(() => this.inflight.delete(id));
+        this.inflight.set(id, request);
+        return request;
+    }
+
+    /** Count a hit served from a store kept outside the cache (e.g. `metadataCache`) */
+    recordHit(type: CacheDataType) {
+        this.counters[type].hits++;
+    }
+
+    getStats(): CacheStats {
+        const stats = {} as CacheStats;
+        for (const type of Object.keys(DEFAULT_CACHE_TTLS) as CacheDataType[]) {
+            const { hits, coalesced, misses } = this.counters[type];
+            const total = hits + coalesced + misses;
+            stats[type] = { hits, coalesced, misses, hitRate: total > 0 ? (hits + coalesced) / total : 0 };
+        }
+        return stats;
+    }
+
+    resetStats() {
+        for (const type of Object.keys(DEFAULT_CACHE_TTLS) as CacheDataType[]) {
+            this.counters[type] = { hits: 0, coalesced: 0, misses: 0 };
+        }
+    }
+
+    clear() {
+        this.entries.clear();
+    }
+
+    private store(id: string, value: unknown) {
+        this.entries.delete(id); // Re-insert so the oldest entry is always first
+        this.entries.set(id, { value, at: now() });
+        if (this.entries.size > MAX_ENTRIES) this.entries.delete(this.entries.keys().next().value!);
+    }
+}
+
+// === ACCOUNT BATCHING ===
+
+interface PendingAccount {
+    address: PublicKey;
+    waiters: { resolve: (account: AccountInfo<Buffer> | null) => void; reject: (error: unknown) => void }[];
+}
+
+/** Collects getAccountInfo reads made in the same tick into getMultipleAccountsInfo calls */
+export class AccountBatcher {
+    private queue = new Map<string, PendingAccount>();
+    private scheduled = false;
+
+    constructor(private connection: Connection) { }
+
+    load(address: PublicKey): Promise<AccountInfo<Buffer> | null> {
+        return new Promise((resolve, reject) => {
+            const key = address.toBase58();
+            const pending = this.queue.get(key) || { address, waiters: [] };
+            pending.waiters.push({ resolve, reject });
+            this.queue.set(key, pending);
+            if (!this.scheduled) {
+                this.scheduled = true;
+                Promise.resolve().then(() => this.flush());
+            }
+        });
+    }
+
+    private async flush() {
+        this.scheduled = false;
+        const pending = Array.from(this.queue.values());
+        this.queue.clear();
+
+        for (let i = 0; i < pending.length; i += MAX_BATCH_ACCOUNTS) {
+            const chunk = pending.slice(i, i + MAX_BATCH_ACCOUNTS);
+            try {
+                const accounts = chunk.length === 1
+                    ? [await this.connection.getAccountInfo(chunk[0].address)]
+                    : await this.connection.getMultipleAccountsInfo(chunk.map(p => p.address));
+                chunk.forEach((p, j) => p.waiters.forEach(w => w.resolve(accounts[j] ?? null)));
+            } catch (error) {
+                chunk.forEach(p => p.waiters.forEach(w => w.reject(error)));
+            }
+        }
+    }
+}
+
+const batchers = new WeakMap<Connection, AccountBatcher>();
+
+export const getAccountBatcher = (connection: Connection): AccountBatcher => {
+    let batcher = batchers.get(connection);
+    if (!batcher) {
+        batcher = new AccountBatcher(connection);
+        batchers.set(connection, batcher);
+    }
+    return batcher;
+};
+
+// Cache keys are scoped per connection (a replay and the live RPC must never share entries);
+// the lanes of one RPC pool are the same data source
+const connectionIds = new WeakMap<object, number>();
+let nextConnectionId = 0;
+
+export const scopedKey = (connection: Connection, key: string) => {
+    const source = getRpcPool(connection) || connection;
+    let id = connectionIds.get(source);
+    if (id === undefined) {
+        id = ++nextConnectionId;
+        connectionIds.set(source, id);
+    }
+    return `${id}:${key}`;
+};
+
+/** Shared cache behind solanaManager's data fetchers */
+export const rpcCache = new RequestCache();
+
+export const getCacheStats = () => rpcCache.getStats();
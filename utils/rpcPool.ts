@@ -0,0 +1,337 @@
+import { Commitment, Connection } from '@solana/web3.js';
+import { now } from './clock';
+import { getRateLimiter, RateLimitError, REQUEST_LANES, RequestLane, TokenBucket } from './rateLimiter';
+
+/**
+ * RPC Connection Pool
+ * Several RPC endpoints behind one `Connection`-shaped object (`asConnection()`), so the
+ * rest of the code keeps passing a Connection around. Every call is routed to an endpoint
+ * picked by health score (latency and error-rate averages x configured weight, optionally
+ * per method) and fails over to the next one on rate limits, access errors, 5xx and
+ * network failures. Endpoints that keep failing cool down for a while instead of tripping
+ * a global breaker. Transaction sends are broadcast to the best few endpoints at once;
+ * subscriptions (onLogs, onAccountChange, ... and their removers) stay on one endpoint, and
+ * move to the best other one (re-subscribed there) when it starts cooling down. Each endpoint's requests pass its token bucket (rateLimiter.ts)
+ * in the lane of the connection they came through - see `withLane`.
+ */
+
+export interface RpcEndpointConfig {
+    name: string;
+    url: string;
+    weight?: number; // Relative share of traffic (default 1)
+    methods?: Record<string, number>; // Per-method weight override, e.g. { getProgramAccounts: 0 } to never route it here ('subscribe' = WebSocket subscriptions)
+    requestsPerSecond?: number; // Plan quota (see RPC_PLAN_TIERS)
+}
+
+export type RpcEndpointState = 'healthy' | 'degraded' | 'down';
+
+export interface RpcEndpointStatus {
+    name: string;
+    state: RpcEndpointState;
+    latencyMs: number; // Moving average
+    errorRate: number; // 0-1, moving average
+    requests: number;
+    failures: number;
+    cooldownUntil: number; // Not routed to before this (0 = available)
+    requestsPerSecond: number;
+    queued: Record<RequestLane, number>; // Waiting for a rate-limit token
+    shed: number; // Dropped because a low-priority queue was full
+}
+
+export interface RpcPoolOptions {
+    commitment?: Commitment;
+    broadcastFanout: number; // Endpoints a transaction send goes to
+    rateLimitCooldownMs: number; // First cooldown after a 429 (doubles while it repeats, max 60s)
+    failureCooldownMs: number; // Cooldown after `maxConsecutiveFailures` other failures
+    maxConsecutiveFailures: number;
+}
+
+const DEFAULT_POOL_OPTIONS: RpcPoolOptions = {
+    commitment: 'confirmed',
+    broadcastFanout: 3,
+    rateLimitCooldownMs: 5000,
+    failureCooldownMs: 15000,
+    maxConsecutiveFailures: 3
+};
+
+const BROADCAST_METHODS = new Set(['sendTransaction', 'sendRawTransaction', 'sendEncodedTransaction']);
+const SUBSCRIBE_METHOD = /^on[A-Z]/;
+const UNSUBSCRIBE_METHOD = /^remove[A-Z].*Listener$/;
+// Streaming subscriptions that can be re-opened elsewhere (signature subscriptions end after one notification)
+const SUBSCRIPTION_REMOVERS: Record<string, string> = {
+    onAccountChange: 'removeAccountChangeListener',
+    onProgramAccountChange: 'removeProgramAccountChangeListener',
+    onLogs: 'removeOnLogsListener',
+    onSlotChange: 'removeSlotChangeListener',
+    onSlotUpdate: 'removeSlotUpdateListener',
+    onRootChange: 'removeRootChangeListener'
+};
+const MAX_COOLDOWN_MS = 60000;
+const INITIAL_LATENCY_MS = 300;
+
+interface Endpoint {
+    config: RpcEndpointConfig;
+    connection: Connection;
+    latencyMs: number;
+    errorRate: number;
+    requests: number;
+    failures: number;
+    consecutiveFailures: number;
+    cooldownUntil: number;
+    limiter: TokenBucket;
+}
+
+interface Subscription {
+    method: string;
+    args: unknown[];
+    endpoint: Endpoint;
+    id: number; // Subscription id on the endpoint's connection
+}
+
+/** Errors another endpoint might not have: rate limits, access denied, 5xx, timeouts, network */
+export const isFailoverError = (error: unknown): boolean => {
+    const message = String((error as any)?.message || error);
+    return /\b(429|403|5\d\d)\b|too many requests|forbidden|access denied|fetch failed|failed to fetch|timed? ?out|ECONNRESET|ECONNREFUSED|ENOTFOUND|socket hang up|network/i.test(message);
+};
+
+const isRateLimit = (error: unknown) => /\b429\b|too many requests/i.test(String((error as any)?.message || error));
+
+/** First promise to resolve; rejects with the first error once all have failed */
+const firstSuccess = <T>(promises: Promise<T>[]): Promise<T> => new Promise((resolve, reject) => {
+    let failed = 0;
+    let firstError: unknown;
+    promises.forEach(promise => promise.then(resolve, error => {
+        if (failed++ === 0) firstError = error;
+        if (failed === promises.length) reject(firstError);
+    }));
+});
+
+const pools = new WeakMap<object, RpcPool>();
+
+/** The pool behind a pooled connection, or null for a plain Connection */
+export const getRpcPool = (connection: Connection): RpcPool | null => pools.get(connection) || null;
+
+/** The same pooled connection with its requests queued in `lane`; plain connections are returned as is */
+export const withLane = (connection: Connection, lane: RequestLane): Connection =>
+    getRpcPool(connection)?.asConnection(lane) ?? connection;
+
+export class RpcPool {
+    private endpoints: Endpoint[];
+    private options: RpcPoolOptions;
+    private sticky: Endpoint; // New subscriptions go here
+    private subscriptions = new Map<number, Subscription>(); // By the id handed to the caller
+    private nextSubscriptionId = 0;
+    private proxies = new Map<RequestLane, Connection>();
+
+    constructor(endpoints: RpcEndpointConfig[], options: Partial<RpcPoolOptions> = {}) {
+        if (endpoints.length === 0) throw new Error('RpcPool needs at least one endpoint');
+        this.options = { ...DEFAULT_POOL_OPTIONS, ...options };
+        this.endpoints = endpoints.map(config => ({
+            config,
+            connection: new Connection(config.url, this.options.commitment),
+            latencyMs: INITIAL_LATENCY_MS,
+            errorRate: 0,
+            requests: 0,
+            failures: 0,
+            consecutiveFailures: 0,
+            cooldownUntil: 0,
+            limiter: getRateLimiter(config.url, config.requestsPerSecond)
+        }));
+        this.sticky = this.ranked('subscribe')[0];
+    }
+
+    /** A Connection whose RPC calls go through the pool, rate-limited in `lane` */
+    asConnection(lane: RequestLane = 'analysis'): Connection {
+        const existing = this.proxies.get(lane);
+        if (existing) return existing;
+        const pool = this;
+        const primary = this.sticky.connection;
+        const proxy = new Proxy(primary, {
+            get(target, prop, receiver) {
+                const value = Reflect.get(target, prop, receiver);
+                if (typeof prop !== 'string' || typeof value !== 'function' || prop.startsWith('_')) return value;
+                if (SUBSCRIBE_METHOD.test(prop)) return (...args: unknown[]) => pool.subscribe(prop, args);
+                if (UNSUBSCRIBE_METHOD.test(prop)) return (id: number) => pool.unsubscribe(prop, id);
+                if (BROADCAST_METHODS.has(prop)) return (...args: unknown[]) => pool.broadcast(prop, args, lane);
+                return (...args: unknown[]) => pool.call(prop, args, lane);
+            }
+        });
+        this.proxies.set(lane, proxy);
+        pools.set(proxy, this);
+        return proxy;
+    }
+
+    getStatus(): RpcEndpointStatus[] {
+        const t = now();
+        return this.endpoints.map(e => ({
+            name: e.config.name,
+            state: e.cooldownUntil > t ? 'down' : e.errorRate > 0.2 || e.latencyMs > 1500 ? 'degraded' : 'healthy',
+            latencyMs: Math.round(e.latencyMs),
+            errorRate: e.errorRate,
+            requests: e.requests,
+            failures: e.failures,
+            cooldownUntil: e.cooldownUntil > t ? e.cooldownUntil : 0,
+            requestsPerSecond: e.limiter.getConfig().requestsPerSecond,
+            queued: e.limiter.getQueueDepth(),
+            shed: Object.values(e.limiter.getShed()).reduce((sum, n) => sum + n, 0)
+        }));
+    }
+
+    /** Requests waiting for a rate-limit token, per lane, over all endpoints */
+    getQueueDepth(): Record<RequestLane, number> {
+        const depth = { exit: 0, pricing: 0, analysis: 0, metadata: 0 };
+        for (const endpoint of this.endpoints) {
+            const queued = endpoint.limiter.getQueueDepth();
+            for (const lane of REQUEST_LANES) depth[lane] += queued[lane];
+        }
+        return depth;
+    }
+
+    /** Every endpoint is cooling down */
+    isDown(): boolean {
+        const t = now();
+        return this.endpoints.every(e => e.cooldownUntil > t);
+    }
+
+    // === ROUTING ===
+
+    /** Weight x success rate² / latency, shared with whatever is already queued there */
+    private score(endpoint: Endpoint, method: string) {
+        const weight = endpoint.config.methods?.[method] ?? endpoint.config.weight ?? 1;
+        const queued = Object.values(endpoint.limiter.getQueueDepth()).reduce((sum, n) => sum + n, 0);
+        return (weight * (1 - endpoint.errorRate) * (1 - endpoint.errorRate)) / Math.max(endpoint.latencyMs, 1) / (1 + queued);
+    }
+
+    /** Available endpoints by score; when all are cooling down, the one that recovers first */
+    private ranked(method: string, exclude: Set<Endpoint> = new Set()): Endpoint[] {
+        const t = now();
+        const candidates = this.endpoints.filter(e => !exclude.has(e) && (e.config.methods?.[method] ?? 1) > 0);
+        const available = candidates.filter(e => e.cooldownUntil <= t);
+        if (available.length === 0) return candidates.sort((a, b) => a.cooldownUntil - b.cooldownUntil).slice(0, 1);
+        return available.sort((a, b) => this.score(b, method) - this.score(a, method));
+    }
+
+    /** Weighted pick among the available endpoints, so load spreads by score */
+    private pick(method: string, exclude: Set<Endpoint>): Endpoint | undefined {
+        const ranked = this.ranked(method, exclude);
+        const total = ranked.reduce((sum, e) => sum + this.score(e, method), 0);
+        if (ranked.length <= 1 || total <= 0) return ranked[0];
+        let roll = Math.random() * total;
+        for (const endpoint of ranked) {
+            roll -= this.score(endpoint, method);
+            if (roll <= 0) return endpoint;
+        }
+        return ranked[0];
+    }
+
+    private async attempt(endpoint: Endpoint, method: string, args: unknown[], lane: RequestLane) {
+        await endpoint.limiter.acquire(lane);
+        const started = now();
+        endpoint.requests++;
+        try {
+            const result = await (endpoint.connection as any)[method](...args);
+            this.succeeded(endpoint, now() - started);
+            return result;
+        } catch (error) {
+            // Application errors (bad params, simulation failures) mean the endpoint answered fine
+            if (isFailoverError(error)) this.failed(endpoint, method, error);
+            else this.succeeded(endpoint, now() - started);
+            throw error;
+        }
+    }
+
+    async call(method: string, args: unknown[], lane: RequestLane = 'analysis') {
+        const tried = new Set<Endpoint>();
+        let lastError: unknown;
+        let endpoint: Endpoint | undefined;
+        while ((endpoint = this.pick(method, tried))) {
+            tried.add(endpoint);
+            try {
+                return await this.attempt(endpoint, method, args, lane);
+            } catch (error) {
+                // A full queue here may have room elsewhere
+                if (!isFailoverError(error) && !(error instanceof RateLimitError)) throw error;
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    /**
+     * Send to the best `broadcastFanout` endpoints at once; the first accepted signature wins.
+     * Endpoints cooling down still make up the numbers - a send matters more than their rate limit.
+     */
+    async broadcast(method: string, args: unknown[], lane: RequestLane = 'exit') {
+        const available = this.ranked(method);
+        const cooling = this.endpoints
+            .filter(e => !available.includes(e) && (e.config.methods?.[method] ?? 1) > 0)
+            .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+        const targets = [...available, ...cooling].slice(0, this.options.broadcastFanout);
+        return firstSuccess(targets.map(endpoint => this.attempt(endpoint, method, args, lane)));
+    }
+
+    // === SUBSCRIPTIONS ===
+
+    private subscribe(method: string, args: unknown[]): number {
+        const endpoint = this.sticky;
+        const id = (endpoint.connection as any)[method](...args);
+        const poolId = ++this.nextSubscriptionId;
+        this.subscriptions.set(poolId, { method, args, endpoint, id });
+        return poolId;
+    }
+
+    private async unsubscribe(remover: string, poolId: number) {
+        const subscription = this.subscriptions.get(poolId);
+        if (!subscription) return (this.sticky.connection as any)[remover](poolId);
+        this.subscriptions.delete(poolId);
+        return (subscription.endpoint.connection as any)[remover](subscription.id);
+    }
+
+    /** `from` is cooling down: re-open its subscriptions (and send new ones) on the best available other endpoint */
+    private moveSubscriptions(from: Endpoint) {
+        const t = now();
+        const next = this.ranked('subscribe', new Set([from])).find(e => e.cooldownUntil <= t);
+        if (!next) return; // Nowhere better to go
+        const wasSticky = this.sticky === from;
+        if (wasSticky) this.sticky = next;
+
+        let moved = 0;
+        this.subscriptions.forEach(subscription => {
+            const remover = SUBSCRIPTION_REMOVERS[subscription.method];
+            if (subscription.endpoint !== from || !remover) return;
+            Promise.resolve((from.connection as any)[remover](subscription.id)).catch(() => { });
+            try {
+                subscription.id = (next.connection as any)[subscription.method](...subscription.args);
+                subscription.endpoint = next;
+                moved++;
+            } catch (error) {
+                console.warn(`[rpcPool] Could not move ${subscription.method} to ${next.config.name}:`, error);
+            }
+        });
+        if (wasSticky || moved > 0) console.warn(`[rpcPool] Subscriptions moved from ${from.config.name} to ${next.config.name} (${moved} re-subscribed)`);
+    }
+
+    // === HEALTH ===
+
+    private succeeded(endpoint: Endpoint, latencyMs: number) {
+        endpoint.latencyMs = endpoint.latencyMs * 0.8 + latencyMs * 0.2;
+        endpoint.errorRate *= 0.9;
+        endpoint.consecutiveFailures = 0;
+    }
+
+    private failed(endpoint: Endpoint, method: string, error: unknown) {
+        const { rateLimitCooldownMs, failureCooldownMs, maxConsecutiveFailures } = this.options;
+        endpoint.failures++;
+        endpoint.consecutiveFailures++;
+        endpoint.errorRate = endpoint.errorRate * 0.9 + 0.1;
+
+        let cooldown = 0;
+        if (isRateLimit(error)) cooldown = Math.min(MAX_COOLDOWN_MS, rateLimitCooldownMs * Math.pow(2, endpoint.consecutiveFailures - 1));
+        else if (endpoint.consecutiveFailures >= maxConsecutiveFailures) cooldown = failureCooldownMs;
+        if (cooldown > 0) {
+            endpoint.cooldownUntil = now() + cooldown;
+            console.warn(`[rpcPool] ${endpoint.config.name} cooling down ${Math.round(cooldown / 1000)}s after ${method} failed: ${String((error as any)?.message || error).slice(0, 80)}`);
+            this.moveSubscriptions(endpoint);
+        }
+    }
+}
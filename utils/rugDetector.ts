@@ -1,4 +1,6 @@
 import { TokenData } from '../components/LiveFeed';
+import { now } from './clock';
+import { SniperReport, describeSnipers } from './sniperDetector';
 
 /**
  * Advanced Rug Detection System
@@ -35,9 +37,9 @@ const SUSPICIOUS_PATTERNS = [
 
 // Clean up old entries periodically
 setInterval(() => {
-    const now = Date.now();
+    const timeNow = now();
     for (const [name, data] of recentTokenNames.entries()) {
-        if (now - data.timestamp > NAME_COOLDOWN) {
+        if (timeNow - data.timestamp > NAME_COOLDOWN) {
             recentTokenNames.delete(name);
         }
     }
@@ -52,10 +54,12 @@ export interface RugDetectionResult {
 
 /**
  * Comprehensive rug detection
+ * `snipers` (from sniperDetector) adds a warning when the launch was sniped or bundled.
  */
 export function detectRug(
     token: TokenData,
-    riskMode: 'safe' | 'medium' | 'high' = 'medium'
+    riskMode: 'safe' | 'medium' | 'high' = 'medium',
+    snipers?: SniperReport | null
 ): RugDetectionResult {
     const warnings: string[] = [];
     let confidence = 0;
@@ -63,7 +67,7 @@ export function detectRug(
     let reason: string | undefined;
 
     const name = token.symbol?.toLowerCase().trim() || '';
-    const age = (Date.now() - token.timestamp) / 1000; // Age in seconds
+    const age = (now() - token.timestamp) / 1000; // Age in seconds
     const liquidity = token.vSolInBondingCurve || 30;
     const liquidityGrowth = liquidity - 30; // Initial liquidity is 30 SOL
 
@@ -73,7 +77,7 @@ export function detectRug(
         const normalizedName = name.toLowerCase().trim();
         const lastSeen = recentTokenNames.get(normalizedName);
         if (lastSeen && lastSeen.mint !== token.mint) {
-            const timeSinceLastSeen = Date.now() - lastSeen.timestamp;
+            const timeSinceLastSeen = now() - lastSeen.timestamp;
             // If we've seen this name recently (within cooldown), it's likely a copycat
             if (timeSinceLastSeen < NAME_COOLDOWN) {
                 // In high-risk mode, be more lenient
@@ -96,7 +100,7 @@ export function detectRug(
         }
 
         // Record this name + mint for future detection
-        recentTokenNames.set(normalizedName, { timestamp: Date.now(), mint: token.mint });
+        recentTokenNames.set(normalizedName, { timestamp: now(), mint: token.mint });
     }
 
     // === Suspicious Name Patterns ===
@@ -176,6 +180,12 @@ export function detectRug(
         }
     }
 
+    // === Snipers / Bundles (first slots after launch) ===
+    if (!isRug && snipers && snipers.flaggedWallets.length > 0) {
+        warnings.push(`⚠️ ${describeSnipers(snipers)}${snipers.exactSlots ? '' : ' - slots estimated'}`);
+        confidence = Math.max(confidence, snipers.sniped ? 60 : 30);
+    }
+
     return {
         isRug,
         reason,
@@ -208,11 +218,11 @@ export function clearNameCache(): void {
  * Get statistics about detected rugs
  */
 export function getRugStats(): { totalNamesTracked: number; recentNames: string[] } {
-    const now = Date.now();
+    const timeNow = now();
     const recentNames: string[] = [];
 
     for (const [name, data] of recentTokenNames.entries()) {
-        if (now - data.timestamp < NAME_COOLDOWN) {
+        if (timeNow - data.timestamp < NAME_COOLDOWN) {
             recentNames.push(name);
         }
     }
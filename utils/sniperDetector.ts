@@ -0,0 +1,197 @@
+import { Connection, ParsedInstruction, ParsedTransactionWithMeta, PartiallyDecodedInstruction, PublicKey } from '@solana/web3.js';
+import { TokenData } from '../components/LiveFeed';
+import { TOKEN_DECIMALS, TOKEN_TOTAL_SUPPLY } from './bondingCurve';
+import { now } from './clock';
+import { TradeObserved } from './marketBus';
+import { rpcCache, scopedKey } from './rpcCache';
+import { withLane } from './rpcPool';
+import { TapeLaunch, TradeTape } from './tradeTape';
+
+/**
+ * Sniper & Bundle Detection
+ * Inspects a token's taped trades in the first few slots after launch for the usual ways a
+ * launch gets pre-bought: wallets buying in the create slot, wallets the deployer funded, and
+ * Jito-style bundles (several wallets landing buys in one slot). Helius log trades carry exact
+ * slots; PumpPortal trades are placed by receive time, one slot per ~400ms.
+ */
+
+export type SniperFlag = 'create-slot' | 'deployer-funded' | 'bundle';
+
+export interface FlaggedWallet {
+    wallet: string;
+    flags: SniperFlag[];
+    slot: number; // First buy, in slots after the create
+    tokens: number; // Net tokens bought in the window
+    supplyPct: number;
+}
+
+export interface SniperReport {
+    sniperSupplyPct: number; // Supply held by flagged wallets after their window trades
+    flaggedWallets: FlaggedWallet[]; // Largest holders first
+    createSlotBuyers: number;
+    bundles: number; // Slots with grouped buys
+    exactSlots: boolean; // False when slots were estimated from receive times
+    windowComplete: boolean; // False while the window is still open
+    sniped: boolean; // Over the avoidSnipers thresholds
+}
+
+export interface SniperConfig {
+    windowSlots: number; // Slots after the create that count as sniping
+    bundleMinWallets: number; // Distinct buyers in one slot that make a bundle
+    maxSniperSupplyPct: number; // avoidSnipers: reject at or above this much supply sniped
+    maxFlaggedWallets: number; // avoidSnipers: ... or this many flagged wallets
+    checkFunding: boolean; // Look up deployer transfers (two RPC reads per deployer)
+}
+
+export const DEFAULT_SNIPER_CONFIG: SniperConfig = {
+    windowSlots: 5,
+    bundleMinWallets: 3,
+    maxSniperSupplyPct: 15,
+    maxFlaggedWallets: 5,
+    checkFunding: true
+};
+
+const SLOT_MS = 400;
+const FUNDING_LOOKBACK = 25; // Deployer transactions searched for transfers out
+const TOTAL_SUPPLY = Number(TOKEN_TOTAL_SUPPLY) / 10 ** TOKEN_DECIMALS; // UI units, like trade token amounts
+
+// === ANALYSIS ===
+
+/** Slots between the create and a trade; estimated from receive times when the feed has no slots */
+const slotOffset = (trade: TradeObserved, launch: TapeLaunch) =>
+    trade.slot !== undefined && launch.slot !== undefined
+        ? trade.slot - launch.slot
+        : Math.max(0, Math.floor((trade.timestamp - launch.time) / SLOT_MS));
+
+/** Milliseconds until the sniper window after `launch` has passed (0 once it has) */
+export const sniperWindowRemaining = (launch: TapeLaunch, config: Partial<SniperConfig> = {}) => {
+    const windowSlots = config.windowSlots ?? DEFAULT_SNIPER_CONFIG.windowSlots;
+    return Math.max(0, launch.time + windowSlots * SLOT_MS - now());
+};
+
+/**
+ * Score the window trades. `fundedByDeployer` is the set of wallets the deployer sent SOL to
+ * (see getDeployerFunded); the deployer's own buys are never counted as sniping.
+ */
+export const analyzeSnipers = (
+    token: TokenData,
+    trades: TradeObserved[],
+    launch: TapeLaunch,
+    fundedByDeployer: Set<string> = new Set(),
+    config: Partial<SniperConfig> = {}
+): SniperReport => {
+    const { windowSlots, bundleMinWallets, maxSniperSupplyPct, maxFlaggedWallets } = { ...DEFAULT_SNIPER_CONFIG, ...config };
+    const wallets = new Map<string, { slot: number; tokens: number; flags: Set<SniperFlag> }>();
+    const buyersBySlot = new Map<number, Set<string>>();
+
+    for (const trade of trades) {
+        if (!trade.trader || trade.trader === token.traderPublicKey) continue;
+        const slot = slotOffset(trade, launch);
+        if (slot > windowSlots) continue;
+
+        let wallet = wallets.get(trade.trader);
+        if (!wallet) {
+            wallet = { slot, tokens: 0, flags: new Set() };
+            wallets.set(trade.trader, wallet);
+        }
+        if (trade.side === 'sell') {
+            wallet.tokens -= trade.tokenAmount;
+            continue;
+        }
+        wallet.tokens += trade.tokenAmount;
+        wallet.slot = Math.min(wallet.slot, slot);
+        if (slot === 0) wallet.flags.add('create-slot');
+        if (fundedByDeployer.has(trade.trader)) wallet.flags.add('deployer-funded');
+
+        const buyers = buyersBySlot.get(slot) || new Set<string>();
+        buyers.add(trade.trader);
+        buyersBySlot.set(slot, buyers);
+    }
+
+    let bundles = 0;
+    buyersBySlot.forEach(buyers => {
+        if (buyers.size < bundleMinWallets) return;
+        bundles++;
+        buyers.forEach(buyer => wallets.get(buyer)!.flags.add('bundle'));
+    });
+
+    const flaggedWallets: FlaggedWallet[] = [];
+    wallets.forEach((wallet, address) => {
+        if (wallet.flags.size === 0) return;
+        const tokens = Math.max(0, wallet.tokens);
+        flaggedWallets.push({ wallet: address, flags: Array.from(wallet.flags), slot: wallet.slot, tokens, supplyPct: (tokens / TOTAL_SUPPLY) * 100 });
+    });
+    flaggedWallets.sort((a, b) => b.tokens - a.tokens);
+
+    const sniperSupplyPct = flaggedWallets.reduce((sum, wallet) => sum + wallet.supplyPct, 0);
+    return {
+        sniperSupplyPct,
+        flaggedWallets,
+        createSlotBuyers: flaggedWallets.filter(wallet => wallet.flags.includes('create-slot')).length,
+        bundles,
+        exactSlots: launch.slot !== undefined && trades.every(trade => trade.slot !== undefined),
+        windowComplete: sniperWindowRemaining(launch, config) === 0,
+        sniped: sniperSupplyPct >= maxSniperSupplyPct || flaggedWallets.length >= maxFlaggedWallets
+    };
+};
+
+// === DEPLOYER FUNDING ===
+
+const transferredTo = (tx: ParsedTransactionWithMeta | null, source: string): string[] => {
+    if (!tx || tx.meta?.err) return [];
+    const instructions: (ParsedInstruction | PartiallyDecodedInstruction)[] = [
+        ...tx.transaction.message.instructions,
+        ...(tx.meta?.innerInstructions || []).flatMap(inner => inner.instructions)
+    ];
+    return instructions
+        .filter((ix): ix is ParsedInstruction => 'parsed' in ix && ix.program === 'system')
+        .filter(ix => ix.parsed?.type === 'transfer' && ix.parsed.info?.source === source)
+        .map(ix => ix.parsed.info.destination as string);
+};
+
+/** Wallets the deployer sent SOL to in its recent transactions (one signature page + one batched read) */
+export const getDeployerFunded = async (deployer: string, connection: Connection): Promise<Set<string>> => {
+    const conn = withLane(connection, 'analysis');
+    try {
+        const wallets = await rpcCache.get('funding', scopedKey(connection, deployer), async () => {
+            const signatures = await conn.getSignaturesForAddress(new PublicKey(deployer), { limit: FUNDING_LOOKBACK });
+            const ok = signatures.filter(sig => !sig.err).map(sig => sig.signature);
+            if (ok.length === 0) return [];
+            const txs = await conn.getParsedTransactions(ok, { maxSupportedTransactionVersion: 0 });
+            return txs.flatMap(tx => transferredTo(tx, deployer));
+        });
+        return new Set(wallets);
+    } catch (e) {
+        console.warn(`Deployer funding lookup failed for ${deployer.slice(0, 8)}...`, e);
+        return new Set();
+    }
+};
+
+/**
+ * Full report for a taped token: window trades plus the deployer-funding lookup (only made when
+ * someone other than the deployer bought in the window). Null until the tape has trades.
+ */
+export const detectSnipers = async (
+    token: TokenData,
+    tape: TradeTape,
+    connection: Connection,
+    config: Partial<SniperConfig> = {}
+): Promise<SniperReport | null> => {
+    const trades = tape.getTrades(token.mint);
+    const launch = tape.getLaunch(token.mint);
+    if (trades.length === 0 || !launch) return null;
+
+    const { windowSlots, checkFunding } = { ...DEFAULT_SNIPER_CONFIG, ...config };
+    const hasEarlyBuyers = trades.some(trade => trade.side === 'buy' && trade.trader !== token.traderPublicKey && slotOffset(trade, launch) <= windowSlots);
+    const funded = checkFunding && hasEarlyBuyers && token.traderPublicKey ? await getDeployerFunded(token.traderPublicKey, connection) : new Set<string>();
+    return analyzeSnipers(token, trades, launch, funded, config);
+};
+
+/** One-line summary for logs and rug warnings */
+export const describeSnipers = (report: SniperReport) => {
+    const counts = (['create-slot', 'deployer-funded', 'bundle'] as SniperFlag[])
+        .map(flag => [flag, report.flaggedWallets.filter(wallet => wallet.flags.includes(flag)).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([flag, count]) => `${count} ${flag}`);
+    return `${report.flaggedWallets.length} sniper wallet(s) hold ${report.sniperSupplyPct.toFixed(1)}% of supply (${counts.join(', ')})`;
+};
@@ -1,5 +1,10 @@
 import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, Transaction, SystemProgram, sendAndConfirmTransaction } from "@solana/web3.js";
 import bs58 from "bs58";
+import { now } from './clock';
+import { BondingCurveState, decodeBondingCurve, getCurveProgress, priceFromReserves } from './bondingCurve';
+import { getRpcPool, RpcEndpointConfig, RpcPool } from './rpcPool';
+import { getAccountBatcher, rpcCache, scopedKey } from './rpcCache';
+import { getRateLimiter, RPC_PLAN_TIERS, RpcPlanTier } from './rateLimiter';
 
 // Default to a known stable endpoint instead of the public node which 403s frequently
 const DEFAULT_RPC = "https://rpc.ankr.com/solana";
@@ -17,15 +22,39 @@ const isValidHeliusKey = (key: string): boolean => {
     return uuidPattern.test(trimmed) || trimmed.length >= 32;
 };
 
-export const createConnection = (heliusKey?: string) => {
+const PUBLIC_RPC = "https://api.mainnet-beta.solana.com";
+const EXTRA_RPC_REQUESTS_PER_SECOND = 25; // Unknown plan: a conservative paid-tier rate
+
+const heliusUrl = (heliusKey: string) => `https://mainnet.helius-rpc.com/?api-key=${heliusKey}`;
+
+/**
+ * Pooled connection over every configured endpoint (see rpcPool.ts): Helius when the key is
+ * valid (rate-limited to `heliusPlan`), then any extra endpoints, then the public fallbacks
+ * at a low weight.
+ */
+export const createConnection = (heliusKey?: string, extraEndpoints: string[] = [], heliusPlan: RpcPlanTier = 'free') => {
     const useHelius = heliusKey && isValidHeliusKey(heliusKey);
-    const url = useHelius ? `https://mainnet.helius-rpc.com/?api-key=${heliusKey}` : DEFAULT_RPC;
+    const endpoints: RpcEndpointConfig[] = [];
     if (useHelius) {
         console.log(`[createConnection] Using Helius RPC with key: ${heliusKey.substring(0, 8)}...`);
+        endpoints.push({ name: 'Helius', url: heliusUrl(heliusKey), weight: 3, requestsPerSecond: RPC_PLAN_TIERS[heliusPlan].requestsPerSecond });
     } else {
         console.log(`[createConnection] Using public RPC (Helius key: ${heliusKey ? 'invalid' : 'not provided'})`);
     }
-    return new Connection(url, "confirmed");
+    extraEndpoints.map(url => url.trim()).filter(Boolean).forEach(url => {
+        try {
+            const { protocol, hostname } = new URL(url);
+            if (protocol === 'https:' || protocol === 'http:') endpoints.push({ name: hostname, url, weight: 2, requestsPerSecond: EXTRA_RPC_REQUESTS_PER_SECOND });
+        } catch (e) {
+            console.warn(`[createConnection] Ignoring invalid RPC endpoint: ${url}`);
+        }
+    });
+    // Ankr's public tier has no WebSocket; account subscriptions go to Helius or the public node
+    endpoints.push({ name: 'Ankr', url: DEFAULT_RPC, weight: 1, methods: { subscribe: 0 }, requestsPerSecond: RPC_PLAN_TIERS.public.requestsPerSecond });
+    // The public node 403s heavy methods; keep it for light calls and broadcasts
+    endpoints.push({ name: 'Solana', url: PUBLIC_RPC, weight: 0.5, methods: { getProgramAccounts: 0, getTokenLargestAccounts: 0 }, requestsPerSecond: RPC_PLAN_TIERS.public.requestsPerSecond });
+    if (endpoints.length > 2) console.log(`[createConnection] RPC pool: ${endpoints.map(e => e.name).join(', ')}`);
+    return new RpcPool(endpoints).asConnection();
 };
 
 // Initial connection
@@ -69,7 +98,8 @@ export const recoverWallet = (privateKeyString: string) => {
     }
 };
 
-export const getTokenBalance = async (walletPubKey: string, mintAddress: string, conn: Connection = connection) => {
+/** Tokens the wallet holds of a mint; null when the lookup failed (not the same as holding none) */
+export const getTokenBalance = async (walletPubKey: string, mintAddress: string, conn: Connection = connection): Promise<number | null> => {
     try {
         const userPub = new PublicKey(walletPubKey);
         const accounts = await conn.getParsedTokenAccountsByOwner(userPub, { mint: new PublicKey(mintAddress) });
@@ -82,7 +112,7 @@ export const getTokenBalance = async (walletPubKey: string, mintAddress: string,
         return total;
     } catch (error) {
         console.error("Error fetching token balance:", error);
-        return 0;
+        return null;
     }
 };
 
@@ -90,12 +120,12 @@ export const getHolderCount = async (mintAddress: string, conn: Connection = con
     try {
         const TOKEN_PROGRAM_ID = new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA");
         const timeout = new Promise<null>((resolve) => setTimeout(() => resolve(null), 3000));
-        const fetchHolders = (async () => {
+        const fetchHolders = rpcCache.get('holders', scopedKey(conn, `count:${mintAddress}`), async () => {
             const accounts = await conn.getProgramAccounts(TOKEN_PROGRAM_ID, {
                 filters: [{ dataSize: 165 }, { memcmp: { offset: 0, bytes: mintAddress } }]
             });
             return accounts.length;
-        })();
+        });
         const result = await Promise.race([fetchHolders, timeout]);
         return result;
     } catch (error) {
@@ -116,47 +146,54 @@ const handleRpcError = (method: string, error: any) => {
 
     if (isRateLimit || isAccessDenied) {
         globalRpcErrorCount++;
-        lastGlobalErrorTime = Date.now();
+        lastGlobalErrorTime = now();
         console.warn(`[solanaManager] RPC ${isRateLimit ? 'Rate Limit' : 'Access Denied'} on ${method}. Total errors: ${globalRpcErrorCount}`);
     }
     return { isRateLimit, isAccessDenied };
 };
 
-const isCircuitBroken = () => {
-    if (globalRpcErrorCount > 15 && (Date.now() - lastGlobalErrorTime) < 60000) return true;
-    if ((Date.now() - lastGlobalErrorTime) > 120000) globalRpcErrorCount = 0;
+// A pooled connection is only "broken" while every endpoint is cooling down; the error
+// counter still guards direct Helius API calls (metadata)
+const isCircuitBroken = (conn?: Connection) => {
+    const pool = conn && getRpcPool(conn);
+    if (pool) return pool.isDown();
+    if (globalRpcErrorCount > 15 && (now() - lastGlobalErrorTime) < 60000) return true;
+    if ((now() - lastGlobalErrorTime) > 120000) globalRpcErrorCount = 0;
     return false;
 };
 
+/** Bonding-curve account data -> reserves in the units the rest of the bot uses (SOL, raw tokens) */
+export const decodePumpData = (data: Buffer) => pumpDataFromCurve(decodeBondingCurve(data));
+
+/** `getPumpData`-style view of curve state (e.g. reserves carried by a TradeEvent) */
+export const pumpDataFromCurve = (curve: BondingCurveState) => {
+    const vTokensInBondingCurve = Number(curve.virtualTokenReserves);
+    const vSolInBondingCurve = Number(curve.virtualSolReserves) / LAMPORTS_PER_SOL;
+    const realTokenReserves = Number(curve.realTokenReserves);
+    const realSolReserves = Number(curve.realSolReserves) / LAMPORTS_PER_SOL;
+    const tokenTotalSupply = Number(curve.tokenTotalSupply);
+    const bondingCurveProgress = getCurveProgress(curve);
+    return { vTokensInBondingCurve, vSolInBondingCurve, realTokenReserves, realSolReserves, tokenTotalSupply, complete: curve.complete, bondingCurveProgress };
+};
+
 export const getPumpData = async (mintAddress: string, conn: Connection = connection) => {
-    if (isCircuitBroken()) return null;
+    if (isCircuitBroken(conn)) return null;
     const coolDownUntil = rateLimitCoolDowns.get(mintAddress) || 0;
-    if (Date.now() < coolDownUntil) return null;
+    if (now() < coolDownUntil) return null;
 
     try {
-        const PUMP_FUN_PROGRAM_ID = new PublicKey("6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P");
-        const mint = new PublicKey(mintAddress);
-        const [bondingCurve] = PublicKey.findProgramAddressSync(
-            [Buffer.from("bonding-curve"), mint.toBuffer()],
-            PUMP_FUN_PROGRAM_ID
-        );
-
-        const account = await conn.getAccountInfo(bondingCurve);
-        if (!account) return null;
-
-        const vTokensInBondingCurve = Number(account.data.readBigUInt64LE(8));
-        const vSolInBondingCurve = Number(account.data.readBigUInt64LE(16)) / LAMPORTS_PER_SOL;
-        const tokenTotalSupply = Number(account.data.readBigUInt64LE(24));
-
-        const bondingCurveProgress = Math.max(0, Math.min(100,
-            100 - (((vTokensInBondingCurve - 206900000) * 100) / 793100000)
-        ));
+        // Concurrent reads of the same curve share a request; reads in the same tick share a batch
+        const data = await rpcCache.get('curve', scopedKey(conn, mintAddress), async () => {
+            const account = await getAccountBatcher(conn).load(getBondingCurveAddress(mintAddress));
+            return account ? decodePumpData(account.data) : null;
+        });
+        if (!data) return null;
 
         rateLimitCoolDowns.delete(mintAddress);
-        return { vTokensInBondingCurve, vSolInBondingCurve, tokenTotalSupply, bondingCurveProgress };
+        return data;
     } catch (e: any) {
         const { isRateLimit } = handleRpcError('getPumpData', e);
-        if (isRateLimit) rateLimitCoolDowns.set(mintAddress, Date.now() + 15000);
+        if (isRateLimit) rateLimitCoolDowns.set(mintAddress, now() + 15000);
         return null;
     }
 };
@@ -165,23 +202,37 @@ export const getPumpPrice = async (mintAddress: string, conn: Connection = conne
     const data = await getPumpData(mintAddress, conn);
     if (!data || data.vTokensInBondingCurve === 0) return 0;
     if (data.vSolInBondingCurve < 0.1) return 0;
-    const price = (data.vSolInBondingCurve / data.vTokensInBondingCurve) * 1000000;
+    const price = priceFromReserves(data.vSolInBondingCurve, data.vTokensInBondingCurve);
     if (price < 0.000000001) return 0;
     return price;
 };
 
 export const metadataCache = new Map<string, { name: string, symbol: string, uri: string }>();
 
+// Metadata never changes: `metadataCache` keeps it forever, the request cache only coalesces lookups
 export const getTokenMetadata = async (mintAddress: string, heliusKey?: string): Promise<{ name: string, symbol: string, uri: string }> => {
-    if (metadataCache.has(mintAddress)) return metadataCache.get(mintAddress)!;
+    if (metadataCache.has(mintAddress)) {
+        rpcCache.recordHit('metadata');
+        return metadataCache.get(mintAddress)!;
+    }
     if (!heliusKey) return { name: "Unknown", symbol: "???", uri: "" };
+    return rpcCache.coalesce('metadata', mintAddress, () => fetchTokenMetadata(mintAddress, heliusKey));
+};
 
+const fetchTokenMetadata = async (mintAddress: string, heliusKey: string): Promise<{ name: string, symbol: string, uri: string }> => {
     if (isCircuitBroken()) return { name: "RPC Blocked", symbol: "BLOCK", uri: "" };
     const coolDownUntil = rateLimitCoolDowns.get(mintAddress) || 0;
-    if (Date.now() < coolDownUntil) return { name: "Cooling Down", symbol: "...", uri: "" };
+    if (now() < coolDownUntil) return { name: "Cooling Down", symbol: "...", uri: "" };
+
+    try {
+        // Lowest lane of the same Helius quota the RPC pool uses; shed when the queue is full
+        await getRateLimiter(heliusUrl(heliusKey)).acquire('metadata');
+    } catch (e) {
+        return { name: "Rate Limited", symbol: "...", uri: "" };
+    }
 
     try {
-        const response = await fetch(`https://mainnet.helius-rpc.com/?api-key=${heliusKey}`, {
+        const response = await fetch(heliusUrl(heliusKey), {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -191,12 +242,12 @@ export const getTokenMetadata = async (mintAddress: string, heliusKey?: string):
 
         if (response.status === 429) {
             handleRpcError('getTokenMetadata (429)', null);
-            rateLimitCoolDowns.set(mintAddress, Date.now() + 30000);
+            rateLimitCoolDowns.set(mintAddress, now() + 30000);
             return { name: "Rate Limited", symbol: "429", uri: "" };
         }
         if (response.status === 403) {
             handleRpcError('getTokenMetadata (403)', null);
-            rateLimitCoolDowns.set(mintAddress, Date.now() + 60000);
+            rateLimitCoolDowns.set(mintAddress, now() + 60000);
             return { name: "Forbidden", symbol: "403", uri: "" };
         }
 
@@ -229,10 +280,10 @@ export const getBondingCurveAddress = (mintAddress: string) => {
 export const getHolderStats = async (mintAddress: string, conn: Connection = connection) => {
     try {
         const mint = new PublicKey(mintAddress);
-        const largestAccounts = await conn.getTokenLargestAccounts(mint);
+        const largestAccounts = await rpcCache.get('holders', scopedKey(conn, `largest:${mintAddress}`), () => conn.getTokenLargestAccounts(mint));
         if (!largestAccounts || !largestAccounts.value) return null;
 
-        const supplyResponse = await conn.getTokenSupply(mint);
+        const supplyResponse = await rpcCache.get('supply', scopedKey(conn, mintAddress), () => conn.getTokenSupply(mint));
         const totalSupply = supplyResponse.value.uiAmount || 0;
         const bondingCurve = getBondingCurveAddress(mintAddress).toBase58();
 
@@ -1,6 +1,7 @@
 import { Connection } from '@solana/web3.js';
 import { getPumpData } from './solanaManager';
 import { TokenData } from '../components/LiveFeed';
+import { now } from './clock';
 
 export interface SpeedTradeSignal {
     shouldBuy: boolean;
@@ -43,7 +44,7 @@ export async function analyzeSpeedTrade(
             };
         }
 
-        const age = (Date.now() - token.timestamp) / 1000; // Age in seconds
+        const age = (now() - token.timestamp) / 1000; // Age in seconds
         const liquidity = currentData.vSolInBondingCurve;
         const initialLiquidity = 30; // Pump.fun starts at 30 SOL
         const liquidityGrowth = liquidity - initialLiquidity;
@@ -53,7 +54,7 @@ export async function analyzeSpeedTrade(
         let momentum = 0;
         if (previousData && age > 0) {
             const liquidityChange = liquidity - previousData.liquidity;
-            const timeDiff = (Date.now() - previousData.timestamp) / 1000;
+            const timeDiff = (now() - previousData.timestamp) / 1000;
             momentum = timeDiff > 0 ? (liquidityChange / timeDiff) * 60 : 0; // SOL per minute
         } else {
             // Estimate momentum from current growth
@@ -232,7 +233,7 @@ export async function analyzeSpeedTrade(
  * Quick pre-filter for speed trading (ultra-fast rejection)
  */
 export function quickSpeedCheck(token: TokenData): { passed: boolean; reason?: string } {
-    const age = (Date.now() - token.timestamp) / 1000;
+    const age = (now() - token.timestamp) / 1000;
     
     // Too old for speed trading
     if (age > 600) {
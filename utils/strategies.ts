@@ -0,0 +1,638 @@
+import { Connection } from '@solana/web3.js';
+import { TokenData } from '../components/LiveFeed';
+import type { AdvancedConfig as BotAdvancedConfig } from '../components/BotControls';
+import type { ActiveTrade, TradingConfig } from './tradingEngine';
+import type { PipelineConfig } from './tokenPipeline';
+import { getPumpData } from './solanaManager';
+import { quickFirstBuyerCheck, analyzeFirstBuyer } from './firstBuyer';
+import { quickSpeedCheck, analyzeSpeedTrade } from './speedTrader';
+import { analyzeEnhanced, AnalyzerProfile, EnhancedAnalysis } from './enhancedAnalyzer';
+import { now, sleep } from './clock';
+import { priceFromReserves, INITIAL_VIRTUAL_TOKEN_RESERVES } from './bondingCurve';
+import { ExitDecision, ExitParams, ExitRule, ExitVariables, rulesFromParams, evaluateExitRules, DEFAULT_EXIT_PARAMS, CASCADING_TP } from './exitRules';
+import type { TradeTape } from './tradeTape';
+
+/**
+ * Trading Strategies
+ * Each strategy decides whether to enter a token, how much to put in, which exit rules
+ * (see exitRules.ts) the position carries and when to exit it - built-ins by evaluating those
+ * rules (`planExit`). Built-ins are registered below; call `registerStrategy`
+ * to add one, and it shows up in BotControls and the CLI without touching the pipeline.
+ */
+
+// === INTERFACE ===
+
+/** Everything a strategy can see / do while evaluating a token */
+export interface StrategyContext {
+    config: PipelineConfig;
+    connection: Connection;
+    isRetrying: boolean;
+    openTrades: number; // Open positions right now
+    tape?: TradeTape; // Per-mint trades seen on the feed
+    log: (msg: string) => void;
+    retryLater: (delayMs: number) => boolean; // Re-run the pipeline for this token later; false if one is already pending
+}
+
+/** A decision to buy */
+export interface EntrySignal {
+    slippage: number; // %
+    initialPrice?: number; // Feed price, used when the curve can't be read at fill time
+    exitRules?: ExitRule[]; // Exit plan; engine default when omitted
+    score?: number; // Analysis score 0-100 (drives dynamic sizing)
+    amount?: number; // Strategy-chosen position size (overrides sizing)
+    finalize?: boolean; // Never look at this token again, even on retries
+}
+
+/** What a strategy sees when deciding an exit for one of its positions */
+export interface ExitContext {
+    config: TradingConfig;
+    rules: ExitRule[]; // The trade's plan (TP/SL from the config when it has none)
+    vars: ExitVariables;
+}
+
+/** BotControls defaults applied when the strategy is picked */
+export interface StrategyPreset {
+    amount: number;
+    takeProfit: number;
+    stopLoss: number;
+    advanced?: BotAdvancedConfig;
+}
+
+export interface Strategy {
+    id: string; // `mode` in configs
+    name: string;
+    icon: string;
+    description: string;
+    color: string; // Accent for the BotControls button (hex)
+    rugProfile: 'safe' | 'medium' | 'high'; // detectRug strictness
+    preset?: StrategyPreset;
+    evaluateEntry(token: TokenData, context: StrategyContext): Promise<EntrySignal | null>;
+    sizePosition(signal: EntrySignal, context: StrategyContext): number;
+    evaluateExit(trade: ActiveTrade, context: ExitContext): ExitDecision | null; // null or a hold decision: keep holding
+}
+
+// === REGISTRY ===
+
+const registry = new Map<string, Strategy>();
+
+export const registerStrategy = (strategy: Strategy) => {
+    registry.set(strategy.id, strategy);
+};
+
+export const hasStrategy = (id: string) => registry.has(id);
+
+/** Registered strategy for a mode; unknown modes get the custom strategy */
+export const getStrategy = (id: string): Strategy => registry.get(id) || registry.get('custom')!;
+
+export const listStrategies = (): Strategy[] => Array.from(registry.values());
+
+// === SHARED BUILDING BLOCKS ===
+
+const feedPrice = (token: TokenData) => token.vSolInBondingCurve > 0 && token.vTokensInBondingCurve > 0
+    ? priceFromReserves(token.vSolInBondingCurve, token.vTokensInBondingCurve)
+    : undefined;
+
+/** Liquidity added since launch and its rate; from the trade tape once it has trades, else the feed reserves */
+const tokenMomentum = (token: TokenData, tape?: TradeTape) => {
+    const age = (now() - token.timestamp) / 1000; // seconds
+    const flow = tape?.getFlow(token.mint);
+    if (flow) {
+        const reserves = flow.lastTrade.vSolInBondingCurve;
+        const liquidityGrowth = reserves ? reserves - 30 : flow.total.netSolFlow;
+        const span = Math.min(Math.max(age, 1), 60); // The 60s window only covers the token's life so far
+        const momentum = (flow.windows['60s'].netSolFlow / span) * 60; // SOL per minute
+        return { age, liquidityGrowth, momentum };
+    }
+    const liquidityGrowth = (token.vSolInBondingCurve || 30) - 30; // Initial liquidity is 30 SOL
+    const momentum = age > 0 ? (liquidityGrowth / age) * 60 : 0; // SOL per minute
+    return { age, liquidityGrowth, momentum };
+};
+
+/** Default exit: the first matching rule of the trade's plan */
+export const planExit = (trade: ActiveTrade, context: ExitContext): ExitDecision | null =>
+    evaluateExitRules(context.rules, context.vars, trade.firedRules || []);
+
+/** Size from the analysis score: 0.5x-2x base, trimmed as the book fills up */
+export const sizeByScore = (signal: EntrySignal, context: StrategyContext): number => {
+    const config = context.config;
+    if (signal.amount !== undefined) return signal.amount;
+    if (signal.score === undefined) return config.amount;
+
+    let positionSize = config.amount;
+    if (config.dynamicSizing) {
+        const scoreMultiplier = Math.max(0.5, Math.min(2.0, (signal.score / 50))); // 0.5x to 2.0x
+        positionSize = config.amount * scoreMultiplier;
+
+        if (Math.abs(positionSize - config.amount) > 0.001) {
+            context.log(`💰 Dynamic Sizing: ${positionSize.toFixed(4)} SOL (${scoreMultiplier > 1 ? '+' : ''}${((scoreMultiplier - 1) * 100).toFixed(0)}% based on score ${signal.score})`);
+        }
+    } else {
+        context.log(`💰 Fixed Position: ${positionSize.toFixed(4)} SOL (Dynamic Sizing OFF)`);
+    }
+
+    // Portfolio heat management: Reduce position size if too many trades open
+    if (context.openTrades >= 3) {
+        positionSize *= 0.7; // Reduce by 30% if 3+ trades open
+    } else if (context.openTrades >= 2) {
+        positionSize *= 0.85; // Reduce by 15% if 2 trades open
+    }
+
+    // Cap position size for safety
+    positionSize = Math.min(positionSize, config.amount * 2); // Never more than 2x base
+    positionSize = Math.max(positionSize, config.amount * 0.3); // Never less than 0.3x base
+    return positionSize;
+};
+
+/**
+ * TREND VERIFICATION (Anti-Falling Knife)
+ * Re-reads the curve 1.5s later; rejects if price fell or (optionally) liquidity drained.
+ * Updates the token's reserves for an accurate entry price.
+ */
+const verifyTrend = async (token: TokenData, context: StrategyContext, label: string, checkDrain: boolean): Promise<boolean> => {
+    context.log(`🔎 Verifying ${label} for ${token.symbol}...`);
+    await sleep(1500);
+    const freshData = await getPumpData(token.mint, context.connection);
+    if (!freshData) { context.log(`⚠️ Verification failed for ${token.symbol}`); return false; }
+
+    const freshPrice = priceFromReserves(freshData.vSolInBondingCurve, freshData.vTokensInBondingCurve);
+    const oldPrice = priceFromReserves(token.vSolInBondingCurve || 30, token.vTokensInBondingCurve || Number(INITIAL_VIRTUAL_TOKEN_RESERVES));
+    const change = ((freshPrice - oldPrice) / oldPrice) * 100;
+
+    if (change < -0.5) {
+        context.log(`📉 FALLING KNIFE: ${token.symbol} dropped ${change.toFixed(2)}% in 1.5s. Rejected.`);
+        return false;
+    }
+    if (checkDrain && freshData.vSolInBondingCurve < (token.vSolInBondingCurve || 30) * 0.9) {
+        context.log(`📉 LIQUIDITY DRAIN: ${token.symbol} liquidity dropped. Rejected.`);
+        return false;
+    }
+    context.log(`✅ ${label} Valid: ${change >= 0 ? '+' : ''}${change.toFixed(2)}%`);
+
+    token.vSolInBondingCurve = freshData.vSolInBondingCurve;
+    token.vTokensInBondingCurve = freshData.vTokensInBondingCurve;
+    return true;
+};
+
+interface EnhancedEntryOptions {
+    analyzer: AnalyzerProfile;
+    minScore: number;
+    slippage: number; // Used when the advanced settings don't set one
+    exit: Pick<ExitParams, 'maxHoldTime' | 'trailingStop' | 'momentumExit' | 'minHoldTime'>;
+    staged?: (config: PipelineConfig) => ExitRule[]; // Strategy-specific partial exits
+    skipWarmup?: boolean; // Skip the dead-air / too-new / sniper-trap checks (momentum plays)
+    momentumMinScore?: number; // Score floor for young tokens with strong momentum
+    noFallbackBuy?: boolean; // If analysis throws, skip instead of buying on the feed data alone
+}
+
+/** Simplified analysis for simulator tokens (no chain data) */
+const simulatedAnalysis = (token: TokenData): Omit<EnhancedAnalysis, 'tiers'> => {
+    const devBuy = (token.vSolInBondingCurve || 30) - 30;
+    const isRug = devBuy < 0.5 || token.name === "Garbage Coin";
+    return {
+        score: isRug ? 20 : 75,
+        riskLevel: isRug ? 'high' : 'low',
+        passed: !isRug && devBuy >= 1.0,
+        reasons: isRug ? ['Simulated rug token'] : [],
+        warnings: devBuy < 1.0 ? ['Low dev buy'] : [],
+        strengths: devBuy >= 2.0 ? ['High dev commitment'] : [],
+        bondingCurveProgress: 5,
+        marketCap: token.vSolInBondingCurve || 30,
+        metrics: {
+            holderCount: 100,
+            deployerHoldings: 10,
+            top10Concentration: 40,
+            volume24h: 5,
+            buySellRatio: 0.7,
+            bondingCurveVelocity: 0.5,
+            liquidityDepth: token.vSolInBondingCurve || 30,
+            contractSecurity: { freezeAuthority: true, mintAuthority: true, updateAuthority: true }
+        }
+    };
+};
+
+/** ENHANCED TOKEN ANALYSIS - the 4-Tier path most strategies share */
+const enhancedEntry = async (token: TokenData, context: StrategyContext, options: EnhancedEntryOptions): Promise<EntrySignal | null> => {
+    const { config, isRetrying } = context;
+    const exitRules = rulesFromParams({ takeProfit: config.takeProfit, stopLoss: config.stopLoss, ...options.exit }, options.staged?.(config));
+
+    try {
+        // ENTRY CONFIRMATION: Wait for momentum confirmation before buying
+        const { age, liquidityGrowth, momentum } = tokenMomentum(token, context.tape);
+
+        if (!options.skipWarmup) {
+            // 1. MOMENTUM HURDLE: If token is >30s old and has < 0.5 SOL growth, it's inactive.
+            // This saves HUNDREDS of RPC calls by skipping "Dead Air" tokens.
+            if (age > 30 && liquidityGrowth < 0.5) return null;
+
+            // 2. SNIPER TRAP CHECK: If token pumped too fast (>20 SOL in <30s), it's likely a bot trap
+            if (age < 30 && liquidityGrowth > 20) {
+                context.log(`🚨 Sniper Trap Avoided: ${token.symbol} pumped +${liquidityGrowth.toFixed(2)} SOL in ${age.toFixed(1)}s. Too risky.`);
+                return null;
+            }
+
+            // 3. DEAD TOKEN CHECK: If token is old (>2m) with no momentum, skip
+            if (age > 120 && momentum < 0.1) {
+                context.log(`💤 Dead Token: ${token.symbol} is ${Math.floor(age / 60)}m old with 0 momentum. Skipping.`);
+                return null;
+            }
+
+            if (age < 30) {
+                if (liquidityGrowth < 0.1 && momentum < 1.5) {
+                    if (context.retryLater(15000)) {
+                        context.log(`⏳ ${token.symbol} too new (${age.toFixed(1)}s). Monitoring for activity...`);
+                    }
+                    return null;
+                } else if (momentum >= 1.5) {
+                    context.log(`🚀 High Momentum detected for ${token.symbol} (${momentum.toFixed(1)} SOL/min)! Bypassing wait...`);
+                }
+            }
+        }
+
+        // Full enhanced analysis
+        // NOTE: Demo mode uses REAL tokens; only simulator tokens skip the chain analysis
+        const analysis: Omit<EnhancedAnalysis, 'tiers'> = token.mint.startsWith('SIM') && !config.isDemo
+            ? simulatedAnalysis(token)
+            : await analyzeEnhanced(token, context.connection, config.heliusKey, options.analyzer, config.advanced, context.tape);
+
+        let minScore = options.minScore;
+        if (config.isDemo) {
+            // Paper trading: Lower thresholds to allow more trades for testing
+            minScore = Math.max(15, minScore - 10);
+        }
+
+        // Strong early momentum can justify a lower floor (still keeps a minimum quality)
+        if (options.momentumMinScore !== undefined && age < 120 && momentum > 2) {
+            minScore = config.isDemo ? options.momentumMinScore - 5 : options.momentumMinScore;
+        }
+
+        // If RPC is failing (analysis might be incomplete), be very lenient
+        const hasRpcIssues = analysis.warnings.some(w => w.includes('RPC') || w.includes('Access denied') || w.includes('rate limit') || w.includes('basic analysis'));
+        if (config.isDemo && hasRpcIssues) {
+            minScore = Math.max(10, minScore - 20); // Lower by 20 points, minimum 10
+            context.log(`⚠️ RPC issues detected - lowering score threshold to ${minScore} for ${token.symbol}`);
+        }
+
+        if (analysis.score < minScore) {
+            context.log(`🚫 Rejected: ${token.symbol} - Score: ${analysis.score}/100 (Need: ${minScore}) - ${analysis.riskLevel.toUpperCase()} risk`);
+            context.log(`   Bonding Curve: ${analysis.bondingCurveProgress.toFixed(1)}% | Market Cap: ${analysis.marketCap.toFixed(1)} SOL`);
+            analysis.reasons.forEach(r => context.log(`   ${r}`));
+            analysis.warnings.forEach(w => context.log(`   ⚠️ ${w}`));
+            return null;
+        }
+
+        if (!analysis.passed) {
+            // PERSISTENT MONITORING: If rejected for being 'too early', retry until it's at least 60s old
+            if (analysis.reasons.some(r => r.includes('Too early')) && age < 60) {
+                const waitTime = isRetrying ? 20000 : 15000;
+                if (context.retryLater(waitTime)) {
+                    context.log(`⏳ ${token.symbol} still early (${analysis.bondingCurveProgress.toFixed(1)}%). Re-checking in ${waitTime / 1000}s...`);
+                }
+                return null;
+            }
+
+            context.log(`🚫 ${isRetrying ? 'Retry ' : ''}Rejected: ${token.symbol} - ${analysis.reasons.join(', ')}`);
+            return null;
+        }
+
+        context.log(`✅ APPROVED: ${token.symbol} - Score: ${analysis.score}/100 (${analysis.riskLevel} risk)`);
+        context.log(`   📊 Bonding Curve: ${analysis.bondingCurveProgress.toFixed(1)}% | Market Cap: ${analysis.marketCap.toFixed(1)} SOL`);
+        context.log(`   👥 Holders: ${analysis.metrics.holderCount} | Deployer: ${analysis.metrics.deployerHoldings.toFixed(1)}% | Top 10: ${analysis.metrics.top10Concentration.toFixed(1)}%`);
+        context.log(`   💰 Volume: ${analysis.metrics.volume24h.toFixed(1)} SOL | Buy Ratio: ${(analysis.metrics.buySellRatio * 100).toFixed(0)}%`);
+        context.log(`   ⚡ Velocity: ${analysis.metrics.bondingCurveVelocity.toFixed(2)}%/min | Liquidity: ${analysis.metrics.liquidityDepth.toFixed(1)} SOL`);
+        analysis.strengths.forEach(s => context.log(`   ✓ ${s}`));
+        analysis.warnings.forEach(w => context.log(`   ⚠️ ${w}`));
+
+        return {
+            slippage: config.advanced?.slippage || options.slippage,
+            initialPrice: feedPrice(token),
+            exitRules,
+            score: analysis.score,
+            finalize: true
+        };
+    } catch (error: any) {
+        context.log(`❌ Analysis Error for ${token.symbol}: ${error.message}`);
+        console.error("Token analysis error:", error);
+        // Fallback: proceed on the feed data alone, unless the strategy requires a full analysis
+        if (options.noFallbackBuy) {
+            const initialBuySol = (token.vSolInBondingCurve || 30) - 30;
+            if (initialBuySol < 2.0) context.log(`Fallback: Skipping ${token.symbol} - Dev Buy too low`);
+            return null;
+        }
+        return { slippage: options.slippage, initialPrice: feedPrice(token), exitRules, amount: config.amount };
+    }
+};
+
+/** Strategy that only runs the enhanced analysis */
+const enhancedStrategy = (
+    info: Pick<Strategy, 'id' | 'name' | 'icon' | 'description' | 'color' | 'rugProfile' | 'preset'>,
+    options: EnhancedEntryOptions
+): Strategy => ({
+    ...info,
+    evaluateEntry: (token, context) => enhancedEntry(token, context, options),
+    sizePosition: sizeByScore,
+    evaluateExit: planExit
+});
+
+// Exit profiles of the enhanced path: Sniper/Degen = short hold, Runner = long
+const LONG_HOLD = { maxHoldTime: 3600, trailingStop: false, momentumExit: false };
+
+// === BUILT-IN STRATEGIES ===
+
+registerStrategy(enhancedStrategy({
+    id: 'runner',
+    name: 'Runner',
+    icon: '🏃',
+    description: 'Tier 0-4 | High Profitability',
+    color: '#14f195',
+    rugProfile: 'medium',
+    preset: {
+        // THE ULTRA PROFITABLE CONFIG (Tier 0-4 Strict)
+        amount: 0.01,
+        takeProfit: 30,
+        stopLoss: 10,
+        advanced: {
+            minLiquidity: 10,
+            maxLiquidity: 1000,
+            minVolume: 5,
+            minHolderCount: 20, // Tier 2 requirement
+            maxTop10: 40,
+            maxDev: 5,
+            minBondingCurve: 5, // Tier 4 (5-15% sweet spot)
+            maxBondingCurve: 20,
+            minVelocity: 0.5,
+            rugCheckStrictness: "strict",
+            requireSocials: true, // Tier 3 requirement
+            avoidSnipers: true,
+            slippage: 20
+        }
+    }
+}, { analyzer: 'runner', minScore: 70, slippage: 15, exit: { ...LONG_HOLD, trailingStop: true } }));
+
+registerStrategy(enhancedStrategy({
+    id: 'sniper',
+    name: 'Sniper',
+    icon: '🎯',
+    description: 'Tier 0 Only | Speed Focus',
+    color: '#00d4ff',
+    rugProfile: 'medium',
+    preset: {
+        // FIRST BUYER / SPEED (Tier 0 Only)
+        amount: 0.005,
+        takeProfit: 50,
+        stopLoss: 15,
+        advanced: {
+            minLiquidity: 1,
+            maxLiquidity: 500,
+            minVolume: 0,
+            minHolderCount: 0,
+            maxTop10: 90,
+            maxDev: 50,
+            minBondingCurve: 0,
+            maxBondingCurve: 10,
+            minVelocity: 0,
+            rugCheckStrictness: "lenient",
+            requireSocials: false,
+            avoidSnipers: false,
+            slippage: 30
+        }
+    }
+}, { analyzer: 'sniper', minScore: 60, slippage: 25, exit: { ...LONG_HOLD, maxHoldTime: 300 } }));
+
+registerStrategy(enhancedStrategy({
+    id: 'degen',
+    name: 'Degen',
+    icon: '🎰',
+    description: 'Momentum | High Risk',
+    color: '#ffcc00',
+    rugProfile: 'medium',
+    preset: {
+        // MOMENTUM / HIGH RISK
+        amount: 0.01,
+        takeProfit: 100,
+        stopLoss: 25,
+        advanced: {
+            minLiquidity: 5,
+            maxLiquidity: 2000,
+            minVolume: 2,
+            minHolderCount: 10,
+            maxTop10: 60,
+            maxDev: 15,
+            minBondingCurve: 1,
+            maxBondingCurve: 60,
+            minVelocity: 1.0, // Needs velocity
+            rugCheckStrictness: "standard",
+            requireSocials: false,
+            avoidSnipers: false,
+            slippage: 25
+        }
+    }
+}, { analyzer: 'degen', minScore: 20, slippage: 15, exit: { ...LONG_HOLD, maxHoldTime: 120, momentumExit: true } }));
+
+registerStrategy(enhancedStrategy({
+    id: 'custom',
+    name: 'Custom',
+    icon: '⚙️',
+    description: 'Manual control',
+    color: '#888888',
+    rugProfile: 'medium'
+}, { analyzer: 'runner', minScore: 50, slippage: 15, exit: LONG_HOLD }));
+
+registerStrategy(enhancedStrategy({
+    id: 'safe',
+    name: 'Safe',
+    icon: '🛡️',
+    description: 'Strict tiers | Dev buy required',
+    color: '#4ade80',
+    rugProfile: 'safe'
+}, { analyzer: 'runner', minScore: 70, slippage: 15, exit: LONG_HOLD, noFallbackBuy: true }));
+
+registerStrategy(enhancedStrategy({
+    id: 'medium',
+    name: 'Medium',
+    icon: '⚖️',
+    description: 'Strict tiers | Break-even at +25%',
+    color: '#a78bfa',
+    rugProfile: 'medium'
+}, {
+    analyzer: 'runner',
+    minScore: 50,
+    slippage: 15,
+    exit: LONG_HOLD,
+    // BREAK-EVEN PROTECTION: Sell 80% at 25% profit to reclaim original SOL
+    // Only if takeProfit is set higher than 25% and nothing was sold yet
+    staged: config => config.takeProfit > 25
+        ? [{ when: 'pnl >= 25 && exits == 0', sell: 80, label: '🛡️ BREAK-EVEN PROTECTION' }]
+        : []
+}));
+
+// HIGH RISK: momentum fast track for brand-new tokens, normal analysis otherwise.
+// Fast-track rules still respect rug detection - don't buy obvious scams!
+const highRisk = enhancedStrategy({
+    id: 'high',
+    name: 'High Risk',
+    icon: '🔥',
+    description: 'Momentum fast track',
+    color: '#f97316',
+    rugProfile: 'high'
+}, {
+    analyzer: 'degen',
+    minScore: 20,
+    slippage: 25,
+    exit: { ...LONG_HOLD, minHoldTime: 10 }, // Give momentum entries 10s before any exit
+    skipWarmup: true,
+    momentumMinScore: 20
+});
+
+registerStrategy({
+    ...highRisk,
+    evaluateEntry: async (token, context) => {
+        try {
+            const { age, liquidityGrowth, momentum } = tokenMomentum(token, context.tape);
+            const liquidity = token.vSolInBondingCurve || 30;
+            const fastExit = rulesFromParams({ ...DEFAULT_EXIT_PARAMS, minHoldTime: 10 });
+
+            // FAST TRACK: Very new tokens (<60s) with strong momentum, or new tokens (<2 min) with very strong momentum
+            const earlyMomentum = age < 60 && momentum > 1.5 && liquidityGrowth > 2;
+            const strongMomentum = age < 120 && momentum > 3 && liquidityGrowth > 5;
+            if ((earlyMomentum || strongMomentum) && liquidity >= 1) {
+                context.log(`🚀 HIGH RISK FAST TRACK: ${token.symbol} - ${age.toFixed(0)}s old, ${momentum.toFixed(1)} SOL/min momentum, +${liquidityGrowth.toFixed(2)} SOL`);
+                context.log(earlyMomentum
+                    ? `   ⚡ NEW + MOMENTUM: Early momentum play (rug checks passed)`
+                    : `   ⚡ STRONG MOMENTUM: High buy activity detected (rug checks passed)`);
+
+                if (!(await verifyTrend(token, context, 'Trend', earlyMomentum))) return null;
+                return { slippage: 15, initialPrice: feedPrice(token), exitRules: fastExit, amount: context.config.amount };
+            }
+        } catch (error: any) {
+            // If fast track fails, fall through to normal analysis
+            context.log(`⚠️ Fast track error for ${token.symbol}, using normal analysis: ${error.message}`);
+        }
+        return highRisk.evaluateEntry(token, context);
+    }
+});
+
+// VELOCITY: early-ignition fast track + cascading take profit (see CASCADING_TP)
+
+const velocity = enhancedStrategy({
+    id: 'velocity',
+    name: 'Velocity',
+    icon: '🏎️',
+    description: 'Early ignition | Cascading TP',
+    color: '#ec4899',
+    rugProfile: 'medium'
+}, { analyzer: 'degen', minScore: 20, slippage: 15, exit: LONG_HOLD, staged: () => CASCADING_TP });
+
+registerStrategy({
+    ...velocity,
+    evaluateEntry: async (token, context) => {
+        try {
+            const { age, liquidityGrowth, momentum } = tokenMomentum(token, context.tape);
+
+            // BASIC RUG CHECK: Don't buy obvious scams even if they are fast
+            const isObviousRug = token.name.toLowerCase().includes("rug") ||
+                token.name.toLowerCase().includes("test") ||
+                token.symbol.toLowerCase().includes("rug");
+
+            // VELOCITY FAST TRACK: New tokens (<60s) with explosive initial volume
+            if (!isObviousRug && age < 60 && momentum > 1.0 && liquidityGrowth > 1.5 && (token.vSolInBondingCurve || 30) >= 1) {
+                context.log(`🏎️ VELOCITY FAST TRACK: ${token.symbol} - ${age.toFixed(0)}s old, ${momentum.toFixed(1)} SOL/min momentum`);
+                context.log(`   🎯 EARLY IGNITION: Token is launching with conviction. Entering trade.`);
+
+                if (!(await verifyTrend(token, context, 'Velocity Trend', false))) return null;
+                return { slippage: 15, initialPrice: feedPrice(token), exitRules: rulesFromParams(DEFAULT_EXIT_PARAMS, CASCADING_TP), amount: context.config.amount };
+            }
+        } catch (e) { }
+        return velocity.evaluateEntry(token, context);
+    }
+});
+
+// SPEED TRADING (SCALP): momentum analysis with its own tight exits
+registerStrategy({
+    id: 'scalp',
+    name: 'Scalp',
+    icon: '⚡',
+    description: 'Momentum scalps | Tight exits',
+    color: '#facc15',
+    rugProfile: 'medium',
+    evaluateEntry: async (token, context) => {
+        try {
+            const quickCheck = quickSpeedCheck(token);
+            if (!quickCheck.passed) {
+                context.log(`⚡ Speed Reject: ${token.symbol} - ${quickCheck.reason}`);
+                return null;
+            }
+
+            const speedSignal = await analyzeSpeedTrade(token, context.connection);
+            if (!speedSignal.shouldBuy || speedSignal.confidence < 50) {
+                context.log(`⚡ Speed Reject: ${token.symbol} - ${speedSignal.reason} (Confidence: ${speedSignal.confidence}%)`);
+                return null;
+            }
+
+            context.log(`⚡ SPEED BUY: ${token.symbol} - ${speedSignal.reason}`);
+            context.log(`   Confidence: ${speedSignal.confidence}% | Momentum: ${speedSignal.momentum.toFixed(2)} SOL/min`);
+            context.log(`   Exit Strategy: TP ${speedSignal.exitStrategy.takeProfit}% | SL ${speedSignal.exitStrategy.stopLoss}% | Max Hold: ${speedSignal.exitStrategy.maxHoldTime}s`);
+
+            return { slippage: 15, initialPrice: feedPrice(token), exitRules: rulesFromParams(speedSignal.exitStrategy), amount: context.config.amount };
+        } catch (error: any) {
+            context.log(`❌ Speed Trading Error for ${token.symbol}: ${error.message}`);
+            return null;
+        }
+    },
+    sizePosition: sizeByScore,
+    evaluateExit: planExit
+});
+
+// FIRST BUYER: buy immediately, staged exits after a short minimum hold
+registerStrategy({
+    id: 'first',
+    name: 'First Buyer',
+    icon: '🚀',
+    description: 'Ultra-early entry | Staged exits',
+    color: '#38bdf8',
+    rugProfile: 'medium',
+    evaluateEntry: async (token, context) => {
+        try {
+            const quickCheck = quickFirstBuyerCheck(token);
+            if (!quickCheck.passed) {
+                context.log(`🚀 First Reject: ${token.symbol} - ${quickCheck.reason}`);
+                return null;
+            }
+
+            const firstSignal = await analyzeFirstBuyer(token, context.connection);
+            if (!firstSignal.shouldBuy || firstSignal.confidence < 60) {
+                context.log(`🚀 First Reject: ${token.symbol} - ${firstSignal.reason} (Confidence: ${firstSignal.confidence}%)`);
+                return null;
+            }
+
+            context.log(`🚀 FIRST BUYER: ${token.symbol} - ${firstSignal.reason}`);
+            context.log(`   Confidence: ${firstSignal.confidence}% | Entry Time: ${new Date(firstSignal.entryTime).toLocaleTimeString()}`);
+            const tp2Text = firstSignal.exitStrategy.takeProfit2 ? `, 30% @ ${firstSignal.exitStrategy.takeProfit2}%` : '';
+            context.log(`   Exit Strategy: ${firstSignal.exitStrategy.timeBasedExit}s hold | Staged: 50% @ ${firstSignal.exitStrategy.takeProfit}%${tp2Text} | SL ${firstSignal.exitStrategy.stopLoss}%`);
+
+            return {
+                slippage: 15,
+                initialPrice: feedPrice(token),
+                exitRules: rulesFromParams({
+                    takeProfit: firstSignal.exitStrategy.takeProfit,
+                    takeProfit2: firstSignal.exitStrategy.takeProfit2,
+                    stopLoss: firstSignal.exitStrategy.stopLoss,
+                    maxHoldTime: firstSignal.exitStrategy.timeBasedExit,
+                    trailingStop: false,
+                    momentumExit: firstSignal.exitStrategy.momentumExit,
+                    minHoldTime: firstSignal.exitStrategy.minHoldTime
+                }),
+                // Research-based sizing from the analysis
+                amount: firstSignal.exitStrategy.positionSize || context.config.amount
+            };
+        } catch (error: any) {
+            context.log(`❌ First Buyer Error for ${token.symbol}: ${error.message}`);
+            return null;
+        }
+    },
+    sizePosition: (signal, context) => {
+        const amount = signal.amount ?? context.config.amount;
+        context.log(`   💰 Position Size: ${amount} SOL (confidence-based)`);
+        return amount;
+    },
+    evaluateExit: planExit
+});
@@ -296,7 +296,7 @@ async function calculateMetrics(
             // Estimate dev holdings percentage (rough approximation)
             if (devBalance === 0) {
                 devHoldings = 0;
-            } else {
+            } else if (devBalance !== null) {
                 // This is a rough estimate - in reality we'd need to check total supply
                 devHoldings = Math.min(1.0, devBalance / (pumpData.tokenTotalSupply / 1000000));
             }
@@ -0,0 +1,224 @@
+import { Connection } from '@solana/web3.js';
+import { TokenData } from '../components/LiveFeed';
+import { TradingEngine } from './tradingEngine';
+import { detectRug } from './rugDetector';
+import { AdvancedConfig } from './enhancedAnalyzer';
+import { getStrategy, StrategyContext } from './strategies';
+import { now, schedule } from './clock';
+import { TradeTape, tradeTape } from './tradeTape';
+import { SniperReport, detectSnipers, describeSnipers, sniperWindowRemaining } from './sniperDetector';
+
+const minTimeBetweenTrades = 500; // Reduced to 500ms to catch rapid pumps (was 2s)
+
+/** The subset of the BotControls config that drives entries */
+export interface PipelineConfig {
+    mode: string;
+    amount: number;
+    takeProfit: number;
+    stopLoss: number;
+    isRunning: boolean;
+    isDemo: boolean;
+    heliusKey?: string;
+    maxConcurrentTrades: number;
+    dynamicSizing: boolean;
+    advanced?: AdvancedConfig;
+}
+
+export interface TokenPipelineOptions {
+    engine: TradingEngine;
+    connection: Connection;
+    getConfig: () => PipelineConfig;
+    hasWallet: () => boolean;
+    getBalance: () => number; // Real wallet balance in SOL, -1 while still loading
+    onAutoStop?: () => void; // Called when the balance is too low to keep trading
+    tape?: TradeTape; // Defaults to the tape on the shared market bus
+}
+
+/**
+ * Token Entry Pipeline
+ * Takes every token from the feed through deduplication, rug detection and the
+ * shared safety checks, asks the configured Strategy whether (and how much) to buy,
+ * then hands buys to the TradingEngine.
+ * Framework-free so the dashboard and the CLI runner share one entry path.
+ */
+export class TokenPipeline {
+    private options: TokenPipelineOptions;
+    private connection: Connection;
+    private sessionMints = new Set<string>();
+    private processedMints = new Set<string>(); // deduplication
+    private pendingRetries = new Set<string>();
+    private lastTradeTime = 0;
+    private flickerCount = 0;
+
+    constructor(options: TokenPipelineOptions) {
+        this.options = options;
+        this.connection = options.connection;
+    }
+
+    private get engine() { return this.options.engine; }
+    private get tape() { return this.options.tape || tradeTape; }
+
+    setConnection(connection: Connection) { this.connection = connection; }
+
+    handleToken = async (token: TokenData, isRetrying = false) => {
+        const config = this.options.getConfig();
+        if (!config.isRunning) return;
+
+        if (isRetrying) {
+            this.pendingRetries.delete(token.mint);
+            this.engine.log(`🔄 Re-analyzing ${token.symbol} (Wait period over)...`);
+        }
+
+        // 1. DEDUPLICATION (Return if already handled)
+        if (this.sessionMints.has(token.mint) || this.processedMints.has(token.mint)) {
+            // Allow re-analysis if we are explicitly retrying
+            if (!isRetrying) return;
+        }
+
+        // 2. RATE LIMITING & CONCURRENCY (Return but DON'T mark as processed, so we can retry)
+        const timeSinceLastTrade = now() - this.lastTradeTime;
+        if (timeSinceLastTrade < minTimeBetweenTrades) return;
+
+        const openTradesCount = this.engine.getActiveTrades().filter(t => t.status === "open" || t.status === "buying").length;
+        if (openTradesCount >= (config.maxConcurrentTrades || 1)) return;
+
+        if (!this.options.hasWallet() && !config.isDemo) return;
+
+        // Check currently active trades to prevent duplicate positions
+        if (this.engine.getActiveTrades().some(t => t.mint === token.mint && t.status !== 'closed')) {
+            return;
+        }
+
+        // === ADVANCED RUG DETECTION (Early Filter) ===
+        // This catches obvious scams BEFORE expensive analysis
+        // Snipers can only be judged once the feed has taped trades; the funding lookup only runs for avoidSnipers
+        const sniperConfig = { checkFunding: !!config.advanced?.avoidSnipers };
+        const snipers = this.tape.getTrades(token.mint).length > 0 ? await detectSnipers(token, this.tape, this.connection, sniperConfig) : null;
+        const rugDetection = detectRug(token, getStrategy(config.mode).rugProfile, snipers);
+
+        if (rugDetection.isRug) {
+            // Don't log rugs during retries to keep console clean
+            if (!isRetrying) {
+                this.engine.log(`🚨 RUG DETECTED: ${token.symbol} - ${rugDetection.reason} (Confidence: ${rugDetection.confidence}%)`);
+            }
+            this.processedMints.add(token.mint); // Finalized as rug
+            return;
+        }
+
+        // Log warnings but don't reject (for high-risk mode)
+        if (rugDetection.warnings.length > 0) {
+            rugDetection.warnings.forEach(warning => {
+                this.engine.log(`⚠️ ${token.symbol}: ${warning}`);
+            });
+        }
+
+        if (this.avoidSnipers(token, config, snipers, isRetrying)) return;
+
+        // Safety check: Don't buy tokens with suspiciously low liquidity or already crashed
+        // Use token data from WebSocket if available (avoids RPC call)
+        const liquidity = token.vSolInBondingCurve || 30;
+        const liquidityGrowth = liquidity - 30; // Initial liquidity is 30 SOL
+
+        // Reject tokens that have already crashed (negative liquidity growth > 5 SOL)
+        if (liquidityGrowth < -5) {
+            this.engine.log(`🚨 Rejected ${token.symbol}: Liquidity draining (${liquidityGrowth.toFixed(2)} SOL) - likely rug`);
+            return;
+        }
+
+        // Reject tokens with very low liquidity (honeypot risk)
+        if (liquidity < 1) {
+            this.engine.log(`🚨 Rejected ${token.symbol}: Liquidity too low (${liquidity.toFixed(2)} SOL) - honeypot risk`);
+            return;
+        }
+
+        // For demo mode with RPC issues, use token data from WebSocket directly
+        // This allows trading even when RPC is rate-limited
+        if (config.isDemo && token.vSolInBondingCurve && token.vTokensInBondingCurve) {
+            // We have data from WebSocket, can proceed with analysis using this data
+            // The enhanced analyzer will try to fetch more data but can work with what we have
+        }
+
+        // Auto-stop if balance is critical (ONLY for real trading with real wallet)
+        // Demo mode has its own balance management in usePumpTrader
+        const MIN_RESERVE = 0.01; // Reduced from 0.02 to allow more trades
+        const currentBal = this.options.getBalance();
+
+        if (!config.isDemo && this.options.hasWallet()) {
+            // IMPORTANT: If balance is still -1, it means the RPC fetch hasn't returned yet.
+            // We skip the check to avoid "False Zero" auto-stops.
+            if (currentBal === -1) return;
+
+            // Don't check balance immediately after a trade (give 10s grace period for balance to update)
+            const timeSinceLastTrade = now() - this.lastTradeTime;
+            if (timeSinceLastTrade < 10000) return;
+
+            if (currentBal === 0) {
+                // Flicker protection: If balance is exactly 0, it might be a refresh glitch
+                this.flickerCount++;
+                if (this.flickerCount < 3) return;
+            } else {
+                this.flickerCount = 0; // Reset on good reading
+            }
+
+            // Only auto-stop if balance is truly insufficient for next trade + fees
+            if (currentBal < (config.amount + MIN_RESERVE)) {
+                this.engine.log(`⚠️ CRITICAL BALANCE: Have ${currentBal.toFixed(4)} SOL, need ~${(config.amount + MIN_RESERVE).toFixed(4)} SOL. Auto-stopping bot.`);
+                this.options.onAutoStop?.();
+                return;
+            }
+        }
+
+        // Demo mode: Stop if balance gets too low (prevent burning through all demo SOL)
+        if (config.isDemo) {
+            // This will be checked in buyToken, but we can add a warning here
+            // The actual check happens in the trading engine
+        }
+
+        // === STRATEGY: entry decision + sizing ===
+        const strategy = getStrategy(config.mode);
+        const context: StrategyContext = {
+            config,
+            connection: this.connection,
+            isRetrying,
+            openTrades: this.engine.getActiveTrades().filter(t => t.status === "open" || t.status === "buying").length,
+            tape: this.options.tape || tradeTape,
+            log: msg => this.engine.log(msg),
+            retryLater: delayMs => {
+                if (this.pendingRetries.has(token.mint)) return false;
+                this.pendingRetries.add(token.mint);
+                schedule(() => this.handleToken(token, true).catch(e => this.engine.log(`❌ Entry pipeline error for ${token.symbol}: ${e.message}`)), delayMs);
+                return true;
+            }
+        };
+
+        const signal = await strategy.evaluateEntry(token, context);
+        if (!signal) return;
+
+        // avoidSnipers judges the whole window: instant entries would otherwise decide before other wallets' buys are taped
+        if (config.advanced?.avoidSnipers) {
+            const launch = this.tape.getLaunch(token.mint);
+            const report = this.tape.getTrades(token.mint).length > 0 ? await detectSnipers(token, this.tape, this.connection, sniperConfig) : null;
+            if (this.avoidSnipers(token, config, report, isRetrying)) return;
+            const waitMs = launch ? sniperWindowRemaining(launch, sniperConfig) : 0;
+            if (waitMs > 0) {
+                if (context.retryLater(waitMs)) this.engine.log(`⏳ ${token.symbol}: waiting ${(waitMs / 1000).toFixed(1)}s for the sniper window to close`);
+                return;
+            }
+        }
+
+        const positionSize = strategy.sizePosition(signal, context);
+
+        this.sessionMints.add(token.mint);
+        if (signal.finalize) this.processedMints.add(token.mint);
+        this.lastTradeTime = now();
+        await this.engine.buyToken(token.mint, token.symbol, positionSize, signal.slippage, signal.initialPrice, signal.exitRules, strategy.id);
+    };
+
+    /** avoidSnipers filter: finalizes (and skips) tokens whose launch was sniped or bundled */
+    private avoidSnipers(token: TokenData, config: PipelineConfig, snipers: SniperReport | null, isRetrying: boolean) {
+        if (!config.advanced?.avoidSnipers || !snipers?.sniped) return false;
+        if (!isRetrying) this.engine.log(`🎯 Avoiding ${token.symbol}: ${describeSnipers(snipers)}`);
+        this.processedMints.add(token.mint);
+        return true;
+    }
+}
@@ -0,0 +1,104 @@
+import { Connection, TransactionError, VersionedTransaction } from '@solana/web3.js';
+
+/**
+ * Trade Errors
+ * Every live transaction is simulated before it is sent. A failing simulation (or a
+ * landed transaction that failed) is decoded from its instruction error and program logs
+ * into a TradeError: a code, a sentence a user can act on, and what the order should do
+ * next - retry as is, re-quote (rebuild with fresh reserves and wider slippage) or abort.
+ */
+
+export type TradeErrorCode =
+    | 'SLIPPAGE_EXCEEDED'
+    | 'CURVE_COMPLETE'
+    | 'INSUFFICIENT_FUNDS'
+    | 'ACCOUNT_NOT_INITIALIZED'
+    | 'BLOCKHASH_NOT_FOUND'
+    | 'STATUS_UNKNOWN'
+    | 'UNKNOWN';
+
+export type TradeErrorAction = 'retry' | 'requote' | 'abort';
+
+const ACTIONS: Record<TradeErrorCode, TradeErrorAction> = {
+    SLIPPAGE_EXCEEDED: 'requote',
+    CURVE_COMPLETE: 'abort',
+    INSUFFICIENT_FUNDS: 'abort',
+    ACCOUNT_NOT_INITIALIZED: 'retry', // Usually a token too new for the RPC node
+    BLOCKHASH_NOT_FOUND: 'retry',
+    STATUS_UNKNOWN: 'retry', // Confirmation gave up on the RPC: check the wallet, then try again
+    UNKNOWN: 'abort'
+};
+
+export class TradeError extends Error {
+    readonly code: TradeErrorCode;
+    readonly action: TradeErrorAction;
+    readonly logs: string[];
+
+    constructor(code: TradeErrorCode, message: string, logs: string[] = []) {
+        super(message);
+        this.name = 'TradeError';
+        this.code = code;
+        this.action = ACTIONS[code];
+        this.logs = logs;
+    }
+}
+
+// pump.fun program errors (Anchor custom codes from its IDL)
+const PUMP_ERRORS: Record<number, [TradeErrorCode, string]> = {
+    6002: ['SLIPPAGE_EXCEEDED', 'Slippage exceeded: the buy would cost more SOL than allowed'],
+    6003: ['SLIPPAGE_EXCEEDED', 'Slippage exceeded: the sell would return less SOL than allowed'],
+    6005: ['CURVE_COMPLETE', 'Bonding curve complete: the token has migrated off pump.fun'],
+    6007: ['ACCOUNT_NOT_INITIALIZED', 'pump.fun program not initialized for this token']
+};
+
+const ANCHOR_ACCOUNT_NOT_INITIALIZED = 3012;
+
+const errorName = (err: TransactionError): string => typeof err === 'string' ? err : Object.keys(err as object)[0] || 'Unknown';
+
+/** Decode a transaction error (from simulation or a landed transaction) plus its logs, if any */
+export const decodeTransactionError = (err: TransactionError, logs: string[] = []): TradeError => {
+    const text = logs.join('\n');
+    const name = errorName(err);
+
+    if (name === 'InstructionError') {
+        const [, inner] = (err as { InstructionError: [number, unknown] }).InstructionError;
+        const custom = inner && typeof inner === 'object' && 'Custom' in inner ? (inner as { Custom: number }).Custom : null;
+
+        if (custom !== null && PUMP_ERRORS[custom]) {
+            const [code, message] = PUMP_ERRORS[custom];
+            return new TradeError(code, message, logs);
+        }
+        if (custom === ANCHOR_ACCOUNT_NOT_INITIALIZED || /AccountNotInitialized/.test(text)) {
+            return new TradeError('ACCOUNT_NOT_INITIALIZED', 'Account not initialized: the bonding curve or token account does not exist yet', logs);
+        }
+        // System transfer (custom 1 + "insufficient lamports") or SPL token (custom 1 + "insufficient funds")
+        if (/insufficient lamports/i.test(text)) {
+            return new TradeError('INSUFFICIENT_FUNDS', 'Insufficient SOL for the trade, fees and rent', logs);
+        }
+        if (/insufficient funds/i.test(text)) {
+            return new TradeError('INSUFFICIENT_FUNDS', 'Insufficient token balance for the sell', logs);
+        }
+        if (inner === 'InvalidAccountData' || inner === 'UninitializedAccount') {
+            return new TradeError('ACCOUNT_NOT_INITIALIZED', 'Account not initialized: the token account does not exist', logs);
+        }
+        return new TradeError('UNKNOWN', `Program error: ${JSON.stringify(inner)}`, logs);
+    }
+
+    switch (name) {
+        case 'InsufficientFundsForFee':
+        case 'InsufficientFundsForRent':
+        case 'AccountNotFound': // Fee payer has never held SOL
+            return new TradeError('INSUFFICIENT_FUNDS', 'Insufficient SOL to pay the transaction fee or rent', logs);
+        case 'BlockhashNotFound':
+            return new TradeError('BLOCKHASH_NOT_FOUND', 'Blockhash not found: the RPC node is behind, retrying', logs);
+        default:
+            return new TradeError('UNKNOWN', `Transaction error: ${JSON.stringify(err)}`, logs);
+    }
+};
+
+/** Simulate a signed transaction; throws the decoded TradeError if it would fail */
+export const preflight = async (connection: Connection, transaction: VersionedTransaction) => {
+    const { value } = await connection.simulateTransaction(transaction, { commitment: 'confirmed', sigVerify: false });
+    if (value.err) throw decodeTransactionError(value.err, value.logs || []);
+    return value;
+};
@@ -0,0 +1,166 @@
+import { now } from './clock';
+import { MarketBus, TradeObserved, marketBus } from './marketBus';
+
+/**
+ * Trade Tape
+ * Per-mint record of every buy and sell the feeds report (PumpPortal `subscribeTokenTrade`,
+ * decoded Helius TradeEvents, replayed trades). Each new launch is watched on the bus for
+ * `trackMs`, so the tape starts at the first trade after creation and rolling flow metrics
+ * can replace the reserve-based momentum estimates.
+ */
+
+export type FlowWindow = '10s' | '60s' | '5m';
+
+export const FLOW_WINDOWS: Record<FlowWindow, number> = {
+    '10s': 10000,
+    '60s': 60000,
+    '5m': 300000
+};
+
+export interface FlowMetrics {
+    buys: number;
+    sells: number;
+    uniqueBuyers: number;
+    volumeSol: number; // Buys + sells
+    netSolFlow: number; // Buy SOL - sell SOL
+    largestTradeSol: number;
+    buySellRatio: number; // Share of trades that were buys, 0-1 (0 when there were none)
+}
+
+export interface TokenFlow {
+    windows: Record<FlowWindow, FlowMetrics>;
+    total: FlowMetrics; // Everything on the tape, i.e. since launch for tracked mints
+    lastTrade: TradeObserved;
+    trackedSince: number;
+}
+
+export interface TradeTapeConfig {
+    trackMs: number; // How long each new launch is watched (default 5m, the longest window)
+    maxMints: number; // Oldest tapes are dropped past this
+    maxTradesPerMint: number;
+}
+
+export const DEFAULT_TRADE_TAPE_CONFIG: TradeTapeConfig = {
+    trackMs: FLOW_WINDOWS['5m'],
+    maxMints: 500,
+    maxTradesPerMint: 2000
+};
+
+/** When a taped mint launched: receive time, and the create slot when the feed reports it */
+export interface TapeLaunch {
+    time: number;
+    slot?: number;
+}
+
+interface Tape {
+    since: number;
+    slot?: number;
+    trades: TradeObserved[];
+}
+
+export const flowMetrics = (trades: TradeObserved[]): FlowMetrics => {
+    const buyers = new Set<string>();
+    let buys = 0, sells = 0, volumeSol = 0, netSolFlow = 0, largestTradeSol = 0;
+    for (const trade of trades) {
+        if (trade.side === 'buy') {
+            buys++;
+            netSolFlow += trade.solAmount;
+            if (trade.trader) buyers.add(trade.trader);
+        } else {
+            sells++;
+            netSolFlow -= trade.solAmount;
+        }
+        volumeSol += trade.solAmount;
+        largestTradeSol = Math.max(largestTradeSol, trade.solAmount);
+    }
+    const count = buys + sells;
+    return { buys, sells, uniqueBuyers: buyers.size, volumeSol, netSolFlow, largestTradeSol, buySellRatio: count > 0 ? buys / count : 0 };
+};
+
+export class TradeTape {
+    private config: TradeTapeConfig;
+    private tapes = new Map<string, Tape>(); // Insertion order = tracking order
+    private unsubscribers: (() => void)[];
+
+    constructor(private bus: MarketBus, config: Partial<TradeTapeConfig> = {}) {
+        this.config = { ...DEFAULT_TRADE_TAPE_CONFIG, ...config };
+        this.unsubscribers = [
+            bus.on('TokenCreated', ({ token, slot }) => this.track(token.mint, slot)),
+            bus.on('TradeObserved', trade => this.record(trade))
+        ];
+    }
+
+    setConfig(config: Partial<TradeTapeConfig>) { this.config = { ...this.config, ...config }; }
+    getConfig(): TradeTapeConfig { return this.config; }
+
+    /** Start taping a mint's trades (no-op if already taped) */
+    track(mint: string, slot?: number) {
+        this.expire();
+        if (this.tapes.has(mint)) return;
+        this.tapes.set(mint, { since: now(), slot, trades: [] });
+        this.bus.watchTrades(mint);
+    }
+
+    untrack(mint: string) {
+        if (!this.tapes.delete(mint)) return;
+        this.bus.unwatchTrades(mint);
+    }
+
+    isTracking(mint: string) {
+        return this.tapes.has(mint);
+    }
+
+    /** Trades on the tape, oldest first */
+    getTrades(mint: string): TradeObserved[] {
+        return this.tapes.get(mint)?.trades.slice() || [];
+    }
+
+    getLaunch(mint: string): TapeLaunch | null {
+        const tape = this.tapes.get(mint);
+        return tape ? { time: tape.since, slot: tape.slot } : null;
+    }
+
+    /** Rolling flow for a mint; null until the tape has seen a trade */
+    getFlow(mint: string): TokenFlow | null {
+        const tape = this.tapes.get(mint);
+        if (!tape || tape.trades.length === 0) return null;
+
+        const at = now();
+        const windows = {} as Record<FlowWindow, FlowMetrics>;
+        (Object.keys(FLOW_WINDOWS) as FlowWindow[]).forEach(window => {
+            const cutoff = at - FLOW_WINDOWS[window];
+            windows[window] = flowMetrics(tape.trades.filter(trade => trade.timestamp >= cutoff));
+        });
+        return {
+            windows,
+            total: flowMetrics(tape.trades),
+            lastTrade: tape.trades[tape.trades.length - 1],
+            trackedSince: tape.since
+        };
+    }
+
+    close() {
+        this.unsubscribers.forEach(off => off());
+        this.unsubscribers = [];
+        Array.from(this.tapes.keys()).forEach(mint => this.untrack(mint));
+    }
+
+    private record(trade: TradeObserved) {
+        const tape = this.tapes.get(trade.mint);
+        if (!tape) return;
+        tape.trades.push(trade);
+        if (tape.trades.length > this.config.maxTradesPerMint) tape.trades.shift();
+    }
+
+    /** Drop tapes past their tracking window, oldest first, and trim to maxMints */
+    private expire() {
+        const cutoff = now() - this.config.trackMs;
+        for (const [mint, tape] of this.tapes) {
+            if (tape.since >= cutoff && this.tapes.size < this.config.maxMints) break;
+            this.untrack(mint);
+        }
+    }
+}
+
+/** Tape on the shared market bus; backtests create one on their own bus */
+export const tradeTape = new TradeTape(marketBus);
@@ -0,0 +1,1112 @@
+import { Connection, Keypair } from '@solana/web3.js';
+import { getPumpPrice, getTokenMetadata, getPumpData } from './solanaManager';
+import { TradeParams } from './pumpPortal';
+import { TypedEmitter } from './typedEmitter';
+import { now, sleep } from './clock';
+import { priceFromReserves } from './bondingCurve';
+import { PaperFillSimulator, PaperFillConfig } from './paperFill';
+import { buyCost, sellProceeds } from './fillParser';
+import { Order, OrderOptions, RetryPolicy, DEFAULT_RETRY_POLICY, createOrder, escalate, sendOrder, confirmOrder, submitOrder } from './orders';
+import { ExecutionBackend, createExecutionBackend } from './executionBackend';
+import { FeeUrgency, PriorityFeeConfig, PriorityFeeEstimator } from './priorityFees';
+import { TradeError } from './tradeErrors';
+import { withLane } from './rpcPool';
+import { PriceStream } from './priceStream';
+import { CurveUpdated, Graduated, MarketBus, marketBus } from './marketBus';
+import { ExitRule, ExitParams, ExitVariables, DEFAULT_EXIT_PARAMS, CASCADING_TP, rulesFromParams, formatExitRule } from './exitRules';
+import { getStrategy, hasStrategy, planExit } from './strategies';
+
+const SOL_FEE_RESERVE = 0.02; // Reduced from 0.05 to allow small balance trading
+const TOKEN_ACCOUNT_RENT = 0.00204; // Associated token account rent, reclaimed on full exit
+
+// Priority fee sizing for paper fills, and for live orders when fee sampling fails
+const buyPriorityFee = (amountSol: number) => amountSol <= 0.05 ? 0.0003 : Math.max(0.001, Math.min(0.003, amountSol * 0.05));
+const sellPriorityFee = (amountSolPaid: number) => amountSolPaid <= 0.05 ? 0.0003 : Math.max(0.0005, Math.min(0.002, amountSolPaid * 0.02));
+
+/** Current values of the exit-rule variables for a position */
+const exitVariables = (trade: ActiveTrade, isDemo: boolean, exits: number): ExitVariables => {
+    const t = now();
+    const hasPrices = trade.buyPrice > 0 && trade.currentPrice > 0;
+    const pnl = hasPrices ? ((trade.currentPrice - trade.buyPrice) / trade.buyPrice) * 100 : (trade.pnlPercent || 0);
+    const peak = trade.highestPrice && trade.highestPrice > trade.buyPrice ? trade.highestPrice : 0;
+    return {
+        pnl,
+        peakPnl: peak && trade.buyPrice > 0 ? ((peak - trade.buyPrice) / trade.buyPrice) * 100 : 0,
+        dropFromPeak: peak && trade.currentPrice > 0 ? ((peak - trade.currentPrice) / peak) * 100 : 0,
+        age: trade.buyTime ? (t - trade.buyTime) / 1000 : 0,
+        sinceChange: trade.lastPriceChangeTime ? (t - trade.lastPriceChangeTime) / 1000 : Infinity,
+        exits,
+        paper: isDemo ? 1 : 0
+    };
+};
+
+const STREAM_STALE_MS = 10000; // A streamed position with no push for this long is polled again
+
+/** Price fields for a new price (0 = keep the last one) and curve liquidity; null when there's no price yet */
+const pricePatch = (trade: ActiveTrade, price: number, currentLiquidity: number): Partial<ActiveTrade> | null => {
+    const priceToUse = price > 0 ? price : (trade.currentPrice > 0 ? trade.currentPrice : 0);
+    if (priceToUse <= 0) return null;
+
+    let buyPrice = trade.buyPrice;
+    if (buyPrice === 0 || buyPrice < 0.000000001) buyPrice = priceToUse;
+
+    const pnl = buyPrice > 0 ? ((priceToUse - buyPrice) / buyPrice) * 100 : 0;
+    const highestPrice = trade.highestPrice ? Math.max(trade.highestPrice, priceToUse) : priceToUse;
+
+    // Exits only happen in evaluateExits; a liquidity pull is flagged for it
+    const prevLiq = trade.lastLiquidity || 0;
+    const rugDetected = prevLiq > 5 && !!trade.lastPriceUpdate && currentLiquidity > 0 && (prevLiq - currentLiquidity) / prevLiq > 0.2;
+
+    return {
+        buyPrice,
+        currentPrice: priceToUse,
+        pnlPercent: pnl,
+        highestPrice,
+        lastPriceUpdate: now(),
+        lastPriceChangeTime: priceToUse !== trade.currentPrice ? now() : trade.lastPriceChangeTime,
+        lastLiquidity: currentLiquidity > 0 ? currentLiquidity : trade.lastLiquidity,
+        ...(rugDetected ? { rugDetected } : {})
+    };
+};
+
+const manualExit = (percent: number): ExitTrigger =>({ index: -1, label: '✋ MANUAL SELL', rule: 'manual', percent, urgency: 'normal' });
+
+/** Append an exit to the trade's audit trail; a filled partial marks its rule as taken */
+const withExit = (trade: ActiveTrade, record: ExitRecord): ActiveTrade => {
+    const firedRules = trade.firedRules || [];
+    const taken = record.outcome === 'filled' && record.percent < 100 && record.index >= 0 && !firedRules.includes(record.index);
+    return { ...trade, exits: [...(trade.exits || []), record], firedRules: taken ? [...firedRules, record.index] : firedRules };
+};
+
+// Old `partialSells` keys by the rule that set them. 80 was shared by TP2 and medium's 80% break-even
+// sell, which both left 20% held, so it marks TP2 taken; velocity's 50% level used 51.
+const LEGACY_PARTIAL_SELLS: Record<string, number> = {
+    '🎯 STAGED TP1': 50,
+    '🚀 STAGED TP2': 80,
+    '💰 VELOCITY CTP (25%)': 25,
+    '💰 VELOCITY CTP (50%)': 51,
+    '💰 VELOCITY CTP (75%)': 75
+};
+
+/** Trades persisted before exit plans carry the old parameter object; convert it on load */
+const migrateExitPlan = (trade: ActiveTrade & { exitStrategy?: ExitParams; partialSells?: { [percent: number]: boolean } }): ActiveTrade => {
+    if (trade.exitRules || !trade.exitStrategy) return trade;
+    const { exitStrategy, partialSells = {}, ...rest } = trade;
+    // Velocity's cascade came from the mode, not the stored parameters: any taken level means it was a velocity trade
+    const velocity = [25, 51, 75].some(key => partialSells[key]);
+    const exitRules = rulesFromParams(exitStrategy, velocity ? CASCADING_TP : []);
+    const firedRules = exitRules
+        .map((rule, index) => partialSells[LEGACY_PARTIAL_SELLS[rule.label || '']] ? index : -1)
+        .filter(index => index >= 0);
+    return { ...rest, exitRules, firedRules };
+};
+
+export interface ActiveTrade {
+    mint: string;
+    symbol: string;
+    buyPrice: number; // SOL per token
+    amountTokens: number; // Token balance
+    amountSolPaid?: number; // Original SOL used
+    currentPrice: number;
+    pnlPercent: number;
+    status: "buying" | "open" | "selling" | "closed"; // buying = live buy not confirmed yet
+    txId?: string;
+    lastPriceUpdate?: number;
+    lastPriceChangeTime?: number;
+    buyTime?: number; // Timestamp when bought
+    highestPrice?: number; // For trailing stop
+    exitRules?: ExitRule[]; // Ordered exit plan (see exitRules.ts), persisted with the trade
+    strategy?: string; // Id of the strategy that opened it; its evaluateExit decides the exits
+    firedRules?: number[]; // Indexes of partial-sell rules already taken
+    exits?: ExitRecord[]; // Audit trail: every exit attempted on this position
+    rugDetected?: boolean; // Liquidity pulled; exits on the next evaluation
+    order?: Order; // Latest live order for this position
+    originalAmount?: number; // Track original position size for partial sells
+    lastLiquidity?: number; // Track liquidity for rug detection
+    isPaper?: boolean; // New: Tracks if this was a demo/paper trade
+    feesPaid?: number; // Network + priority fees (SOL) paid by this position's transactions
+    pnlEstimated?: boolean; // A fill couldn't be parsed: cost or proceeds come from the wallet balance or a curve quote
+}
+
+/** What asked for an exit: a rule of the trade's plan, an engine safety exit or the user */
+export interface ExitTrigger {
+    index: number; // Rule index in the plan, -1 outside the plan
+    label: string;
+    rule: string; // Rule in text form (or a short description)
+    percent: number;
+    urgency?: FeeUrgency; // Priority fee level for the sell (default normal)
+}
+
+export interface ExitRecord extends ExitTrigger {
+    pnl: number; // % when the exit was decided
+    timestamp: number;
+    outcome: 'filled' | 'failed' | 'expired'; // expired: every attempt's blockhash expired unconfirmed, order given up
+    error?: string;
+}
+
+export interface TradingStats {
+    totalProfit: number;
+    wins: number;
+    losses: number;
+}
+
+/** A completed buy or sell, emitted as it happens */
+export interface TradeFill {
+    mint: string;
+    symbol: string;
+    side: 'buy' | 'sell';
+    amountPercent: number; // Share of the position sold (100 for buys)
+    price: number; // SOL per token at execution
+    solAmount: number; // SOL spent (buy) or received (sell)
+    profit?: number; // Realized SOL PnL (sells only)
+    timestamp: number;
+    isPaper: boolean;
+}
+
+/** Bot settings the exit loop needs (mirrors the relevant part of BotControls config) */
+export interface TradingConfig {
+    mode: string;
+    takeProfit: number;
+    stopLoss: number;
+    isRunning: boolean;
+}
+
+export interface TradingEngineState {
+    activeTrades: ActiveTrade[];
+    tradeHistory: ActiveTrade[];
+    demoBalance: number;
+    stats: TradingStats;
+    vaultBalance: number;
+}
+
+export interface TradingEngineOptions {
+    connection: Connection;
+    wallet?: Keypair | null;
+    heliusKey?: string;
+    isDemo?: boolean;
+    pollIntervalMs?: number;
+    paperFills?: PaperFillSimulator; // Demo order fills (defaults to live-like latency, fees and failures)
+    priorityFees?: PriorityFeeEstimator; // Live priority fees (defaults to sampling recent fees)
+    retry?: Partial<RetryPolicy>; // Re-broadcast / rebuild bounds for live orders
+    executionBackend?: ExecutionBackend; // Live order execution (defaults to PumpPortal)
+    bus?: MarketBus; // Market data in, position changes out (defaults to the shared bus)
+}
+
+export interface TradingEngineEvents {
+    log: string; // Formatted line, e.g. "[12:00:01] Buy Tx Sent: ..."
+    notify: { type: 'success' | 'error'; message: string };
+    trades: ActiveTrade[];
+    history: ActiveTrade[];
+    stats: TradingStats;
+    demoBalance: number;
+    vault: number;
+    cleaning: boolean;
+    positionOpened: ActiveTrade;
+    fill: TradeFill;
+    exit: { mint: string; symbol: string; record: ExitRecord };
+}
+
+/**
+ * Headless Trading Engine
+ * Owns positions, exit evaluation and order submission. Plain TypeScript so it can
+ * run behind the dashboard (via usePumpTrader), in a Node process or in tests.
+ */
+export class TradingEngine extends TypedEmitter<TradingEngineEvents> {
+    private connection: Connection;
+    private wallet: Keypair | null;
+    private heliusKey?: string;
+    private isDemo: boolean;
+    private config: TradingConfig = { mode: 'runner', takeProfit: 30, stopLoss: 10, isRunning: false };
+
+    private activeTrades: ActiveTrade[] = [];
+    private tradeHistory: ActiveTrade[] = [];
+    private demoBalance = 10.0;
+    private stats: TradingStats = { totalProfit: 0, wins: 0, losses: 0 };
+    private processingMints = new Set<string>();
+    private paperFills: PaperFillSimulator;
+    private backend: ExecutionBackend;
+    private priorityFees: PriorityFeeEstimator;
+    private retryPolicy: RetryPolicy;
+
+    // Profit Protection Vault
+    private vaultBalance = 0;
+    private profitProtectionEnabled = true;
+    private profitProtectionPercent = 25;
+
+    private pollIntervalMs: number;
+    private pollTimer: ReturnType<typeof setInterval> | null = null;
+    private isTicking = false;
+    private priceStream: PriceStream;
+    private bus: MarketBus;
+
+    constructor(options: TradingEngineOptions) {
+        super();
+        this.connection = options.connection;
+        this.wallet = options.wallet || null;
+        this.heliusKey = options.heliusKey;
+        this.isDemo = options.isDemo || false;
+        this.pollIntervalMs = options.pollIntervalMs || 2000;
+        this.paperFills = options.paperFills || new PaperFillSimulator();
+        this.backend = options.executionBackend || createExecutionBackend('pumpportal', options.connection);
+        this.priorityFees = options.priorityFees || new PriorityFeeEstimator();
+        this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+        this.bus = options.bus || marketBus;
+        this.priceStream = new PriceStream(this.bus);
+        this.bus.on('CurveUpdated', update => this.onCurveUpdate(update));
+        this.bus.on('Graduated', event => this.onGraduated(event));
+    }
+
+    // --- CONFIGURATION ---
+
+    setConnection(connection: Connection) {
+        this.connection = connection;
+        // RPC-backed execution follows the connection; the mock keeps its state
+        if (this.backend.id !== 'mock') this.backend = createExecutionBackend(this.backend.id, connection);
+        this.syncPriceStream();
+    }
+    setWallet(wallet: Keypair | null) { this.wallet = wallet; }
+    setHeliusKey(heliusKey?: string) { this.heliusKey = heliusKey; }
+    setDemoMode(enabled: boolean) { this.isDemo = enabled; }
+    setConfig(config: Partial<TradingConfig>) { this.config = { ...this.config, ...config }; }
+    getConfig(): TradingConfig { return this.config; }
+    setPaperFillConfig(config: Partial<PaperFillConfig>) { this.paperFills.setConfig(config); }
+    setPriorityFeeConfig(config: Partial<PriorityFeeConfig>) { this.priorityFees.setConfig(config); }
+    setRetryPolicy(policy: Partial<RetryPolicy>) { this.retryPolicy = { ...this.retryPolicy, ...policy }; }
+    setExecutionBackend(backend: ExecutionBackend) {
+        if (backend.id !== this.backend.id) this.log(`⚙️ Execution backend: ${backend.name}`);
+        this.backend = backend;
+    }
+    getExecutionBackend(): ExecutionBackend { return this.backend; }
+
+    setProfitProtection(enabled: boolean, percent: number) {
+        this.profitProtectionEnabled = enabled;
+        this.profitProtectionPercent = percent;
+    }
+
+    /** Restore persisted state (e.g. from localStorage) without re-running any trading logic */
+    hydrate(state: Partial<TradingEngineState>) {
+        // A buy still confirming when the state was saved is reconciled by syncTrades
+        if (state.activeTrades) this.setActiveTrades(() => state.activeTrades!.map(migrateExitPlan).map(t => t.status === "buying" ? { ...t, status: "open" as const } : t));
+        if (state.tradeHistory) this.setTradeHistory(() => state.tradeHistory!);
+        if (state.stats) this.setStats(() => state.stats!);
+        if (state.demoBalance !== undefined) this.setDemoBalance(() => state.demoBalance!);
+        if (state.vaultBalance !== undefined) this.setVaultBalance(() => state.vaultBalance!);
+    }
+
+    getState(): TradingEngineState {
+        return {
+            activeTrades: this.activeTrades,
+            tradeHistory: this.tradeHistory,
+            demoBalance: this.demoBalance,
+            stats: this.stats,
+            vaultBalance: this.vaultBalance
+        };
+    }
+
+    getActiveTrades() { return this.activeTrades; }
+
+    // --- STATE HELPERS (emit on every change so subscribers stay in sync) ---
+
+    private setActiveTrades(updater: (prev: ActiveTrade[]) => ActiveTrade[]) {
+        const prev = this.activeTrades;
+        this.activeTrades = updater(prev);
+        this.emit('trades', this.activeTrades);
+        this.publishPositionChanges(prev, this.activeTrades);
+        this.syncPriceStream();
+    }
+
+    /** Opened, reduced and closed positions go out on the market bus */
+    private publishPositionChanges(prev: ActiveTrade[], next: ActiveTrade[]) {
+        const before = new Map(prev.map(t => [t.mint, t]));
+        const remaining = new Set(next.map(t => t.mint));
+        next.forEach(trade => {
+            const old = before.get(trade.mint);
+            if (!old) this.bus.publish('PositionChanged', { trade, change: 'opened' });
+            else if (trade.amountTokens < old.amountTokens) this.bus.publish('PositionChanged', { trade, change: 'reduced' });
+        });
+        prev.forEach(trade => {
+            if (remaining.has(trade.mint)) return;
+            // Full exits land in the history (with their exit record) just before leaving the active list
+            const closed = this.tradeHistory.find(t => t.mint === trade.mint && t.buyTime === trade.buyTime) || trade;
+            this.bus.publish('PositionChanged', { trade: closed, change: 'closed' });
+        });
+    }
+
+    private setTradeHistory(updater: (prev: ActiveTrade[]) => ActiveTrade[]) {
+        this.tradeHistory = updater(this.tradeHistory);
+        this.emit('history', this.tradeHistory);
+    }
+
+    private setStats(updater: (prev: TradingStats) => TradingStats) {
+        this.stats = updater(this.stats);
+        this.emit('stats', this.stats);
+    }
+
+    private setDemoBalance(updater: (prev: number) => number) {
+        this.demoBalance = updater(this.demoBalance);
+        this.emit('demoBalance', this.demoBalance);
+    }
+
+    private setVaultBalance(updater: (prev: number) => number) {
+        this.vaultBalance = updater(this.vaultBalance);
+        this.emit('vault', this.vaultBalance);
+    }
+
+    private setCleaning(value: boolean) {
+        this.emit('cleaning', value);
+    }
+
+    log(msg: string) {
+        this.emit('log', `[${new Date(now()).toLocaleTimeString()}] ${msg}`);
+    }
+
+    // --- LIFECYCLE ---
+
+    /** Start streaming open-position prices, plus the polling heartbeat (stale prices + exit checks) */
+    start() {
+        if (this.pollTimer) return;
+        this.pollTimer = setInterval(() => { this.tick(); }, this.pollIntervalMs);
+        this.syncPriceStream();
+    }
+
+    stop() {
+        if (this.pollTimer) clearInterval(this.pollTimer);
+        this.pollTimer = null;
+        this.priceStream.close();
+    }
+
+    /** Wait until no buy or sell is in flight (every mint lock released); false if `timeoutMs` passes first */
+    async waitForOrders(timeoutMs: number = 30000): Promise<boolean> {
+        const deadline = now() + timeoutMs;
+        while (this.processingMints.size > 0) {
+            if (now() >= deadline) return false;
+            await sleep(100);
+        }
+        return true;
+    }
+
+    /** Curve subscriptions follow the open positions (real mints only), while the engine runs */
+    private syncPriceStream() {
+        if (!this.pollTimer) return;
+        const mints = this.activeTrades.filter(t => t.status === "open" && !t.mint.startsWith('SIM')).map(t => t.mint);
+        this.priceStream.sync(mints, this.connection);
+    }
+
+    /** A curve change from the bus: price this position and check its exits right away */
+    private onCurveUpdate({ mint, data }: CurveUpdated) {
+        const trade = this.activeTrades.find(t => t.mint === mint && t.status === "open");
+        if (!trade || data.vTokensInBondingCurve === 0) return;
+
+        const patch = pricePatch(trade, priceFromReserves(data.vSolInBondingCurve, data.vTokensInBondingCurve), data.vSolInBondingCurve);
+        if (!patch) return;
+        this.setActiveTrades(prev => prev.map(t => t.mint === mint ? { ...t, ...patch } : t));
+        // Unstarted (backtests), exits stay on the caller's tick() heartbeat
+        if (this.config.isRunning && this.pollTimer) this.evaluateExits(mint);
+    }
+
+    private onGraduated({ mint }: Graduated) {
+        const trade = this.activeTrades.find(t => t.mint === mint && t.status === "open");
+        if (trade) this.log(`🎓 ${trade.symbol} graduated - bonding curve complete`);
+    }
+
+    async tick() {
+        if (this.isTicking) return;
+        this.isTicking = true;
+        try {
+            await this.updatePrices();
+            if (this.config.isRunning) this.evaluateExits();
+        } finally {
+            this.isTicking = false;
+        }
+    }
+
+    // --- ORDER SUBMISSION ---
+
+    /**
+     * Sell part or all of a position. The mint stays locked until the order settles, and the
+     * outcome is recorded on the trade in the same update that changes its balance, so a
+     * partial exit is marked taken only once it actually filled. Resolves true on a fill.
+     */
+    sellToken = async (mint: string, amountPercent: number = 100, trigger: ExitTrigger = manualExit(amountPercent)): Promise<boolean> => {
+        const wallet = this.wallet;
+        const isDemo = this.isDemo;
+        const connection = withLane(this.connection, 'exit');
+
+        if (!wallet && !isDemo) return false;
+        if (this.processingMints.has(mint)) return false;
+
+        const trade = this.activeTrades.find(t => t.mint === mint);
+        if (!trade || trade.status !== "open") return false;
+
+        this.processingMints.add(mint);
+        this.log(`Attempting to SELL ${amountPercent}% of ${trade.symbol}...`);
+
+        try {
+            if (isDemo) {
+                const sellPrice = trade.currentPrice || 0;
+                const isStale = trade.lastPriceUpdate && (now() - trade.lastPriceUpdate > 120000);
+                const effectiveSellPrice = isStale ? 0 : sellPrice;
+
+                const isFullExit = amountPercent >= 99;
+                const tokensToSell = (trade.amountTokens || 0) * (amountPercent / 100);
+                const costBasis = (trade.amountSolPaid || (trade.buyPrice || 0) * (trade.amountTokens || 0)) * (amountPercent / 100);
+
+                this.setActiveTrades(prev => prev.map(t => t.mint === mint ? { ...t, status: "selling" } : t));
+
+                // A stale feed means the token died: nothing to sell into
+                let revenue = 0;
+                let fillPrice = 0;
+                let fee = 0;
+                if (!isStale) {
+                    const fill = await this.paperFills.sell({
+                        mint,
+                        tokens: tokensToSell,
+                        slippage: 25,
+                        priorityFee: sellPriorityFee(trade.amountSolPaid || 0.03),
+                        fallbackPrice: effectiveSellPrice,
+                        closeAccount: isFullExit
+                    }, connection);
+
+                    if (!fill.ok) {
+                        const record = this.exitRecord(trade, trigger, fill.error);
+                        this.setDemoBalance(prev => prev - fill.networkFee);
+                        this.setActiveTrades(prev => prev.map(t => t.mint === mint ? withExit({ ...t, status: "open", feesPaid: (t.feesPaid || 0) + fill.networkFee }, record) : t));
+                        this.log(`[DEMO] ❌ Sell failed for ${trade.symbol}: ${fill.error}${fill.networkFee > 0 ? ` (fee ${fill.networkFee.toFixed(5)} SOL)` : ''}`);
+                        return false;
+                    }
+                    revenue = fill.solAmount;
+                    fillPrice = fill.price;
+                    fee = fill.networkFee;
+                } else if (isFullExit) {
+                    revenue = TOKEN_ACCOUNT_RENT;
+                }
+
+                const profit = revenue - costBasis;
+                const record = this.exitRecord(trade, trigger);
+                this.setDemoBalance(prev => prev + revenue);
+
+                this.setStats(prev => ({
+                    totalProfit: prev.totalProfit + profit,
+                    wins: profit > 0 ? prev.wins + 1 : prev.wins,
+                    losses: profit <= 0 ? prev.losses + 1 : prev.losses
+                }));
+
+                if (isFullExit) {
+                    const closedTrade: ActiveTrade = withExit({
+                        ...trade,
+                        status: "closed" as const,
+                        currentPrice: effectiveSellPrice,
+                        pnlPercent: costBasis > 0 ? (profit / costBasis) * 100 : 0,
+                        isPaper: true,
+                        feesPaid: (trade.feesPaid || 0) + fee
+                    }, record);
+                    this.setTradeHistory(prev => {
+                        if (prev.some(t => t.mint === mint && Math.abs((t.buyTime || 0) - (trade.buyTime || 0)) < 1000)) return prev;
+                        return [closedTrade, ...prev].slice(0, 100);
+                    });
+                    this.setActiveTrades(prev => prev.filter(t => t.mint !== mint));
+                } else {
+                    this.setActiveTrades(prev => prev.map(t => t.mint === mint ? withExit({
+                        ...t,
+                        status: "open",
+                        amountTokens: t.amountTokens - tokensToSell,
+                        amountSolPaid: (t.amountSolPaid || 0) - costBasis,
+                        feesPaid: (t.feesPaid || 0) + fee
+                    }, record) : t));
+                }
+
+                this.emit('fill', {
+                    mint, symbol: trade.symbol, side: 'sell', amountPercent, price: fillPrice,
+                    solAmount: revenue, profit, timestamp: now(), isPaper: true
+                });
+                this.log(`[DEMO] Sold ${amountPercent}% at ${fillPrice.toFixed(9)} SOL. Profit: ${profit.toFixed(4)} SOL`);
+                return true;
+            }
+
+            if (!wallet) return false;
+
+            const balance = await this.backend.getTokenBalance(wallet.publicKey.toBase58(), mint);
+            if (balance === null) {
+                this.log(`⚠️ Sell: Could not read the ${trade.symbol} balance - retrying on the next evaluation`);
+                return false;
+            }
+            if (balance === 0) {
+                if (now() - (trade.lastPriceChangeTime || 0) > 60000) {
+                    this.log(`Sell: No balance for ${trade.symbol}. Closing as RUG loss.`);
+                    this.writeOff(trade, this.exitRecord(trade, trigger, 'No token balance'));
+                }
+                return false;
+            }
+
+            const amountToSell = balance * (amountPercent / 100);
+            const tradeAmountPaid = trade.amountSolPaid || 0.03;
+
+            this.setActiveTrades(prev => prev.map(t => t.mint === mint ? { ...t, status: "selling" } : t));
+
+            const priorityFee = await this.priorityFee(mint, 'sell', trigger.urgency || 'normal', sellPriorityFee(tradeAmountPaid));
+            const publicKey = wallet.publicKey.toBase58();
+            const solBefore = await this.backend.getBalance(publicKey).catch(() => null); // Fallback if the fill can't be parsed
+            const retry = this.orderRetryPolicy();
+            const order = await submitOrder(createOrder(mint, 'sell'), {
+                backend: this.backend,
+                wallet,
+                build: async (attempt) => {
+                    const terms = this.attemptTerms(trade.symbol, 'sell', { priorityFee, slippage: 25 }, attempt, retry);
+                    try {
+                        return await this.backend.buildTransaction({ publicKey, action: "sell", mint, amount: amountToSell, denominatedInSol: "false", ...terms, pool: "pump" });
+                    } catch (err: any) {
+                        return await this.backend.buildTransaction({ publicKey, action: "sell", mint, amount: amountToSell, denominatedInSol: "false", slippage: Math.min(retry.maxSlippage, Math.max(50, terms.slippage)), priorityFee: Math.max(terms.priorityFee, Math.min(0.003, retry.maxPriorityFee)), pool: "pump" });
+                    }
+                },
+                retry,
+                onUpdate: order => this.trackOrder(order),
+                onBroadcast: (order, count) => this.log(`📡 Sell ${order.signature!.substring(0, 8)}... re-broadcast #${count}`),
+                onRejected: (order, reason) => this.logRejected(trade.symbol, order, reason)
+            });
+            if (order.state === 'expired') {
+                // Not a fill and not a rejection: nothing was sold, the position stays open for the next evaluation
+                const record = this.exitRecord(trade, trigger, order.error, 'expired');
+                this.setActiveTrades(prev => prev.map(t => t.mint === mint ? withExit({ ...t, status: "open" }, record) : t));
+                this.log(`🪦 Sell of ${trade.symbol} given up after ${order.attempts} attempt(s) - still holding`);
+                this.emit('notify', { type: 'error', message: `Sell of ${trade.symbol} never confirmed - position still open` });
+                return false;
+            }
+            if (order.state !== 'confirmed') {
+                throw order.errorCode ? new TradeError(order.errorCode, order.error || `Sell ${order.state}`) : new Error(order.error || `Sell ${order.state}`);
+            }
+            const signature = order.signature!;
+
+            // Proceeds from the parsed transaction: after its fee, reclaimed rent excluded
+            const pnlEstimated = !order.fill;
+            const revenue = order.fill
+                ? sellProceeds(order.fill)
+                : await this.estimateSellProceeds(publicKey, mint, amountToSell, solBefore, trade.currentPrice);
+            if (pnlEstimated) this.log(`⚠️ Could not parse sell ${signature.substring(0, 8)}... - proceeds estimated at ${revenue.toFixed(4)} SOL`);
+            const fee = order.fill ? order.fill.networkFee : 0;
+            const costBasis = tradeAmountPaid * (amountPercent / 100);
+            const netProfit = revenue - costBasis;
+            const realizedPnlPercent = costBasis > 0 ? (netProfit / costBasis) * 100 : 0;
+
+            if (this.profitProtectionEnabled && netProfit > 0 && !pnlEstimated) { // Only skim realized, parsed profit
+                const skim = netProfit * (this.profitProtectionPercent / 100);
+                this.setVaultBalance(prev => prev + skim);
+            }
+
+            this.setStats(prev => ({
+                totalProfit: prev.totalProfit + netProfit,
+                wins: netProfit > 0 ? prev.wins + 1 : prev.wins,
+                losses: netProfit <= 0 ? prev.losses + 1 : prev.losses
+            }));
+
+            const finalPnlPercent = Math.max(-100, realizedPnlPercent);
+            const record = this.exitRecord(trade, trigger);
+
+            if (amountPercent >= 99) {
+                const closedTrade: ActiveTrade = withExit({
+                    ...trade,
+                    status: "closed" as const,
+                    currentPrice: trade.currentPrice,
+                    pnlPercent: finalPnlPercent,
+                    txId: signature,
+                    feesPaid: (trade.feesPaid || 0) + fee,
+                    ...(pnlEstimated ? { pnlEstimated } : {})
+                }, record);
+                this.setTradeHistory(prev => {
+                    if (prev.some(t => t.mint === mint && Math.abs((t.buyTime || 0) - (trade.buyTime || 0)) < 1000)) return prev;
+                    return [closedTrade, ...prev].slice(0, 100);
+                });
+                this.setActiveTrades(prev => prev.filter(t => t.mint !== mint));
+            } else {
+                this.setActiveTrades(prev => prev.map(t => t.mint === mint ? withExit({
+                    ...t,
+                    status: "open",
+                    amountTokens: t.amountTokens * (1 - amountPercent / 100),
+                    amountSolPaid: (t.amountSolPaid || 0) * (1 - amountPercent / 100),
+                    feesPaid: (t.feesPaid || 0) + fee,
+                    ...(pnlEstimated ? { pnlEstimated } : {})
+                }, record) : t));
+            }
+
+            this.emit('fill', {
+                mint, symbol: trade.symbol, side: 'sell', amountPercent, price: trade.currentPrice,
+                solAmount: revenue, profit: netProfit, timestamp: now(), isPaper: false
+            });
+            this.log(`✅ Sell Confirmed! Realized: ${netProfit > 0 ? '+' : ''}${netProfit.toFixed(4)} SOL (${realizedPnlPercent.toFixed(1)}%)${pnlEstimated ? ' (estimated)' : ''}`);
+            this.emit('notify', { type: 'success', message: `Sold ${trade.symbol}! PnL: ${netProfit.toFixed(4)} SOL` });
+            return true;
+
+        } catch (error: any) {
+            const msg = error.message || "Execution error";
+            const record = this.exitRecord(trade, trigger, msg);
+            this.log(`❌ Sell Failed for ${trade.symbol}: ${msg}`);
+            this.emit('notify', { type: 'error', message: `Sell of ${trade.symbol} failed: ${msg}` });
+            // Decoded errors say what to do (ACCOUNT_NOT_INITIALIZED is a node behind the chain: retry); for the
+            // rest, a missing account is only a loss once the wallet really holds none of the token
+            if (error instanceof TradeError && error.action === 'retry') this.log(`🔁 ${trade.symbol}: ${error.message} - retrying on the next evaluation`);
+            const accountMissing = !(error instanceof TradeError) && (msg.includes("Account") || msg.includes("not found"));
+            const balance = accountMissing && this.wallet
+                ? await this.backend.getTokenBalance(this.wallet.publicKey.toBase58(), mint).catch(() => null)
+                : null;
+            if (balance === 0) {
+                this.log(`Sell: Token account for ${trade.symbol} is gone and the wallet holds none. Closing as loss.`);
+                this.writeOff(trade, record);
+            } else {
+                this.setActiveTrades(prev => prev.map(t => t.mint === mint ? withExit({ ...t, status: "open" }, record) : t));
+            }
+            return false;
+        } finally {
+            this.processingMints.delete(mint);
+        }
+    };
+
+    /** Close a position whose tokens are gone as a total loss, with its history entry and exit record */
+    private writeOff(trade: ActiveTrade, record: ExitRecord) {
+        const closedTrade: ActiveTrade = withExit({ ...trade, status: "closed" as const, currentPrice: 0, pnlPercent: -100 }, record);
+        this.setTradeHistory(prev => [closedTrade, ...prev].slice(0, 100));
+        this.setActiveTrades(prev => prev.filter(t => t.mint !== trade.mint));
+
+        const lossAmount = trade.amountSolPaid || 0;
+        this.setStats(prev => ({ ...prev, totalProfit: prev.totalProfit - lossAmount, losses: prev.losses + 1 }));
+    }
+
+    /** Sell proceeds when the transaction couldn't be parsed: the wallet's SOL change (incl. any reclaimed rent), else a curve quote */
+    private async estimateSellProceeds(owner: string, mint: string, tokens: number, solBefore: number | null, price: number) {
+        const solAfter = solBefore !== null ? await this.backend.getBalance(owner).catch(() => null) : null;
+        if (solBefore !== null && solAfter !== null && solAfter > solBefore) return solAfter - solBefore;
+        const quote = await this.backend.quote({
+            publicKey: owner, action: "sell", mint, amount: tokens, denominatedInSol: "false", slippage: 0, priorityFee: 0, pool: "pump"
+        }).catch(() => null);
+        return quote ? quote.solAmount : tokens * price;
+    }
+
+    /** Retry bounds for a live order; escalated fees stay under the priority-fee cap */
+    private orderRetryPolicy(): RetryPolicy {
+        return { ...this.retryPolicy, maxPriorityFee: Math.min(this.retryPolicy.maxPriorityFee, this.priorityFees.getConfig().capSol) };
+    }
+
+    /** Fee and slippage for a (re)build; rebuilds after an expiry are escalated and logged */
+    private attemptTerms(symbol: string, side: 'buy' | 'sell', base: { priorityFee: number; slippage: number }, attempt: number, retry: RetryPolicy) {
+        const terms = escalate(base, attempt, retry);
+        if (attempt > 0) {
+            this.log(`🔁 Rebuilding ${side} for ${symbol} (attempt ${attempt + 1}/${retry.maxAttempts}): priority ${terms.priorityFee.toFixed(6)} SOL, slippage ${terms.slippage}%`);
+        }
+        return terms;
+    }
+
+    private logRejected(symbol: string, order: Order, reason: TradeError) {
+        this.log(`⚠️ ${order.side === 'buy' ? 'Buy' : 'Sell'} simulation failed for ${symbol}: ${reason.message} - ${reason.action === 'requote' ? 're-quoting' : 'retrying'}`);
+    }
+
+    /** Mirror an order's progress onto its position */
+    private trackOrder(order: Order) {
+        if (order.state === 'sent') this.log(`${order.side === 'buy' ? 'Buy' : 'Sell'} Tx Sent: ${order.signature!.substring(0, 8)}...${order.attempts > 1 ? ` (attempt ${order.attempts})` : ''}`);
+        this.setActiveTrades(prev => prev.map(t => t.mint === order.mint ? { ...t, order, txId: order.signature || t.txId } : t));
+    }
+
+    /** Open the position from the confirmed buy's actual fill, or drop it */
+    private async settleBuy(mint: string, symbol: string, amountSol: number, order: Order) {
+        const wallet = this.wallet;
+        // Sent, but the RPC never said whether it landed: the wallet does
+        if (order.errorCode === 'STATUS_UNKNOWN') return this.reconcileBuy(mint, symbol, amountSol, new Error(order.error));
+        if (order.state !== 'confirmed' || !wallet) {
+            this.log(order.state === 'expired'
+                ? `🪦 Buy of ${symbol} given up after ${order.attempts} attempt(s): ${order.error}`
+                : `❌ Buy ${order.state} for ${symbol}: ${order.error || 'no wallet'}`);
+            if (order.state !== 'confirmed') this.emit('notify', { type: 'error', message: `Buy of ${symbol} failed: ${order.error}` });
+            this.setActiveTrades(prev => prev.filter(t => t.mint !== mint));
+            return;
+        }
+
+        const fill = order.fill;
+        const tokens = fill && fill.tokenChange > 0
+            ? fill.tokenChange
+            : (await this.backend.getTokenBalance(wallet.publicKey.toBase58(), mint)) ?? 0;
+        // Cost basis excludes the token account rent (it comes back when the account is closed)
+        const solSpent = fill ? buyCost(fill) : amountSol;
+        if (tokens > 0) {
+            const buyPrice = solSpent / tokens;
+            this.setActiveTrades(prev => prev.map(t => t.mint === mint ? {
+                ...t, status: "open", buyPrice, currentPrice: t.currentPrice || buyPrice, amountTokens: tokens, amountSolPaid: solSpent,
+                feesPaid: fill ? fill.networkFee : t.feesPaid, ...(fill ? {} : { pnlEstimated: true })
+            } : t));
+            this.emit('fill', { mint, symbol, side: 'buy', amountPercent: 100, price: buyPrice, solAmount: solSpent, timestamp: now(), isPaper: false });
+            this.log(`✅ Buy Confirmed: ${tokens.toFixed(0)} ${symbol} for ${solSpent.toFixed(4)} SOL${fill ? ` (fee ${fill.networkFee.toFixed(5)}, priority ${fill.priorityFee.toFixed(5)}, rent ${fill.rentPaid.toFixed(5)})` : ''}`);
+        } else {
+            // Landed but nothing arrived yet; syncTrades reconciles it
+            this.setActiveTrades(prev => prev.map(t => t.mint === mint ? { ...t, status: "open" } : t));
+        }
+        this.syncTrades();
+    }
+
+    /** Settling threw (an RPC error): open the position from the wallet balance if the tokens arrived, else drop it */
+    private async reconcileBuy(mint: string, symbol: string, amountSol: number, error: any) {
+        this.log(`⚠️ Could not settle buy of ${symbol}: ${error?.message || error} - checking the wallet`);
+        const wallet = this.wallet;
+        const tokens = wallet ? (await this.backend.getTokenBalance(wallet.publicKey.toBase58(), mint).catch(() => null)) ?? 0 : 0;
+        if (tokens > 0) {
+            const buyPrice = amountSol / tokens; // Estimated: the fill couldn't be read
+            this.setActiveTrades(prev => prev.map(t => t.mint === mint && t.status === "buying" ? {
+                ...t, status: "open", buyPrice, currentPrice: t.currentPrice || buyPrice, amountTokens: tokens, amountSolPaid: amountSol, pnlEstimated: true
+            } : t));
+            this.log(`✅ Buy reconciled: ${tokens.toFixed(0)} ${symbol} in the wallet (cost estimated at ${amountSol.toFixed(4)} SOL)`);
+        } else {
+            this.setActiveTrades(prev => prev.filter(t => !(t.mint === mint && t.status === "buying")));
+            this.log(`❌ Buy of ${symbol} not found in the wallet - dropped (Recover Trades picks it up if it lands later)`);
+        }
+    }
+
+    buyToken = async (mint: string, symbol: string, amountSol: number, slippage: number = 15, initialPrice?: number, exitRules?: ExitRule[], strategy?: string) => {
+        const wallet = this.wallet;
+        const isDemo = this.isDemo;
+        const connection = this.connection;
+
+        if (!wallet && !isDemo) {
+            this.log("Error: No wallet connected");
+            return;
+        }
+
+        if (this.processingMints.has(mint)) return;
+        this.processingMints.add(mint);
+
+        this.log(`Initiating ${isDemo ? '[DEMO] ' : ''}BUY for ${symbol} (${amountSol} SOL)...`);
+
+        // Default exit plan for God Mode / Sniper (if not provided)
+        const activeExitRules = exitRules || rulesFromParams(DEFAULT_EXIT_PARAMS);
+
+        if (isDemo) {
+            if (this.demoBalance < amountSol) {
+                this.log("[DEMO] Insufficient funds for trade.");
+                this.processingMints.delete(mint);
+                return;
+            }
+            if (this.demoBalance < amountSol * 2) {
+                this.log("[DEMO] ⚠️ Low demo balance - stopping.");
+                this.processingMints.delete(mint);
+                return;
+            }
+
+            this.setDemoBalance(prev => prev - amountSol);
+            const fill = await this.paperFills.buy({
+                mint, amountSol, slippage, priorityFee: buyPriorityFee(amountSol), fallbackPrice: initialPrice
+            }, connection);
+            if (!fill.ok) {
+                this.log(`[DEMO] ❌ Buy failed for ${symbol}: ${fill.error}${fill.networkFee > 0 ? ` (fee ${fill.networkFee.toFixed(5)} SOL)` : ''}`);
+                this.setDemoBalance(prev => prev + amountSol - fill.networkFee);
+                this.processingMints.delete(mint);
+                return;
+            }
+            // Return whatever the curve didn't take (e.g. the last tokens before graduation)
+            this.setDemoBalance(prev => prev + amountSol - fill.solAmount);
+
+            const buyPrice = fill.price;
+            const amountTokens = fill.tokens;
+            this.log(`[DEMO] Filled ${amountTokens.toFixed(0)} ${symbol} at ${buyPrice.toFixed(9)} SOL (impact ${fill.priceImpact.toFixed(2)}%, ${fill.slots} slot${fill.slots === 1 ? '' : 's'})`);
+
+            const newTrade: ActiveTrade = {
+                mint, symbol, buyPrice, amountTokens, amountSolPaid: fill.solAmount,
+                currentPrice: buyPrice, pnlPercent: 0, status: "open",
+                txId: `DEMO-${now()}`, buyTime: now(), exitRules: activeExitRules, ...(strategy ? { strategy } : {}), firedRules: [], originalAmount: amountSol,
+                feesPaid: fill.networkFee
+            };
+            this.setActiveTrades(prev => [newTrade, ...prev]);
+            this.emit('positionOpened', newTrade);
+            this.emit('fill', { mint, symbol, side: 'buy', amountPercent: 100, price: buyPrice, solAmount: fill.solAmount, timestamp: newTrade.buyTime!, isPaper: true });
+            this.emit('notify', { type: 'success', message: `[DEMO] Bought ${symbol}` });
+            this.processingMints.delete(mint);
+            return;
+        }
+
+        if (!wallet) return;
+        if (this.activeTrades.some(t => t.mint === mint)) {
+            this.processingMints.delete(mint);
+            return;
+        }
+
+        let settling = false;
+        try {
+            const bal = await this.backend.getBalance(wallet.publicKey.toBase58());
+            if (bal === null || bal < amountSol + SOL_FEE_RESERVE) {
+                this.log(`Error: Insufficient balance. Need ${amountSol + SOL_FEE_RESERVE} SOL.`);
+                return;
+            }
+
+            const priorityFee = await this.priorityFee(mint, 'buy', 'normal', buyPriorityFee(amountSol));
+            const tradeParams: TradeParams = {
+                publicKey: wallet.publicKey.toBase58(), action: "buy", mint, amount: amountSol, denominatedInSol: "true",
+                slippage, priorityFee, pool: "pump"
+            };
+            const retry = this.orderRetryPolicy();
+            const orderOptions: OrderOptions = {
+                backend: this.backend,
+                wallet,
+                build: attempt => orderOptions.backend.buildTransaction({
+                    ...tradeParams, ...this.attemptTerms(symbol, 'buy', tradeParams, attempt, retry)
+                }),
+                retry,
+                onUpdate: order => this.trackOrder(order),
+                onBroadcast: (order, count) => this.log(`📡 Buy ${order.signature!.substring(0, 8)}... re-broadcast #${count}`),
+                onRejected: (order, reason) => this.logRejected(symbol, order, reason)
+            };
+
+            const quote = await this.backend.quote(tradeParams).catch(() => null);
+            if (quote) this.log(`📐 Quote (${this.backend.name}): ~${quote.tokens.toFixed(0)} ${symbol}, impact ${quote.priceImpact.toFixed(2)}%`);
+
+            // Shown right away as "buying"; becomes an open position once the order confirms
+            const newTrade: ActiveTrade = {
+                mint, symbol, buyPrice: initialPrice || 0, amountTokens: 0, amountSolPaid: amountSol,
+                currentPrice: initialPrice || 0, pnlPercent: 0, status: "buying", order: createOrder(mint, 'buy'),
+                buyTime: now(), exitRules: activeExitRules, ...(strategy ? { strategy } : {}), firedRules: [], originalAmount: amountSol
+            };
+            this.setActiveTrades(prev => [newTrade, ...prev]);
+
+            const sent = await sendOrder(newTrade.order!, orderOptions);
+            if (sent.state !== 'sent') {
+                this.setActiveTrades(prev => prev.filter(t => t.mint !== mint));
+                this.log(`Buy Failed: ${sent.error}`);
+                this.emit('notify', { type: 'error', message: `Buy of ${symbol} failed: ${sent.error}` });
+                return;
+            }
+            this.emit('positionOpened', newTrade);
+
+            // The mint stays locked until the buy settles
+            settling = true;
+            confirmOrder(sent, orderOptions)
+                .then(order => this.settleBuy(mint, symbol, amountSol, order))
+                .catch(error => this.reconcileBuy(mint, symbol, amountSol, error))
+                .finally(() => this.processingMints.delete(mint));
+        } catch (error: any) {
+            this.log(`Buy Failed: ${error.message}`);
+            this.emit('notify', { type: 'error', message: `Buy of ${symbol} failed: ${error.message}` });
+        } finally {
+            if (!settling) this.processingMints.delete(mint);
+        }
+    };
+
+    // --- PRICE CALCULATION ENGINE ---
+
+    updatePrices = async () => {
+        const isDemo = this.isDemo;
+        const connection = withLane(this.connection, 'pricing');
+        const openTrades = this.activeTrades.filter(t => t.status === "open");
+        if (openTrades.length === 0) return;
+
+        // Streamed positions are only re-read once their stream has gone quiet
+        const polled = openTrades.filter(t => !this.priceStream.has(t.mint) || now() - (t.lastPriceUpdate || 0) > STREAM_STALE_MS);
+        if (polled.length === 0) return;
+
+        const tradesToPoll = isDemo ? polled : polled.slice(0, 10);
+        const updates: Map<string, Partial<ActiveTrade>> = new Map();
+
+        // All reads start in the same tick, so solanaManager sends them as one getMultipleAccountsInfo
+        await Promise.all(tradesToPoll.map(async (trade) => {
+            try {
+                let price = 0;
+                let currentLiquidity = 0;
+
+                if (trade.mint.startsWith('SIM') && !isDemo) {
+                    const isRug = trade.symbol.includes("Garbage") || trade.symbol.includes("Rug");
+                    const basePrice = trade.currentPrice > 0 ? trade.currentPrice : (trade.buyPrice > 0 ? trade.buyPrice : 0.000001);
+                    const change = 1 + (Math.random() * 0.1 - 0.05) + (isRug ? -0.01 : 0.005);
+                    price = Math.max(0.000001, basePrice * change);
+                } else {
+                    try {
+                        const pumpData = await getPumpData(trade.mint, connection);
+                        if (pumpData) {
+                            currentLiquidity = pumpData.vSolInBondingCurve;
+                            price = priceFromReserves(pumpData.vSolInBondingCurve, pumpData.vTokensInBondingCurve);
+                        }
+                        if (price === 0) {
+                            const fetchedPrice = await getPumpPrice(trade.mint, connection);
+                            if (fetchedPrice > 0) price = fetchedPrice;
+                        }
+                    } catch (error) { price = 0; }
+                }
+
+                const patch = pricePatch(trade, price, currentLiquidity);
+                if (patch) updates.set(trade.mint, patch);
+            } catch (e) { }
+        }));
+
+        if (updates.size > 0) {
+            this.setActiveTrades(prev => prev.map(t => updates.has(t.mint) ? { ...t, ...updates.get(t.mint) } : t));
+        }
+    };
+
+    // --- AUTOMATED SELL LOGIC (the only place automatic exits are decided) ---
+
+    /** Check exits for every open position, or only `mint` (after a streamed price change) */
+    evaluateExits = (mint?: string) => {
+        const config = this.config;
+        const isDemo = this.isDemo;
+
+        this.activeTrades.forEach(trade => {
+            if (mint && trade.mint !== mint) return;
+            // Only process OPEN trades with no order in flight (the mint lock is held until it settles)
+            if (trade.status !== "open" || this.processingMints.has(trade.mint)) return;
+
+            // Safety exit ahead of the plan
+            if (trade.rugDetected) {
+                this.triggerExit(trade, { index: -1, label: '🚨 RUG PULL DETECTED', rule: 'liquidity dropped >20%', percent: 100, urgency: 'urgent' });
+                return;
+            }
+
+            // CRITICAL FIX: Don't skip if buyPrice is 0 - wait for it to be set
+            // The price polling will set buyPrice on first update
+            // Only skip if we have a currentPrice but no buyPrice after reasonable time
+            if (!trade.buyPrice || trade.buyPrice === 0) {
+                // If trade is older than 5 seconds and still no buyPrice, try to use currentPrice
+                if (trade.buyTime && (now() - trade.buyTime) > 5000) {
+                    if (trade.currentPrice && trade.currentPrice > 0) {
+                        // Use currentPrice as buyPrice if we've been waiting too long
+                        this.updateTrade(trade.mint, { buyPrice: trade.currentPrice });
+                        this.log(`[${trade.symbol}] Using currentPrice as buyPrice (${trade.currentPrice.toFixed(9)})`);
+                    } else {
+                        // Still no price after 5 seconds, skip this cycle
+                        return;
+                    }
+                } else {
+                    // Trade is new, wait for price update
+                    return;
+                }
+            }
+
+            // Trades without a plan exit on the configured TP/SL only
+            const rules = trade.exitRules || rulesFromParams({
+                takeProfit: config.takeProfit,
+                stopLoss: config.stopLoss,
+                maxHoldTime: Infinity,
+                trailingStop: false
+            });
+            const context = { config, rules, vars: exitVariables(trade, isDemo, (trade.firedRules || []).length) };
+            const decision = trade.strategy && hasStrategy(trade.strategy)
+                ? getStrategy(trade.strategy).evaluateExit(trade, context)
+                : planExit(trade, context);
+            if (!decision || decision.hold) return;
+
+            // The rule is marked taken by sellToken once the sell fills, so a failed partial is retried
+            this.triggerExit(trade, {
+                index: decision.index,
+                label: decision.rule.label || '🚪 EXIT RULE',
+                rule: formatExitRule(decision.rule),
+                percent: decision.percent,
+                urgency: decision.rule.urgent ? 'urgent' : 'normal'
+            });
+        });
+    };
+
+    /** Live priority fee for an order, logged with where it came from */
+    private async priorityFee(mint: string, side: 'buy' | 'sell', urgency: FeeUrgency, fallbackSol: number): Promise<number> {
+        const estimate = await this.priorityFees.estimate({ mint, side, urgency, fallbackSol }, this.connection);
+        const source = estimate.source === 'sampled' ? `p${estimate.percentile} of recent fees` : 'fallback';
+        this.log(`⛽ Priority fee ${estimate.sol.toFixed(6)} SOL (${urgency}, ${source}${estimate.capped ? ', capped' : ''})`);
+        return estimate.sol;
+    }
+
+    private triggerExit(trade: ActiveTrade, trigger: ExitTrigger) {
+        this.log(`${trigger.label}: ${trade.symbol} at ${(trade.pnlPercent || 0).toFixed(1)}% [${trigger.rule}]. Selling ${trigger.percent}%...`);
+        this.sellToken(trade.mint, trigger.percent, trigger);
+    }
+
+    /** Audit entry for an exit attempt (also emitted as `exit`) */
+    private exitRecord(trade: ActiveTrade, trigger: ExitTrigger, error?: string, outcome: ExitRecord['outcome'] = error ? 'failed' : 'filled'): ExitRecord {
+        const record: ExitRecord = { ...trigger, pnl: trade.pnlPercent || 0, timestamp: now(), outcome };
+        if (error) record.error = error;
+        this.emit('exit', { mint: trade.mint, symbol: trade.symbol, record });
+        return record;
+    }
+
+    // --- PORTFOLIO MAINTENANCE ---
+
+    syncTrades = async () => {
+        const wallet = this.wallet;
+        if (this.isDemo || !wallet) return;
+        this.log("Syncing portfolio...");
+        for (const trade of this.activeTrades.filter(t => t.status === "open")) {
+            try {
+                const bal = await this.backend.getTokenBalance(wallet.publicKey.toBase58(), trade.mint);
+                if (bal === null) continue; // Lookup failed: keep the position as it is
+                if (bal > 0) {
+                    this.setActiveTrades(prev => prev.map(t => t.mint === trade.mint ? { ...t, amountTokens: bal } : t));
+                } else if (now() - (trade.buyTime || 0) > 60000) {
+                    this.setActiveTrades(prev => prev.filter(t => t.mint !== trade.mint));
+                }
+            } catch (e) { }
+        }
+    };
+
+    cleanupWaste = async () => {
+        const wallet = this.wallet;
+        const connection = this.connection;
+        if (!wallet || this.isDemo) return;
+        this.setCleaning(true);
+        this.log("🧹 Cleanup in progress...");
+        try {
+            const { Transaction } = await import('@solana/web3.js');
+            const { TOKEN_PROGRAM_ID, createCloseAccountInstruction } = await import('@solana/spl-token');
+            const accounts = await connection.getParsedTokenAccountsByOwner(wallet.publicKey, { programId: TOKEN_PROGRAM_ID });
+            const toClose = accounts.value.filter(acc => acc.account.data.parsed.info.tokenAmount.uiAmount <= 0 && !this.activeTrades.some(t => t.mint === acc.account.data.parsed.info.mint)).slice(0, 20);
+            if (toClose.length === 0) { this.setCleaning(false); return; }
+            const transaction = new Transaction();
+            toClose.forEach(acc => transaction.add(createCloseAccountInstruction(acc.pubkey, wallet.publicKey, wallet.publicKey, [], TOKEN_PROGRAM_ID)));
+            const { blockhash } = await connection.getLatestBlockhash();
+            transaction.recentBlockhash = blockhash;
+            transaction.feePayer = wallet.publicKey;
+            transaction.sign(wallet);
+            const sig = await connection.sendRawTransaction(transaction.serialize());
+            this.log(`Cleanup Tx Sent: ${sig.substring(0, 8)}...`);
+            await connection.confirmTransaction(sig);
+            this.log(`✅ Rescued ${(toClose.length * TOKEN_ACCOUNT_RENT).toFixed(4)} SOL`);
+        } catch (e: any) { this.log(`Cleanup Failed: ${e.message}`); } finally { this.setCleaning(false); }
+    };
+
+    recoverTrades = async () => {
+        const wallet = this.wallet;
+        const connection = this.connection;
+        if (this.isDemo || !wallet) return;
+        this.log("Scanning for untracked tokens...");
+        try {
+            const { PublicKey } = await import('@solana/web3.js');
+            const accounts = await connection.getParsedTokenAccountsByOwner(wallet.publicKey, { programId: new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA") });
+            for (const acc of accounts.value) {
+                const info = acc.account.data.parsed.info;
+                if (info.tokenAmount.uiAmount > 0 && !this.activeTrades.some(t => t.mint === info.mint) && info.mint.endsWith('pump')) {
+                    const meta = await getTokenMetadata(info.mint, this.heliusKey);
+                    const price = await getPumpPrice(info.mint, connection);
+                    this.setActiveTrades(prev => [{ mint: info.mint, symbol: meta.symbol, buyPrice: price, amountTokens: info.tokenAmount.uiAmount, amountSolPaid: info.tokenAmount.uiAmount * price, currentPrice: price, pnlPercent: 0, status: "open", buyTime: now() }, ...prev]);
+                }
+            }
+            this.log("Scan complete.");
+        } catch (e: any) { this.log(`Scan Error: ${e.message}`); }
+    };
+
+    clearTrades = () => {
+        this.setActiveTrades(() => []);
+        this.setTradeHistory(() => []);
+        this.setStats(() => ({ totalProfit: 0, wins: 0, losses: 0 }));
+        this.log("Summary: Reset complete.");
+    };
+
+    updateTrade = (mint: string, updates: Partial<ActiveTrade>) => {
+        this.setActiveTrades(prev => prev.map(t => t.mint === mint ? { ...t, ...updates } : t));
+    };
+
+    // --- VAULT ---
+
+    withdrawFromVault = (amount: number) => {
+        if (amount <= 0 || amount > this.vaultBalance) return;
+        this.setVaultBalance(prev => prev - amount);
+        if (this.isDemo) this.setDemoBalance(prev => prev + amount);
+        this.log(`Vault Withdrawal: ${amount.toFixed(4)} SOL`);
+    };
+
+    moveVaultToTrading = (amount: number) => {
+        if (amount <= 0 || amount > this.vaultBalance) return;
+        this.setVaultBalance(prev => prev - amount);
+        this.setDemoBalance(prev => prev + amount);
+        this.log(`Vault Transfer: ${amount.toFixed(4)} SOL`);
+    };
+
+    clearVault = () => {
+        this.setVaultBalance(() => 0);
+    };
+}
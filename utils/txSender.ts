@@ -0,0 +1,92 @@
+import { Connection, TransactionError } from '@solana/web3.js';
+import { now, sleep } from './clock';
+import { TradeError } from './tradeErrors';
+
+/**
+ * Transaction Sender
+ * RPC nodes drop transactions under load, and a single send leaves an order waiting for
+ * something that will never land. A signed transaction is therefore re-broadcast at an
+ * interval (skipping preflight - it already passed once) while its status is polled,
+ * until it confirms or its blockhash expires. Re-broadcasting the same signed bytes is
+ * safe: the network lands a signature at most once. An RPC that stays unreachable ends the
+ * wait too (a deadline past the blockhash lifetime, and a cap on failed polls in a row),
+ * so the caller can reconcile the order instead of waiting on it forever.
+ */
+
+export interface RebroadcastOptions {
+    intervalMs: number; // Re-send the signed transaction this often
+    pollMs?: number; // Status check interval (default 500ms)
+    onBroadcast?: (count: number) => void; // Re-broadcasts so far (the initial send isn't counted)
+    timeoutMs?: number; // Give up after this long (default 120s, well past a blockhash's ~60-90s lifetime)
+    maxPollErrors?: number; // ... or after this many failed status polls in a row (default 30)
+}
+
+export type BroadcastResult =
+    | { status: 'confirmed' }
+    | { status: 'failed'; err: TransactionError }
+    | { status: 'expired' };
+
+const landed = (status: { confirmationStatus?: string } | null) =>
+    !!status && (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized');
+
+/**
+ * Re-broadcast `rawTransaction` until it lands (confirmed) or the block height passes `lastValidBlockHeight`.
+ * Throws a STATUS_UNKNOWN TradeError when the RPC can't say which: the transaction may still land, so it must
+ * not be re-sent as expired.
+ */
+export const confirmWithRebroadcast = async (
+    connection: Connection,
+    rawTransaction: Uint8Array,
+    signature: string,
+    lastValidBlockHeight: number,
+    options: RebroadcastOptions
+): Promise<BroadcastResult> => {
+    const pollMs = options.pollMs ?? 500;
+    const deadline = now() + (options.timeoutMs ?? 120000);
+    const maxPollErrors = options.maxPollErrors ?? 30;
+    let lastBroadcast = now();
+    let broadcasts = 0;
+    let pollErrors = 0;
+
+    while (true) {
+        await sleep(pollMs);
+
+        if (now() >= deadline) {
+            // The blockhash has expired by now: one look through history settles whether it landed
+            const { value: [final] } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true })
+                .catch(error => { throw new TradeError('STATUS_UNKNOWN', `Confirmation timed out and the status lookup failed: ${error.message || error}`); });
+            if (final?.err) return { status: 'failed', err: final.err };
+            return landed(final) ? { status: 'confirmed' } : { status: 'expired' };
+        }
+
+        try {
+            const { value: [status] } = await connection.getSignatureStatuses([signature]);
+            if (status?.err) return { status: 'failed', err: status.err };
+            if (landed(status)) return { status: 'confirmed' };
+
+            const blockHeight = await connection.getBlockHeight('confirmed');
+            if (blockHeight > lastValidBlockHeight) {
+                // It may have landed in the last blocks before expiry
+                const { value: [final] } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+                if (final?.err) return { status: 'failed', err: final.err };
+                return landed(final) ? { status: 'confirmed' } : { status: 'expired' };
+            }
+            pollErrors = 0;
+        } catch (error: any) {
+            // Transient RPC errors say nothing about the transaction: keep polling until expiry is confirmed
+            if (++pollErrors >= maxPollErrors) {
+                throw new TradeError('STATUS_UNKNOWN', `Confirmation status unknown: ${pollErrors} status checks failed in a row (${error.message || error})`);
+            }
+        }
+
+        if (now() - lastBroadcast >= options.intervalMs) {
+            lastBroadcast = now();
+            try {
+                await connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 });
+                options.onBroadcast?.(++broadcasts);
+            } catch (error) {
+                // Transient RPC errors: the next interval tries again
+            }
+        }
+    }
+};
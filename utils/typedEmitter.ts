@@ -0,0 +1,48 @@
+/**
+ * Minimal typed event emitter.
+ * Framework-free so it works the same in the browser, in Node and in tests.
+ */
+export type Listener<T> = (payload: T) => void;
+
+export class TypedEmitter<Events extends { [K in keyof Events]: unknown }> {
+    private listeners = new Map<keyof Events, Set<Listener<any>>>();
+
+    /** Subscribe to an event. Returns an unsubscribe function. */
+    on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+        let set = this.listeners.get(event);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(event, set);
+        }
+        set.add(listener);
+        return () => this.off(event, listener);
+    }
+
+    once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+        const off = this.on(event, (payload) => {
+            off();
+            listener(payload);
+        });
+        return off;
+    }
+
+    off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+        this.listeners.get(event)?.delete(listener);
+    }
+
+    protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        const set = this.listeners.get(event);
+        if (!set) return;
+        for (const listener of Array.from(set)) {
+            try {
+                listener(payload);
+            } catch (e) {
+                console.error(`[TypedEmitter] Listener for "${String(event)}" threw:`, e);
+            }
+        }
+    }
+
+    removeAllListeners(): void {
+        this.listeners.clear();
+    }
+}
@@ -0,0 +1,178 @@
+/**
+ * Reconnecting WebSocket Client
+ * Shared by the token feed and the market recorder. Reconnects with exponential backoff,
+ * detects dead sockets with a heartbeat (ping/pong frames where the implementation has them,
+ * e.g. `ws` in Node; otherwise silence past `idleTimeoutMs`), and re-sends every tracked
+ * subscription (subscribeNewToken, subscribeTokenTrade, logsSubscribe...) after reconnecting.
+ * Time spent disconnected is reported as a feed gap, since messages in it are lost.
+ */
+
+export type WsStatus = "connecting" | "connected" | "reconnecting" | "disconnected";
+
+/** Anything constructible like the browser WebSocket (e.g. the `ws` package in Node) */
+export type WebSocketConstructor = new (url: string) => WebSocket;
+
+export interface FeedGap {
+    start: number; // Last moment the socket was known good
+    end: number; // Reconnected
+    durationMs: number;
+    reason: string;
+}
+
+export interface WsClientOptions {
+    url: string;
+    WebSocketImpl?: WebSocketConstructor;
+    onMessage: (raw: string) => void;
+    onStatus?: (status: WsStatus, attempt: number) => void;
+    onGap?: (gap: FeedGap) => void;
+    reconnectBaseMs?: number; // First retry delay (default 1s), doubled per failed attempt
+    reconnectMaxMs?: number; // Backoff ceiling (default 30s)
+    heartbeatMs?: number; // Liveness check interval (default 15s)
+    idleTimeoutMs?: number; // No message or pong for this long = dead socket (default 45s)
+}
+
+interface Subscription {
+    subscribe: object;
+    unsubscribe?: object;
+}
+
+// Ping/pong frames are only reachable through the Node `ws` API; browsers handle them internally
+interface PingableSocket {
+    ping?: () => void;
+    on?: (event: 'pong', listener: () => void) => void;
+}
+
+export class WsClient {
+    private options: WsClientOptions;
+    private ws: WebSocket | null = null;
+    private subscriptions = new Map<string, Subscription>();
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+    private attempt = 0;
+    private lastSeen = 0;
+    private downSince: number | null = null;
+    private downReason = '';
+    private closed = false;
+
+    constructor(options: WsClientOptions) {
+        this.options = options;
+        this.connect();
+    }
+
+    get connected() {
+        return !!this.ws && this.ws.readyState === 1;
+    }
+
+    /**
+     * Track a subscription under `key` and send it now if connected; it is re-sent after every
+     * reconnect. Subscribing an existing key replaces it. `unsubscribe` is sent on removal.
+     */
+    subscribe(key: string, subscribe: object, unsubscribe?: object) {
+        this.subscriptions.set(key, { subscribe, unsubscribe });
+        this.send(subscribe);
+    }
+
+    unsubscribe(key: string) {
+        const sub = this.subscriptions.get(key);
+        if (!sub) return;
+        this.subscriptions.delete(key);
+        if (sub.unsubscribe) this.send(sub.unsubscribe);
+    }
+
+    send(payload: object) {
+        if (this.connected) this.ws!.send(JSON.stringify(payload));
+    }
+
+    close() {
+        this.closed = true;
+        this.clearTimers();
+        const ws = this.ws;
+        this.ws = null;
+        ws?.close();
+        this.options.onStatus?.("disconnected", this.attempt);
+    }
+
+    private connect() {
+        if (this.closed) return;
+        if (this.attempt === 0) this.options.onStatus?.("connecting", 0);
+
+        const WebSocketImpl = this.options.WebSocketImpl || WebSocket;
+        let ws: WebSocket;
+        try {
+            ws = new WebSocketImpl(this.options.url);
+        } catch (err) {
+            this.handleDown('connect failed');
+            return;
+        }
+        this.ws = ws;
+
+        const pingable = ws as unknown as PingableSocket;
+        pingable.on?.('pong', () => { this.lastSeen = Date.now(); });
+
+        ws.onopen = () => {
+            if (this.ws !== ws) return;
+            this.attempt = 0;
+            this.lastSeen = Date.now();
+            this.subscriptions.forEach(sub => ws.send(JSON.stringify(sub.subscribe)));
+            this.startHeartbeat(ws);
+            this.options.onStatus?.("connected", 0);
+            if (this.downSince !== null) {
+                const end = Date.now();
+                this.options.onGap?.({ start: this.downSince, end, durationMs: end - this.downSince, reason: this.downReason });
+                this.downSince = null;
+            }
+        };
+        ws.onmessage = (event) => {
+            if (this.ws !== ws) return;
+            this.lastSeen = Date.now();
+            this.options.onMessage(String(event.data));
+        };
+        ws.onerror = () => { }; // onclose follows
+        ws.onclose = () => {
+            if (this.ws !== ws) return;
+            this.handleDown('connection closed');
+        };
+    }
+
+    private startHeartbeat(ws: WebSocket) {
+        const heartbeatMs = this.options.heartbeatMs || 15000;
+        const idleTimeoutMs = this.options.idleTimeoutMs || 45000;
+        const pingable = ws as unknown as PingableSocket;
+
+        if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer = setInterval(() => {
+            if (this.ws !== ws) return;
+            if (Date.now() - this.lastSeen > idleTimeoutMs) {
+                this.handleDown(`no data for ${Math.round(idleTimeoutMs / 1000)}s`);
+                ws.close();
+                return;
+            }
+            try { pingable.ping?.(); } catch { }
+        }, heartbeatMs);
+    }
+
+    /** Mark the feed down (opening a gap if it had been live) and schedule the next attempt */
+    private handleDown(reason: string) {
+        if (this.downSince === null && this.lastSeen > 0) {
+            this.downSince = this.lastSeen;
+            this.downReason = reason;
+        }
+        this.ws = null;
+        this.clearTimers();
+        if (this.closed) return;
+
+        const base = this.options.reconnectBaseMs || 1000;
+        const max = this.options.reconnectMaxMs || 30000;
+        const delay = Math.min(max, base * 2 ** this.attempt);
+        this.attempt++;
+        this.options.onStatus?.("reconnecting", this.attempt);
+        this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    }
+
+    private clearTimers() {
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+        this.reconnectTimer = null;
+        this.heartbeatTimer = null;
+    }
+}